@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { AppView, MiningBot, LogCategory } from './types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppView, MiningBot, LogCategory, LedgerEntry, Transaction, MarketCandle, AssetSymbol } from './types';
 import Dashboard from './components/Dashboard';
 import MiningConsole from './components/MiningConsole';
 import AICommandCenter from './components/AICommandCenter';
@@ -12,32 +12,69 @@ import AuditLogView from './components/AuditLogView';
 import StripeCheckout from './components/StripeCheckout';
 import DiagnosticsView from './components/DiagnosticsView';
 import DataChainExplorer from './components/DataChainExplorer';
+import SecuritySettings from './components/SecuritySettings';
+import AlertSettingsPanel from './components/AlertSettingsPanel';
+import RedactionSettings from './components/RedactionSettings';
+import AlertToaster from './components/AlertToaster';
+import TelemetrySettings from './components/TelemetrySettings';
+import AutopilotSettings from './components/AutopilotSettings';
+import PowerSettings from './components/PowerSettings';
 import { LoggerService } from './services/logger';
 import { AuthService } from './services/auth';
-
-export interface Transaction {
-  id: string;
-  timestamp: number;
-  amount: number;
-  netAmount: number;
-  address: string;
-  status: 'confirmed' | 'pending' | 'failed';
-}
+import { LedgerService } from './services/ledger';
+import { SettlementService } from './services/settlement';
+import { MiningService } from './services/mining';
+import { MarketDataService, MarketSourceConfig, DEFAULT_SYMBOL, MARKET_WINDOW } from './services/marketData';
+import { AssetService, ASSETS } from './services/assets';
+import { AlertService } from './services/alerts';
+import { TelemetryService, TelemetryFeed, TelemetrySourceConfig } from './services/telemetry';
+import { MetricsService } from './services/metrics';
+import { AutopilotService } from './services/autopilot';
+import { BotEventBus } from './services/botEvents';
+import { BotLifecycleService } from './services/lifecycle';
+import { CatalogService } from './services/catalog';
+import { WhitelistService } from './services/whitelist';
+import { BulkOperationService, BulkPreview } from './services/bulkOperations';
 
 const INITIAL_BOTS: MiningBot[] = [
-  { id: '1', name: 'Alpha-X-7', status: 'active', hashrate: 125.5, efficiency: 0.99, temp: 54, profit24h: 32.8, balance: 412.50, algorithm: 'Ethash' },
-  { id: '2', name: 'HyperNode-Prime', status: 'active', hashrate: 32.1, efficiency: 0.94, temp: 58, profit24h: 8.2, balance: 89.20, algorithm: 'SHA-256' },
+  { id: '1', name: 'Alpha-X-7', status: 'active', hashrate: 125.5, efficiency: 0.99, temp: 54, profit24h: 32.8, balance: 412.50, algorithm: 'Ethash', group: 'House', region: 'us-east' },
+  { id: '2', name: 'HyperNode-Prime', status: 'active', hashrate: 32.1, efficiency: 0.94, temp: 58, profit24h: 8.2, balance: 89.20, algorithm: 'SHA-256', group: 'House', region: 'eu-central' },
 ];
 
+const ACCRUAL_TICK_MS = 5000;
+const AUTOPILOT_TICK_MS = 15000;
+
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<AppView>(AppView.DASHBOARD);
   const [apiKeySelected, setApiKeySelected] = useState<boolean>(false);
   const [isCheckingKey, setIsCheckingKey] = useState(true);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   
-  const [globalBalance, setGlobalBalance] = useState<number>(5420.55);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [activeBots, setActiveBots] = useState<MiningBot[]>(INITIAL_BOTS);
+  const [activeBots, setActiveBots] = useState<MiningBot[]>(() => MiningService.loadFleet(INITIAL_BOTS));
+
+  const [marketSource, setMarketSource] = useState<MarketSourceConfig>(() => MarketDataService.loadSource());
+  const [marketHistory, setMarketHistory] = useState<MarketCandle[]>([]);
+  const [marketError, setMarketError] = useState<string | null>(null);
+  const [latestCandles, setLatestCandles] = useState<Record<string, MarketCandle>>({});
+  const priceFactorRef = useRef(1);
+  const botStatusRef = useRef<Record<string, MiningBot['status']>>({});
+  // Bots whose next status transition a bulk operation has already audited
+  const bulkRecordedRef = useRef<Set<string>>(new Set());
+  const fleetRef = useRef<MiningBot[]>(activeBots);
+
+  const [telemetrySource, setTelemetrySource] = useState<TelemetrySourceConfig>(() => TelemetryService.loadSource());
+  const [telemetryError, setTelemetryError] = useState<string | null>(null);
+  const unknownRigsRef = useRef<Set<string>>(new Set());
+
+  const globalBalance = useMemo(() => LedgerService.getBalance(ledgerEntries), [ledgerEntries]);
+  const assetBalances = useMemo(() => LedgerService.getBalances(ledgerEntries), [ledgerEntries]);
+  const rates = useMemo(() => AssetService.buildRateTable(latestCandles), [latestCandles]);
+  const totalAssetsUsd = useMemo(
+    () => ASSETS.reduce((sum, asset) => sum + AssetService.toUsd(assetBalances[asset], asset, rates), 0),
+    [assetBalances, rates]
+  );
 
   // Stripe Checkout State
   const [checkoutData, setCheckoutData] = useState<{ amount: number; item: string } | null>(null);
@@ -60,6 +97,161 @@ const App: React.FC = () => {
     return () => window.removeEventListener('gemini-auth-reset', handleAuthReset);
   }, [performInitialAuthCheck]);
 
+  useEffect(() => {
+    const syncLedger = async () => {
+      try {
+        const snapshot = await LedgerService.init();
+        setLedgerEntries(snapshot.entries);
+        setTransactions(snapshot.transactions);
+        // Withdrawals still in flight from a previous session pick up where they stopped
+        SettlementService.resume(snapshot.transactions);
+      } catch (err) {
+        console.error("Failed to load ledger:", err);
+      }
+    };
+
+    syncLedger();
+    window.addEventListener('ledger-updated', syncLedger);
+    return () => window.removeEventListener('ledger-updated', syncLedger);
+  }, []);
+
+  // Market data: every price consumer reads this one series
+  useEffect(() => {
+    const provider = MarketDataService.createProvider(marketSource);
+    setMarketHistory([]);
+    setMarketError(null);
+    setLatestCandles({});
+    provider.start(
+      candle => {
+        setLatestCandles(prev => ({ ...prev, [candle.symbol]: candle }));
+        if (candle.symbol !== DEFAULT_SYMBOL) return;
+        setMarketError(null);
+        setMarketHistory(prev => [...prev, candle].slice(-MARKET_WINDOW));
+      },
+      err => setMarketError(err.message)
+    );
+    LoggerService.log(LogCategory.SYSTEM, "Market data source attached", { kind: marketSource.kind, source: provider.label });
+    return () => provider.stop();
+  }, [marketSource]);
+
+  useEffect(() => {
+    priceFactorRef.current = MarketDataService.getPriceFactor(marketHistory);
+  }, [marketHistory]);
+
+  const handleMarketSourceChange = (config: MarketSourceConfig) => {
+    MarketDataService.saveSource(config);
+    setMarketSource(config);
+  };
+
+  // Rig telemetry: measured hashrate, temperature and share efficiency replace the configured values
+  useEffect(() => {
+    if (!telemetrySource.enabled) return;
+    const feed = new TelemetryFeed(telemetrySource.url);
+    setTelemetryError(null);
+    feed.start(
+      reading => {
+        if (!(reading.botId in botStatusRef.current)) {
+          if (!unknownRigsRef.current.has(reading.botId)) {
+            unknownRigsRef.current.add(reading.botId);
+            LoggerService.log(LogCategory.OPERATION, "Telemetry from unknown bot ignored", { botId: reading.botId, source: reading.source });
+          }
+          return;
+        }
+        TelemetryService.record(reading);
+        setActiveBots(prev => TelemetryService.apply(prev, reading));
+      },
+      err => setTelemetryError(err ? err.message : null)
+    );
+    LoggerService.log(LogCategory.SYSTEM, "Telemetry bridge attached", { url: telemetrySource.url });
+    return () => feed.stop();
+  }, [telemetrySource]);
+
+  const handleTelemetrySourceChange = (config: TelemetrySourceConfig) => {
+    TelemetryService.saveSource(config);
+    setTelemetrySource(config);
+    if (!config.enabled) setTelemetryError(null);
+  };
+
+  // Accrual engine: credits bot balances every tick and catches up on time spent offline
+  useEffect(() => {
+    const tick = () => {
+      const now = Date.now();
+      const last = MiningService.getLastAccrualAt() ?? now;
+      MiningService.setLastAccrualAt(now);
+      if (now - last > ACCRUAL_TICK_MS * 2) {
+        LoggerService.log(LogCategory.OPERATION, "Offline mining accrual reconciled", { offlineMs: now - last });
+      }
+      setActiveBots(prev => MiningService.accrue(prev, now - last, priceFactorRef.current));
+    };
+
+    tick();
+    const timer = setInterval(tick, ACCRUAL_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    fleetRef.current = activeBots;
+    MiningService.saveFleet(activeBots);
+    MetricsService.record(activeBots);
+  }, [activeBots]);
+
+  // Whitelist quarantine expiries are recorded even while the withdrawal page is closed
+  useEffect(() => WhitelistService.watchExpiries(), []);
+
+  // Tier limits (allowed algorithms, lifetimes, upgrades) apply once the catalog is in
+  useEffect(() => {
+    CatalogService.load().catch(err => {
+      console.error("Failed to load tier catalog:", err);
+      LoggerService.log(LogCategory.SYSTEM, "Tier catalog failed to load", { error: String(err) });
+    });
+  }, []);
+
+  // Autopilot: policies run on a fixed cadence against the latest fleet state
+  useEffect(() => {
+    const stopObserving = AutopilotService.start();
+    const timer = setInterval(() => {
+      const decisions = AutopilotService.evaluate(fleetRef.current, priceFactorRef.current);
+      if (decisions.length === 0) return;
+      decisions.forEach(decision => AutopilotService.record(decision));
+      setActiveBots(prev => AutopilotService.apply(prev, decisions));
+    }, AUTOPILOT_TICK_MS);
+    return () => {
+      stopObserving();
+      clearInterval(timer);
+    };
+  }, []);
+
+  // Status transitions go to the audit log so alert rules can react to them
+  useEffect(() => {
+    const previous = botStatusRef.current;
+    const recorded = bulkRecordedRef.current;
+    activeBots.forEach(bot => {
+      const from = previous[bot.id];
+      if (from && from !== bot.status && !recorded.has(bot.id)) {
+        LoggerService.log(LogCategory.OPERATION, "Bot status changed", { botId: bot.id, botName: bot.name, from, to: bot.status });
+        BotEventBus.emit('status', bot.name, `Status ${from} → ${bot.status}`, { botId: bot.id, metadata: { from, to: bot.status } });
+      }
+    });
+    botStatusRef.current = Object.fromEntries(activeBots.map(bot => [bot.id, bot.status]));
+    recorded.clear();
+  }, [activeBots]);
+
+  useEffect(() => {
+    const stopAlerts = AlertService.start();
+    const handlePause = (e: Event) => {
+      const { ruleId, botIds } = (e as CustomEvent<{ ruleId: string; botIds: string[] | null }>).detail;
+      setActiveBots(prev => prev.map(bot =>
+        (!botIds || botIds.includes(bot.id)) && bot.status !== 'paused' ? { ...bot, status: 'paused', lastAction: 'Paused by alert rule' } : bot
+      ));
+      LoggerService.log(LogCategory.OPERATION, "Bots auto-paused by alert", { alertRuleId: ruleId, botIds: botIds ?? 'ALL' });
+    };
+    window.addEventListener('alert-pause-bots', handlePause);
+    return () => {
+      stopAlerts();
+      window.removeEventListener('alert-pause-bots', handlePause);
+    };
+  }, []);
+
   useEffect(() => {
     const handleResize = () => {
       if (window.innerWidth < 1024) setIsSidebarOpen(false);
@@ -77,46 +269,244 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDepositSuccess = (amount: number) => {
-    setGlobalBalance(prev => prev + amount);
+  const handleDepositSuccess = async (amount: number) => {
     setCheckoutData(null);
     const tx: Transaction = {
       id: `DEP-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
       amount: amount,
       netAmount: amount,
       timestamp: Date.now(),
+      kind: 'deposit',
+      asset: 'USD',
       address: 'EXTERNAL_STRIPE_INGRESS',
       status: 'confirmed'
     };
-    setTransactions(prev => [tx, ...prev]);
-    LoggerService.log(LogCategory.FINANCIAL, "Deposit synchronized via Stripe", { amount, txId: tx.id });
+    try {
+      await LedgerService.recordDeposit(tx);
+      LoggerService.log(LogCategory.FINANCIAL, "Deposit synchronized via Stripe", { amount, txId: tx.id });
+    } catch (err) {
+      console.error("Failed to post deposit:", err);
+      LoggerService.log(LogCategory.FINANCIAL, "Deposit ledger posting failed", { amount, txId: tx.id, error: String(err) });
+    }
   };
 
-  const addTransaction = (tx: Transaction) => {
-    setTransactions(prev => [tx, ...prev]);
-    setGlobalBalance(prev => prev - tx.amount);
-    LoggerService.log(LogCategory.FINANCIAL, "Extraction transaction finalized", { txId: tx.id, amount: tx.amount, address: tx.address });
+  const addTransaction = async (tx: Transaction) => {
+    try {
+      await SettlementService.submitWithdrawal(tx);
+      return true;
+    } catch (err) {
+      console.error("Failed to post withdrawal:", err);
+      LoggerService.log(LogCategory.FINANCIAL, "Extraction ledger posting failed", { txId: tx.id, asset: tx.asset, amount: tx.amount, error: String(err) });
+      return false;
+    }
   };
 
-  const handlePurchaseBot = (bot: MiningBot, price: number) => {
-    if (globalBalance >= price) {
-      setGlobalBalance(prev => prev - price);
-      setActiveBots(prev => [...prev, bot]);
-      const tx: Transaction = {
-        id: `PURCHASE-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
-        amount: price,
-        netAmount: price,
-        timestamp: Date.now(),
-        address: 'INTERNAL_LATTICE_PROVISION',
-        status: 'confirmed'
-      };
-      setTransactions(prev => [tx, ...prev]);
-      LoggerService.log(LogCategory.FINANCIAL, "Cloud node provisioned", { botName: bot.name, price, botId: bot.id });
+  const handleConvert = async (from: AssetSymbol, to: AssetSymbol, amount: number) => {
+    const received = AssetService.convert(amount, from, to, rates);
+    if (amount <= 0 || received <= 0 || amount > assetBalances[from]) return false;
+    const tx: Transaction = {
+      id: `FX-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+      timestamp: Date.now(),
+      kind: 'conversion',
+      asset: to,
+      amount: received,
+      netAmount: received,
+      usdValue: AssetService.toUsd(amount, from, rates),
+      address: `INTERNAL_FX_${from}_${to}`,
+      status: 'confirmed'
+    };
+    try {
+      await LedgerService.recordConversion(tx, { asset: from, amount }, { asset: to, amount: received });
+      LoggerService.log(LogCategory.FINANCIAL, "Wallet asset conversion settled", { txId: tx.id, from, to, amount, received, rate: rates[to] });
       return true;
-    } else {
+    } catch (err) {
+      console.error("Failed to post conversion:", err);
+      LoggerService.log(LogCategory.FINANCIAL, "Conversion ledger posting failed", { txId: tx.id, from, to, amount, error: String(err) });
+      return false;
+    }
+  };
+
+  /**
+   * Pays for a new bot and adds it to the fleet once the ledger has taken
+   * the payment. The ledger itself refuses to overdraw the wallet.
+   */
+  const handlePurchaseBot = async (bot: MiningBot, price: number): Promise<boolean> => {
+    if (globalBalance < price) {
       setCheckoutData({ amount: price - globalBalance + 100, item: `Balance Top-up for ${bot.name}` });
       return false;
     }
+    const tx: Transaction = {
+      id: `PURCHASE-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+      amount: price,
+      netAmount: price,
+      timestamp: Date.now(),
+      kind: 'purchase',
+      asset: 'USD',
+      address: 'INTERNAL_LATTICE_PROVISION',
+      status: 'confirmed'
+    };
+    try {
+      await LedgerService.recordPurchase(tx, bot.id);
+    } catch (err) {
+      console.error("Failed to post bot purchase:", err);
+      LoggerService.log(LogCategory.FINANCIAL, "Provision ledger posting failed", { botId: bot.id, price, txId: tx.id, error: String(err) });
+      return false;
+    }
+    setActiveBots(prev => [...prev, bot]);
+    LoggerService.log(LogCategory.FINANCIAL, "Cloud node provisioned", { botName: bot.name, price, botId: bot.id, txId: tx.id });
+    return true;
+  };
+
+  const handleSweepBalances = async () => {
+    const swept = activeBots
+      .map(b => ({ id: b.id, amount: Math.floor((b.balance || 0) * 100) / 100 }))
+      .filter(s => s.amount > 0);
+    const total = Math.round(swept.reduce((sum, s) => sum + s.amount, 0) * 100) / 100;
+    if (total <= 0) return;
+
+    setActiveBots(prev => prev.map(bot => {
+      const entry = swept.find(s => s.id === bot.id);
+      return entry ? { ...bot, balance: Math.max(0, (bot.balance || 0) - entry.amount) } : bot;
+    }));
+    const tx: Transaction = {
+      id: `SWEEP-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+      amount: total,
+      netAmount: total,
+      timestamp: Date.now(),
+      kind: 'sweep',
+      asset: 'USD',
+      address: 'INTERNAL_BOT_SWEEP',
+      status: 'confirmed'
+    };
+    const botIds = swept.map(s => s.id);
+    try {
+      await LedgerService.recordSweep(tx, botIds);
+      LoggerService.log(LogCategory.FINANCIAL, "Bot balances swept to main wallet", { txId: tx.id, amount: total, botIds });
+    } catch (err) {
+      // Return the funds to the bots so a failed posting never loses balance
+      setActiveBots(prev => prev.map(bot => {
+        const entry = swept.find(s => s.id === bot.id);
+        return entry ? { ...bot, balance: (bot.balance || 0) + entry.amount } : bot;
+      }));
+      console.error("Failed to post sweep:", err);
+      LoggerService.log(LogCategory.FINANCIAL, "Bot sweep ledger posting failed", { txId: tx.id, amount: total, botIds, error: String(err) });
+    }
+  };
+
+  const handleUpgradeBot = async (botId: string, tierId: string): Promise<boolean> => {
+    const bot = activeBots.find(b => b.id === botId);
+    const target = CatalogService.getTier(tierId);
+    if (!bot || !target) return false;
+    const price = CatalogService.upgradePrice(bot, target);
+    if (globalBalance < price) {
+      setCheckoutData({ amount: price - globalBalance + 100, item: `Balance Top-up for ${target.name} upgrade` });
+      return false;
+    }
+    const tx: Transaction = {
+      id: `PURCHASE-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+      amount: price,
+      netAmount: price,
+      timestamp: Date.now(),
+      kind: 'purchase',
+      asset: 'USD',
+      address: 'INTERNAL_LATTICE_UPGRADE',
+      status: 'confirmed'
+    };
+    try {
+      if (price > 0) await LedgerService.recordUpgrade(tx, botId, bot.tierId, tierId);
+    } catch (err) {
+      console.error("Failed to post bot upgrade:", err);
+      LoggerService.log(LogCategory.FINANCIAL, "Upgrade ledger posting failed", { botId, fromTierId: bot.tierId, toTierId: tierId, price, txId: tx.id, error: String(err) });
+      return false;
+    }
+    setActiveBots(prev => prev.map(b => b.id === botId ? CatalogService.upgrade(b, target) : b));
+    LoggerService.log(LogCategory.FINANCIAL, "Cloud node upgraded", { botId, botName: bot.name, fromTierId: bot.tierId, toTierId: tierId, price, txId: price > 0 ? tx.id : undefined });
+    BotEventBus.emit('provisioning', bot.name, `Upgraded to ${target.name} for $${price.toFixed(2)}`, { botId, metadata: { fromTierId: bot.tierId, toTierId: tierId } });
+    return true;
+  };
+
+  /**
+   * Applies a confirmed bulk operation under its single grouped audit entry,
+   * so the status-diff effect does not log each bot again.
+   */
+  const handleBulkApply = (preview: BulkPreview) => {
+    preview.changes
+      .filter(c => !c.skipped && c.updates.status && c.updates.status !== c.bot.status)
+      .forEach(c => bulkRecordedRef.current.add(c.bot.id));
+    setActiveBots(prev => BulkOperationService.apply(prev, preview));
+    BulkOperationService.record(preview);
+  };
+
+  /**
+   * Stops a bot and removes it from the fleet, sweeping its balance and
+   * selling it back at its depreciated value. Returns false, with the bot
+   * back in the fleet, if a posting fails.
+   */
+  const handleDecommissionBot = async (botId: string): Promise<boolean> => {
+    const bot = activeBots.find(b => b.id === botId);
+    if (!bot) return false;
+    const now = Date.now();
+    const quote = BotLifecycleService.quote(bot, now);
+    const txIds: string[] = [];
+    let swept = 0;
+
+    setActiveBots(prev => prev.filter(b => b.id !== botId));
+    try {
+      if (quote.sweepAmount > 0) {
+        const sweep: Transaction = {
+          id: `SWEEP-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+          amount: quote.sweepAmount,
+          netAmount: quote.sweepAmount,
+          timestamp: now,
+          kind: 'sweep',
+          asset: 'USD',
+          address: 'INTERNAL_BOT_SWEEP',
+          status: 'confirmed'
+        };
+        await LedgerService.recordSweep(sweep, [botId]);
+        swept = quote.sweepAmount;
+        txIds.push(sweep.id);
+      }
+      if (quote.cost > 0) {
+        const resale: Transaction = {
+          id: `RESALE-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+          amount: quote.resaleValue,
+          netAmount: quote.resaleValue,
+          timestamp: now,
+          kind: 'resale',
+          asset: 'USD',
+          address: 'INTERNAL_LATTICE_BUYBACK',
+          status: 'confirmed'
+        };
+        await LedgerService.recordResale(resale, botId, quote.cost);
+        txIds.push(resale.id);
+      }
+    } catch (err) {
+      // Put the bot back, less anything already swept, so a failed posting never loses it
+      setActiveBots(prev => [...prev, { ...bot, balance: (bot.balance || 0) - swept }]);
+      console.error("Failed to post decommission:", err);
+      LoggerService.log(LogCategory.FINANCIAL, "Decommission ledger posting failed", { botId, botName: bot.name, txIds, error: String(err) });
+      return false;
+    }
+
+    const retired: MiningBot = { ...bot, status: 'paused', balance: (bot.balance || 0) - swept };
+    BotLifecycleService.archive(retired, quote, txIds, now).catch(err => {
+      console.error("Failed to archive bot:", err);
+      LoggerService.log(LogCategory.SYSTEM, "Bot archive write failed", { botId, error: String(err) });
+    });
+    LoggerService.log(LogCategory.FINANCIAL, "Cloud node decommissioned", {
+      botId,
+      botName: bot.name,
+      tierId: bot.tierId,
+      ageDays: Math.round(quote.ageDays * 10) / 10,
+      cost: quote.cost,
+      resaleValue: quote.resaleValue,
+      depreciation: quote.depreciation,
+      sweptBalance: swept,
+      txIds
+    });
+    BotEventBus.emit('provisioning', bot.name, `Decommissioned; $${(quote.resaleValue + swept).toFixed(2)} returned to wallet`, { botId, metadata: { resaleValue: quote.resaleValue, sweptBalance: swept } });
+    return true;
   };
 
   const handleViewChange = (view: AppView) => {
@@ -175,13 +565,13 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          {activeView === AppView.DASHBOARD && <Dashboard globalBalance={globalBalance} bots={activeBots} onOpenDeposit={() => setCheckoutData({ amount: 500, item: "Manual Balance Recharge" })} />}
-          {activeView === AppView.MINING_BOTS && <MiningConsole bots={activeBots} setBots={setActiveBots} onPurchase={handlePurchaseBot} balance={globalBalance} onOpenDeposit={() => setCheckoutData({ amount: 1000, item: "Marketplace Deposit" })} />}
+          {activeView === AppView.DASHBOARD && <Dashboard globalBalance={totalAssetsUsd} bots={activeBots} marketHistory={marketHistory} marketSource={marketSource} marketError={marketError} onMarketSourceChange={handleMarketSourceChange} onOpenDeposit={() => setCheckoutData({ amount: 500, item: "Manual Balance Recharge" })} />}
+          {activeView === AppView.MINING_BOTS && <MiningConsole bots={activeBots} setBots={setActiveBots} onBulkApply={handleBulkApply} onPurchase={handlePurchaseBot} onSweep={handleSweepBalances} onDecommission={handleDecommissionBot} onUpgrade={handleUpgradeBot} marketHistory={marketHistory} balance={globalBalance} onOpenDeposit={() => setCheckoutData({ amount: 1000, item: "Marketplace Deposit" })} />}
           {activeView === AppView.AI_COMMAND && <AICommandCenter />}
           {activeView === AppView.MARKET_RESEARCH && <MarketResearch />}
           {activeView === AppView.ALGORITHMS && <AlgorithmLab />}
           {activeView === AppView.DATA_CHAINS && <DataChainExplorer />}
-          {activeView === AppView.WITHDRAW && <WithdrawalPage balance={globalBalance} onWithdraw={addTransaction} history={transactions} />}
+          {activeView === AppView.WITHDRAW && <WithdrawalPage balances={assetBalances} rates={rates} onWithdraw={addTransaction} onConvert={handleConvert} history={transactions} />}
           {activeView === AppView.AUDIT_LOG && <AuditLogView />}
           {activeView === AppView.DIAGNOSTICS && <DiagnosticsView bots={activeBots} setBots={setActiveBots} />}
           {activeView === AppView.SETTINGS && (
@@ -196,12 +586,20 @@ const App: React.FC = () => {
                   </div>
                   <button onClick={handleSelectKey} className="px-4 py-2 bg-indigo-600/20 text-indigo-400 border border-indigo-600/30 rounded-lg hover:bg-indigo-600 hover:text-white transition-all text-sm font-bold">Change Key</button>
                 </div>
+                <SecuritySettings />
+                <AutopilotSettings />
+                <PowerSettings />
+                <AlertSettingsPanel />
+                <RedactionSettings />
+                <TelemetrySettings bots={activeBots} source={telemetrySource} error={telemetryError} onSourceChange={handleTelemetrySourceChange} />
               </div>
             </div>
           )}
         </div>
       </main>
 
+      <AlertToaster onOpenAuditLog={() => handleViewChange(AppView.AUDIT_LOG)} />
+
       {checkoutData && (
         <StripeCheckout 
           amount={checkoutData.amount} 
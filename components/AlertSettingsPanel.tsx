@@ -0,0 +1,127 @@
+
+import React, { useState } from 'react';
+import { AlertService, AlertRule, AlertActionKind, AlertSeverity, ALERT_ACTION_LABELS } from '../services/alerts';
+import { AuditQueryService } from '../services/auditQuery';
+import { LoggerService } from '../services/logger';
+import { LogCategory } from '../types';
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+const AlertSettingsPanel: React.FC = () => {
+  const [rules, setRules] = useState<AlertRule[]>(() => AlertService.getRules());
+  const [webhookUrl, setWebhookUrl] = useState(() => AlertService.getSettings().webhookUrl);
+  const [webhookError, setWebhookError] = useState<string | null>(null);
+  const [permission, setPermission] = useState<string>(() => typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  const commit = (next: AlertRule[]) => {
+    setRules(next);
+    AlertService.saveRules(next);
+  };
+
+  const updateRule = (id: string, updates: Partial<AlertRule>) => {
+    commit(rules.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const toggleAction = async (rule: AlertRule, action: AlertActionKind) => {
+    const enabling = !rule.actions.includes(action);
+    if (enabling && action === 'desktop') setPermission(await AlertService.requestDesktopPermission());
+    updateRule(rule.id, { actions: enabling ? [...rule.actions, action] : rule.actions.filter(a => a !== action) });
+  };
+
+  const handleAddRule = () => commit([...rules, AlertService.createRule()]);
+
+  const handleDeleteRule = (rule: AlertRule) => {
+    commit(rules.filter(r => r.id !== rule.id));
+    LoggerService.log(LogCategory.SECURITY, "Alert rule deleted", { alertRuleId: rule.id, rule: rule.name });
+  };
+
+  const handleSaveWebhook = () => {
+    const url = webhookUrl.trim();
+    if (url && !/^https?:\/\//i.test(url)) {
+      setWebhookError('Webhook URL must start with http:// or https://');
+      return;
+    }
+    setWebhookError(null);
+    AlertService.saveSettings({ ...AlertService.getSettings(), webhookUrl: url });
+    LoggerService.log(LogCategory.SECURITY, "Alert webhook endpoint changed", { configured: !!url });
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-200">Alert Rules</span>
+          <span className="text-xs text-gray-500 mt-1">Evaluated on every audit entry. Conditions use the audit ledger query language.</span>
+        </div>
+        <button onClick={handleAddRule} className="px-4 py-2 bg-indigo-600/20 text-indigo-400 border border-indigo-600/30 rounded-lg hover:bg-indigo-600 hover:text-white transition-all text-sm font-bold">Add Rule</button>
+      </div>
+
+      {rules.map(rule => {
+        const queryErrors = AuditQueryService.parse(rule.query).errors;
+        return (
+          <div key={rule.id} className={`p-4 rounded-lg border space-y-3 ${rule.enabled ? 'border-gray-700 bg-gray-950/50' : 'border-gray-800 opacity-60'}`}>
+            <div className="flex items-center gap-3">
+              <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} className="accent-indigo-500" />
+              <input type="text" value={rule.name} onChange={(e) => updateRule(rule.id, { name: e.target.value })} className="flex-1 bg-transparent border-b border-gray-800 text-sm font-bold text-white focus:outline-none focus:border-indigo-500" />
+              <select value={rule.severity} onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlertSeverity })} className="bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-xs font-bold text-white uppercase">
+                {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <button onClick={() => handleDeleteRule(rule)} className="text-gray-600 hover:text-red-400 text-xs font-bold">Delete</button>
+            </div>
+            <input
+              type="text"
+              value={rule.query}
+              onChange={(e) => updateRule(rule.id, { query: e.target.value })}
+              spellCheck={false}
+              className={`w-full bg-gray-950 border rounded-lg px-3 py-2 text-xs font-mono text-white focus:outline-none focus:ring-2 ${queryErrors.length > 0 ? 'border-red-500/50 focus:ring-red-500' : 'border-gray-800 focus:ring-indigo-500'}`}
+            />
+            {queryErrors.length > 0 && <p className="text-xs text-red-500 font-bold">{queryErrors[0].message}</p>}
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+              <span>Fire after</span>
+              <input type="number" min={1} value={rule.threshold} onChange={(e) => updateRule(rule.id, { threshold: Math.max(1, Number(e.target.value) || 1) })} className="w-16 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-white font-bold" />
+              <span>matches within</span>
+              <input type="number" min={1} value={rule.windowMinutes} onChange={(e) => updateRule(rule.id, { windowMinutes: Math.max(1, Number(e.target.value) || 1) })} className="w-16 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-white font-bold" />
+              <span>min, then wait</span>
+              <input type="number" min={0} value={rule.cooldownMinutes} onChange={(e) => updateRule(rule.id, { cooldownMinutes: Math.max(0, Number(e.target.value) || 0) })} className="w-16 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-white font-bold" />
+              <span>min</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ALERT_ACTION_LABELS) as AlertActionKind[]).map(action => (
+                <button
+                  key={action}
+                  onClick={() => toggleAction(rule, action)}
+                  className={`px-3 py-1 rounded-lg border text-[10px] font-black uppercase tracking-widest transition-all ${rule.actions.includes(action) ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-gray-900 text-gray-500 border-gray-800 hover:text-gray-300'}`}
+                >
+                  {ALERT_ACTION_LABELS[action]}
+                </button>
+              ))}
+            </div>
+            {rule.actions.includes('desktop') && permission !== 'granted' && (
+              <p className="text-xs text-amber-500 font-bold">Desktop notifications are {permission === 'unsupported' ? 'not supported in this browser' : 'blocked'}; toasts still appear.</p>
+            )}
+            {rule.actions.includes('webhook') && !webhookUrl && (
+              <p className="text-xs text-amber-500 font-bold">No webhook URL configured below.</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-col gap-2 pt-4 border-t border-gray-800">
+        <span className="font-medium text-gray-200">Alert Webhook</span>
+        <div className="flex gap-2">
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={(e) => { setWebhookUrl(e.target.value); setWebhookError(null); }}
+            placeholder="https://hooks.example.com/cloudmine"
+            className="flex-1 bg-gray-950 border border-gray-800 rounded-lg px-4 py-2 text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button onClick={handleSaveWebhook} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold">Save</button>
+        </div>
+        {webhookError && <p className="text-xs text-red-500 font-bold">{webhookError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AlertSettingsPanel;
@@ -0,0 +1,55 @@
+
+import React, { useEffect, useState } from 'react';
+import { AlertEvent, AlertSeverity } from '../services/alerts';
+
+const TOAST_TTL_MS = 8000;
+const MAX_TOASTS = 4;
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  info: 'border-indigo-500/40 text-indigo-300',
+  warning: 'border-amber-500/40 text-amber-300',
+  critical: 'border-red-500/50 text-red-300'
+};
+
+interface AlertToasterProps {
+  onOpenAuditLog: () => void;
+}
+
+const AlertToaster: React.FC<AlertToasterProps> = ({ onOpenAuditLog }) => {
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+
+  const dismiss = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
+
+  useEffect(() => {
+    const handleAlert = (e: Event) => {
+      const alert = (e as CustomEvent<AlertEvent>).detail;
+      setToasts(prev => [...prev, alert].slice(-MAX_TOASTS));
+      // Critical alerts stay until dismissed
+      if (alert.severity !== 'critical') setTimeout(() => dismiss(alert.id), TOAST_TTL_MS);
+    };
+    window.addEventListener('alert-fired', handleAlert);
+    return () => window.removeEventListener('alert-fired', handleAlert);
+  }, []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[120] flex flex-col gap-3 w-80">
+      {toasts.map(toast => (
+        <div key={toast.id} className={`glass-card rounded-2xl border p-4 shadow-2xl animate-in slide-in-from-right-4 ${SEVERITY_STYLES[toast.severity]}`}>
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-[9px] font-black uppercase tracking-widest opacity-70">{toast.severity} · {new Date(toast.firedAt).toLocaleTimeString()}</p>
+              <p className="text-sm font-black text-white mt-1">{toast.ruleName}</p>
+              <p className="text-xs text-gray-400 mt-1 break-words">{toast.message}</p>
+            </div>
+            <button onClick={() => dismiss(toast.id)} className="text-gray-600 hover:text-white shrink-0"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+          </div>
+          <button onClick={() => { dismiss(toast.id); onOpenAuditLog(); }} className="mt-3 text-[9px] font-black uppercase tracking-widest hover:text-white transition-colors">View in audit ledger →</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertToaster;
@@ -0,0 +1,145 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush, Legend } from 'recharts';
+import { LoggerService, AuditQuery, AuditSummary } from '../services/logger';
+import { LogCategory } from '../types';
+
+const CATEGORY_FILLS: Record<LogCategory, string> = {
+  [LogCategory.SYSTEM]: '#60a5fa',
+  [LogCategory.FINANCIAL]: '#4ade80',
+  [LogCategory.SECURITY]: '#f87171',
+  [LogCategory.OPERATION]: '#818cf8',
+  [LogCategory.AI]: '#c084fc',
+  [LogCategory.MARKETPLACE]: '#f472b6',
+};
+
+const BRUSH_DEBOUNCE_MS = 300;
+
+export interface TimeWindow {
+  since: number;
+  until: number;
+}
+
+interface AuditAnalyticsProps {
+  query: AuditQuery;
+  refreshToken: number;
+  onBrushChange: (window: TimeWindow | null) => void;
+  onSearch: (query: string) => void;
+}
+
+const formatBucket = (start: number, bucketMs: number) => {
+  const date = new Date(start);
+  if (bucketMs >= 24 * 60 * 60 * 1000) return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  if (bucketMs >= 60 * 60 * 1000) return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit' });
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const formatBucketSize = (bucketMs: number) => {
+  const minutes = Math.round(bucketMs / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 1440) return `${minutes / 60} h`;
+  return `${minutes / 1440} d`;
+};
+
+const RankedList: React.FC<{ title: string; items: { name: string; count: number }[]; onSelect: (name: string) => void }> = ({ title, items, onSelect }) => {
+  const max = items[0]?.count || 1;
+  return (
+    <div className="glass-card rounded-3xl border border-gray-800/50 p-6">
+      <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-500 mb-4">{title}</h3>
+      {items.length === 0 && <p className="text-[10px] text-gray-700 font-black uppercase tracking-widest">No entries</p>}
+      <div className="space-y-2">
+        {items.map(item => (
+          <button key={item.name} onClick={() => onSelect(item.name)} className="w-full text-left group" title="Search for this">
+            <div className="flex justify-between gap-3 text-[11px] font-mono">
+              <span className="text-gray-300 truncate group-hover:text-indigo-400 transition-colors">{item.name}</span>
+              <span className="text-gray-500 font-bold shrink-0">{item.count.toLocaleString()}</span>
+            </div>
+            <div className="h-1 mt-1 bg-gray-900 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500/60 group-hover:bg-indigo-400 transition-all" style={{ width: `${(item.count / max) * 100}%` }}></div>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AuditAnalytics: React.FC<AuditAnalyticsProps> = ({ query, refreshToken, onBrushChange, onSearch }) => {
+  const [summary, setSummary] = useState<AuditSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const brushTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    LoggerService.summarize(query)
+      .then(result => { if (!cancelled) setSummary(result); })
+      .catch(err => console.error("Failed to summarize audit ledger:", err))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [query, refreshToken]);
+
+  useEffect(() => () => {
+    if (brushTimerRef.current) clearTimeout(brushTimerRef.current);
+  }, []);
+
+  const chartData = (summary?.buckets ?? []).map(bucket => ({
+    label: formatBucket(bucket.start, summary!.bucketMs),
+    start: bucket.start,
+    ...bucket.counts
+  }));
+
+  const handleBrush = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (!summary || startIndex === undefined || endIndex === undefined) return;
+    if (brushTimerRef.current) clearTimeout(brushTimerRef.current);
+    brushTimerRef.current = window.setTimeout(() => {
+      const covered = startIndex === 0 && endIndex === summary.buckets.length - 1;
+      onBrushChange(covered ? null : {
+        since: summary.buckets[startIndex].start,
+        until: summary.buckets[endIndex].start + summary.bucketMs - 1
+      });
+    }, BRUSH_DEBOUNCE_MS);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-top-2">
+      <div className="glass-card rounded-[2.5rem] border border-gray-800/50 p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-500">Event Timeline by Category</h3>
+            <p className="text-[9px] text-gray-600 font-black uppercase tracking-widest mt-1">
+              {summary ? `${summary.total.toLocaleString()} entries · ${formatBucketSize(summary.bucketMs)} buckets · drag the brush to filter the table` : 'Loading...'}
+            </p>
+          </div>
+          {isLoading && <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>}
+        </div>
+        <div className="h-[320px]">
+          {summary && summary.total > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                <XAxis dataKey="label" stroke="#4b5563" fontSize={9} tickLine={false} axisLine={false} minTickGap={30} />
+                <YAxis stroke="#4b5563" fontSize={9} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }} itemStyle={{ fontSize: '11px' }} labelStyle={{ color: '#9ca3af', fontSize: '10px' }} cursor={{ fill: '#ffffff08' }} />
+                <Legend wrapperStyle={{ fontSize: '9px', fontWeight: 900, textTransform: 'uppercase', letterSpacing: '0.1em' }} />
+                {Object.values(LogCategory).map(cat => (
+                  <Bar key={cat} dataKey={cat} stackId="events" fill={CATEGORY_FILLS[cat]} isAnimationActive={false} />
+                ))}
+                <Brush key={chartData[0]?.start} dataKey="label" height={24} stroke="#4b5563" fill="#111827" onChange={handleBrush} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-[10px] text-gray-700 font-black uppercase tracking-widest">{summary ? 'No entries match the current filters' : ''}</div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <RankedList title="Top Actions" items={summary?.topActions ?? []} onSelect={name => onSearch(`action:"${name}"`)} />
+        <RankedList title="Top Metadata Keys" items={summary?.topMetadataKeys ?? []} onSelect={name => onSearch(/^[A-Za-z_][\w.]*$/.test(name) ? `${name}:*` : name)} />
+      </div>
+    </div>
+  );
+};
+
+export default AuditAnalytics;
@@ -1,6 +1,10 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { LoggerService } from '../services/logger';
+import { LoggerService, ChainVerification, ChainBreakReason, AuditCursor, AuditQuery, AuditSortKey, RetentionPolicy } from '../services/logger';
+import { AuditExportService, AuditExportFormat, AuditBundleImport } from '../services/auditExport';
+import { AuditQueryService, SavedSearch } from '../services/auditQuery';
+import AuditAnalytics, { TimeWindow } from './AuditAnalytics';
+import TotpChallenge from './TotpChallenge';
 import { AuditLog, LogCategory } from '../types';
 
 const CATEGORY_COLORS: Record<LogCategory, string> = {
@@ -13,6 +17,8 @@ const CATEGORY_COLORS: Record<LogCategory, string> = {
 };
 
 const PAGE_SIZE = 20;
+// Bursts of new entries are verified together once the ledger goes quiet
+const VERIFY_DEBOUNCE_MS = 1000;
 
 const MOCK_ACTIONS = [
   { category: LogCategory.OPERATION, action: "Neural node hashrate re-balanced", meta: { node: "Alpha-X-7", delta: "+4.2MH/s" } },
@@ -24,9 +30,35 @@ const MOCK_ACTIONS = [
   { category: LogCategory.SYSTEM, action: "Shard migration initiated", meta: { region: "EU-West", target: "EU-Central" } }
 ];
 
-type SortKey = 'timestamp' | 'category' | 'action';
+const BREAK_REASONS: Record<ChainBreakReason, string> = {
+  'sequence-gap': 'entries missing before this record',
+  'link-mismatch': 'previous-hash link does not match',
+  'hash-mismatch': 'record content was altered',
+  'unsealed': 'record carries no chain hash',
+  'unlisted-tombstone': 'record was pruned without a prune manifest'
+};
+
+type SortKey = AuditSortKey;
 type SortDirection = 'asc' | 'desc';
 
+type TimeRange = 'ALL' | '24H' | '7D' | '30D';
+
+const TIME_RANGES: Record<TimeRange, number | null> = {
+  ALL: null,
+  '24H': 24 * 60 * 60 * 1000,
+  '7D': 7 * 24 * 60 * 60 * 1000,
+  '30D': 30 * 24 * 60 * 60 * 1000
+};
+
+const EXPORT_FORMATS: { format: AuditExportFormat; label: string; hint: string }[] = [
+  { format: 'csv', label: 'CSV', hint: 'Spreadsheet' },
+  { format: 'jsonl', label: 'JSON Lines', hint: 'One entry per line' },
+  { format: 'ndjson', label: 'NDJSON', hint: 'Schema header + entries' },
+  { format: 'bundle', label: 'Signed Bundle', hint: 'Manifest, chain head, signature' }
+];
+
+const RETENTION_OPTIONS: (number | null)[] = [7, 30, 90, 180, 365, null];
+
 const MetadataNode: React.FC<{ data: any; label?: string; depth?: number }> = ({ data, label, depth = 0 }) => {
   const [isExpanded, setIsExpanded] = useState(depth < 2);
   const [isTruncated, setIsTruncated] = useState(true);
@@ -135,24 +167,132 @@ const MetadataNode: React.FC<{ data: any; label?: string; depth?: number }> = ({
 };
 
 const AuditLogView: React.FC = () => {
-  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [pageLogs, setPageLogs] = useState<AuditLog[]>([]);
+  // Cursor that opens each page; index 0 (page 1) starts at the head
+  const [pageCursors, setPageCursors] = useState<(AuditCursor | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<AuditCursor | null>(null);
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [refreshToken, setRefreshToken] = useState(0);
   const [filter, setFilter] = useState<LogCategory | 'ALL'>('ALL');
+  const [timeRange, setTimeRange] = useState<TimeRange>('ALL');
   const [searchQuery, setSearchQuery] = useState('');
+  // Last search that parsed cleanly; typing an invalid query keeps these results
+  const [appliedSearch, setAppliedSearch] = useState<AuditQuery>({});
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(() => AuditQueryService.getSavedSearches());
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const [viewMode, setViewMode] = useState<'table' | 'analytics'>('table');
+  const [brushWindow, setBrushWindow] = useState<TimeWindow | null>(null);
+  const [saveName, setSaveName] = useState('');
   const [inspectingLogId, setInspectingLogId] = useState<string | null>(null);
+  const [revealTargetId, setRevealTargetId] = useState<string | null>(null);
+  // Unredacted metadata, held only in memory for entries revealed this session
+  const [revealed, setRevealed] = useState<Record<string, Record<string, any>>>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [isExporting, setIsExporting] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<AuditBundleImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   const [isLiveLedger, setIsLiveLedger] = useState(false);
   const [newlyAddedIds, setNewlyAddedIds] = useState<Set<string>>(new Set());
   const [backgroundLogsCount, setBackgroundLogsCount] = useState(0);
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: SortDirection }>({ key: 'timestamp', direction: 'desc' });
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [showRetention, setShowRetention] = useState(false);
+  const [retention, setRetention] = useState<RetentionPolicy>(() => LoggerService.getRetentionPolicy());
   const liveTimerRef = useRef<number | null>(null);
+  const verificationRef = useRef<ChainVerification | null>(null);
+  const isVerifyingRef = useRef(false);
+  const pendingVerifyRef = useRef<'full' | 'incremental' | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const parsedSearch = useMemo(() => AuditQueryService.parse(searchQuery), [searchQuery]);
+
+  useEffect(() => {
+    if (parsedSearch.errors.length === 0) setAppliedSearch(parsedSearch.query);
+  }, [parsedSearch]);
+
+  const filterQuery: AuditQuery = useMemo(() => AuditQueryService.merge({
+    category: filter === 'ALL' ? undefined : filter,
+    since: TIME_RANGES[timeRange] ? Date.now() - TIME_RANGES[timeRange]! : undefined,
+    sortKey: sortConfig.key,
+    direction: sortConfig.direction
+  }, appliedSearch), [filter, timeRange, appliedSearch, sortConfig]);
 
   useEffect(() => {
-    setLogs(LoggerService.getLogs());
+    setBrushWindow(null);
+  }, [filterQuery]);
 
+  // The analytics brush narrows only the table; the chart keeps the full filtered range
+  const baseQuery: AuditQuery = useMemo(
+    () => brushWindow && viewMode === 'analytics' ? AuditQueryService.merge(filterQuery, brushWindow) : filterQuery,
+    [filterQuery, brushWindow, viewMode]
+  );
+
+  // Single-flight: a request made mid-run becomes one follow-up run, full if any asked for it
+  const runVerification = async (mode: 'full' | 'incremental') => {
+    if (isVerifyingRef.current) {
+      if (pendingVerifyRef.current !== 'full') pendingVerifyRef.current = mode;
+      return;
+    }
+    isVerifyingRef.current = true;
+    if (mode === 'full') setIsVerifying(true);
+    try {
+      const result = await LoggerService.verifyChain(mode === 'incremental' ? verificationRef.current ?? undefined : undefined);
+      verificationRef.current = result;
+      setVerification(result);
+    } finally {
+      isVerifyingRef.current = false;
+      if (mode === 'full') setIsVerifying(false);
+      const next = pendingVerifyRef.current;
+      pendingVerifyRef.current = null;
+      if (next) runVerification(next);
+    }
+  };
+
+  // Full walk on open and from the button; new entries only extend the last verified head
+  useEffect(() => {
+    runVerification('full');
+    let timer: number | null = null;
+    const handleUpdate = () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = window.setTimeout(() => runVerification('incremental'), VERIFY_DEBOUNCE_MS);
+    };
+    window.addEventListener('audit-log-updated', handleUpdate);
+    return () => {
+      window.removeEventListener('audit-log-updated', handleUpdate);
+      if (timer !== null) clearTimeout(timer);
+    };
+  }, []);
+
+  // Only the visible page is ever held in memory
+  useEffect(() => {
+    let cancelled = false;
+    LoggerService.query({ ...baseQuery, limit: PAGE_SIZE, after: pageCursors[currentPage - 1] ?? null })
+      .then(page => {
+        if (cancelled) return;
+        setPageLogs(page.entries);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(err => console.error("Failed to query audit ledger:", err));
+    return () => { cancelled = true; };
+  }, [baseQuery, currentPage, pageCursors, refreshToken]);
+
+  // Totals come from index counts; free-text matches are not counted up front
+  useEffect(() => {
+    if (baseQuery.text || baseQuery.predicate || baseQuery.until !== undefined) {
+      setMatchCount(null);
+      return;
+    }
+    LoggerService.count(baseQuery.category, baseQuery.since)
+      .then(setMatchCount)
+      .catch(err => console.error("Failed to count audit entries:", err));
+  }, [baseQuery, refreshToken]);
+
+  useEffect(() => {
     const handleUpdate = (e: any) => {
       const newLog = e.detail as AuditLog;
-      setLogs(LoggerService.getLogs());
       
       // Visual feedback logic
       setNewlyAddedIds(prev => new Set(prev).add(newLog.id));
@@ -167,6 +307,8 @@ const AuditLogView: React.FC = () => {
       // Background notification logic: if user isn't on page 1, notify them
       if (currentPage !== 1) {
         setBackgroundLogsCount(prev => prev + 1);
+      } else {
+        setRefreshToken(t => t + 1);
       }
     };
 
@@ -176,9 +318,10 @@ const AuditLogView: React.FC = () => {
 
   useEffect(() => {
     setCurrentPage(1);
+    setPageCursors([null]);
     setInspectingLogId(null);
     setBackgroundLogsCount(0);
-  }, [filter, searchQuery, sortConfig]);
+  }, [baseQuery]);
 
   // Live Ledger Simulator: Increased frequency for "stream" effect
   useEffect(() => {
@@ -195,61 +338,33 @@ const AuditLogView: React.FC = () => {
     };
   }, [isLiveLedger]);
 
-  const sortedAndFilteredLogs = useMemo(() => {
-    const filtered = logs.filter(log => {
-      const matchesCategory = filter === 'ALL' || log.category === filter;
-      const searchStr = searchQuery.toLowerCase();
-      
-      if (!searchQuery) return matchesCategory;
-
-      const matchesText = 
-        log.action.toLowerCase().includes(searchStr) ||
-        log.category.toLowerCase().includes(searchStr) ||
-        (log.metadata && JSON.stringify(log.metadata).toLowerCase().includes(searchStr));
-
-      return matchesCategory && matchesText;
-    });
-
-    return filtered.sort((a, b) => {
-      const { key, direction } = sortConfig;
-      let valA = a[key] as any;
-      let valB = b[key] as any;
-
-      if (typeof valA === 'string') valA = valA.toLowerCase();
-      if (typeof valB === 'string') valB = valB.toLowerCase();
-
-      if (valA < valB) return direction === 'asc' ? -1 : 1;
-      if (valA > valB) return direction === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [logs, filter, searchQuery, sortConfig]);
-
-  const totalPages = Math.ceil(sortedAndFilteredLogs.length / PAGE_SIZE);
-  
-  const paginatedLogs = useMemo(() => {
-    const start = (currentPage - 1) * PAGE_SIZE;
-    return sortedAndFilteredLogs.slice(start, start + PAGE_SIZE);
-  }, [sortedAndFilteredLogs, currentPage]);
-
-  const handleClear = () => {
+  const handleClear = async () => {
     if (confirm("Are you sure you want to purge the local audit ledger? This action will be logged.")) {
-      LoggerService.clearLogs();
-      setLogs(LoggerService.getLogs());
+      await LoggerService.clearLogs();
+      setPageCursors([null]);
+      setCurrentPage(1);
+      setRefreshToken(t => t + 1);
     }
   };
 
-  const handleExportCSV = () => {
-    if (sortedAndFilteredLogs.length === 0) return;
+  const handleRetentionChange = async (category: LogCategory, days: number | null) => {
+    const next = { ...retention, [category]: days };
+    setRetention(next);
+    await LoggerService.setRetentionPolicy(next);
+    setRefreshToken(t => t + 1);
+  };
+
+  const handleExport = async (format: AuditExportFormat) => {
+    setShowExportMenu(false);
     setIsExporting(true);
     try {
-      const headers = ['ID', 'Timestamp_Unix', 'UTC_Date', 'Category', 'Action', 'Metadata_JSON'];
-      const rows = sortedAndFilteredLogs.map(log => [log.id, log.timestamp, new Date(log.timestamp).toISOString(), log.category, `"${log.action.replace(/"/g, '""')}"`, `"${JSON.stringify(log.metadata || {}).replace(/"/g, '""')}"`]);
-      const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const matching = await LoggerService.queryAll(baseQuery);
+      const file = await AuditExportService.export(format, matching, { category: filter, timeRange, search: searchQuery.trim() || undefined });
+      const blob = new Blob([file.content], { type: file.mimeType });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.setAttribute('href', url);
-      link.setAttribute('download', `cloudmine_audit_export_${new Date().toISOString().replace(/[:.]/g, '-')}.csv`);
+      link.setAttribute('download', file.filename);
       link.click();
       URL.revokeObjectURL(url);
     } catch (err) {
@@ -259,6 +374,56 @@ const AuditLogView: React.FC = () => {
     }
   };
 
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportError(null);
+    setImportResult(null);
+    try {
+      const text = await file.text();
+      const { check } = await AuditExportService.readBundle(text);
+      let trustFingerprint: string | undefined;
+      if (check.signatureValid && check.digestValid && !check.trusted) {
+        const prompt = `This bundle is signed by an external key with fingerprint ${check.keyFingerprint}. Anyone can sign a bundle with a new key, so only continue if you know this fingerprint belongs to the exporting device. Trust key ${check.keyFingerprint} and import?`;
+        if (!confirm(prompt)) {
+          setImportError(`Signing key ${check.keyFingerprint} was not trusted; nothing was imported.`);
+          return;
+        }
+        trustFingerprint = check.keyFingerprint;
+      }
+      setImportResult(await AuditExportService.importBundle(text, trustFingerprint));
+      setRefreshToken(t => t + 1);
+    } catch (err: any) {
+      setImportError(err?.message || 'Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSaveSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saveName.trim() || !searchQuery.trim() || parsedSearch.errors.length > 0) return;
+    setSavedSearches(AuditQueryService.saveSearch(saveName, searchQuery));
+    setSaveName('');
+  };
+
+  const handleRevealVerified = async () => {
+    const id = revealTargetId;
+    setRevealTargetId(null);
+    if (!id) return;
+    const metadata = await LoggerService.reveal(id);
+    if (metadata) setRevealed(prev => ({ ...prev, [id]: metadata }));
+  };
+
+  const hideRevealed = (id: string) => {
+    setRevealed(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
   const handleDownloadLogJSON = (log: AuditLog) => {
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(log, null, 2));
     const downloadAnchorNode = document.createElement('a');
@@ -270,9 +435,16 @@ const AuditLogView: React.FC = () => {
   };
 
   const handlePageChange = (page: number) => {
+    if (page === currentPage + 1) {
+      if (!nextCursor) return;
+      setPageCursors(prev => [...prev.slice(0, currentPage), nextCursor]);
+    }
     setCurrentPage(page);
     setInspectingLogId(null); 
-    if (page === 1) setBackgroundLogsCount(0);
+    if (page === 1) {
+      setBackgroundLogsCount(0);
+      setRefreshToken(t => t + 1);
+    }
     document.getElementById('audit-table-root')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
@@ -288,20 +460,6 @@ const AuditLogView: React.FC = () => {
     return sortConfig.direction === 'asc' ? <svg className="w-3 h-3 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 15l7-7 7 7" /></svg> : <svg className="w-3 h-3 text-indigo-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" /></svg>;
   };
 
-  const renderPaginationButtons = () => {
-    const buttons = [];
-    const maxVisiblePages = 5;
-    let startPage = Math.max(1, currentPage - 2);
-    let endPage = Math.min(totalPages, startPage + maxVisiblePages - 1);
-    if (endPage - startPage < maxVisiblePages - 1) startPage = Math.max(1, endPage - maxVisiblePages + 1);
-    for (let i = startPage; i <= endPage; i++) {
-      buttons.push(
-        <button key={i} onClick={() => handlePageChange(i)} className={`w-10 h-10 rounded-xl text-xs font-black transition-all ${currentPage === i ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-600/20' : 'text-gray-500 hover:text-white hover:bg-white/5 border border-transparent hover:border-gray-800'}`}>{i}</button>
-      );
-    }
-    return buttons;
-  };
-
   return (
     <div className="space-y-6 animate-in fade-in duration-700 pb-20">
       <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-6">
@@ -309,6 +467,23 @@ const AuditLogView: React.FC = () => {
           <div>
             <h1 className="text-4xl font-black text-white uppercase italic tracking-tighter leading-tight">Audit <span className="text-indigo-500">Ledger</span></h1>
             <p className="text-gray-400 text-sm font-medium mt-1">Grounded session history and regulatory trace logs.</p>
+            <button
+              onClick={() => runVerification('full')}
+              disabled={isVerifying}
+              title={verification?.headHash ? `Chain head: ${verification.headHash}` : undefined}
+              className={`mt-3 inline-flex items-center gap-2 px-3 py-1.5 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all ${
+                !verification || isVerifying ? 'bg-gray-900 text-gray-500 border-gray-800' :
+                verification.valid ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30 hover:bg-emerald-500/20' :
+                'bg-red-500/10 text-red-400 border-red-500/40 hover:bg-red-500/20 animate-pulse'
+              }`}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full ${!verification || isVerifying ? 'bg-gray-600' : verification.valid ? 'bg-emerald-400' : 'bg-red-500'}`}></span>
+              {!verification || isVerifying
+                ? 'Verifying hash chain...'
+                : verification.valid
+                  ? `Chain intact · ${verification.checked} links${verification.headHash ? ` · head ${verification.headHash.slice(0, 10)}` : ''}`
+                  : `Chain broken at ${verification.brokenAt!.id}${verification.brokenAt!.seq !== undefined ? ` (#${verification.brokenAt!.seq})` : ''}: ${BREAK_REASONS[verification.brokenAt!.reason]}`}
+            </button>
           </div>
           {isLiveLedger && (
             <div className="flex flex-col items-center animate-in fade-in slide-in-from-left-2">
@@ -319,12 +494,46 @@ const AuditLogView: React.FC = () => {
         </div>
         
         <div className="flex flex-wrap items-center gap-3">
-          <div className="relative group w-full md:w-64">
+          <div className="relative group w-full md:w-96">
             <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-gray-500 group-focus-within:text-indigo-500 transition-colors">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
             </div>
-            <input type="text" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="Deep Scan Ledger..." className="w-full bg-gray-950 border border-gray-800 rounded-2xl pl-12 pr-4 py-2.5 text-xs font-black uppercase tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all placeholder-gray-700" />
-            {searchQuery && <button onClick={() => setSearchQuery('')} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-600 hover:text-white"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>}
+            <input type="text" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="category:FINANCIAL amount>500 since:7d" spellCheck={false} className={`w-full bg-gray-950 border rounded-2xl pl-12 pr-20 py-2.5 text-xs font-mono font-bold focus:outline-none focus:ring-2 transition-all placeholder-gray-700 ${parsedSearch.errors.length > 0 ? 'border-red-500/50 focus:ring-red-500/50' : 'border-gray-800 focus:ring-indigo-500/50'}`} />
+            <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-2">
+              {searchQuery && <button onClick={() => setSearchQuery('')} className="text-gray-600 hover:text-white"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>}
+              <button onClick={() => setShowSavedSearches(!showSavedSearches)} title="Saved searches" className={`transition-colors ${showSavedSearches ? 'text-indigo-400' : 'text-gray-600 hover:text-white'}`}><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg></button>
+            </div>
+            {parsedSearch.errors.length > 0 && (
+              <div className="absolute left-0 right-0 mt-2 bg-gray-950 border border-red-500/30 rounded-2xl shadow-2xl z-20 p-4 space-y-2 animate-in fade-in">
+                <p className="font-mono text-[11px] text-gray-300 whitespace-pre-wrap break-all">
+                  {searchQuery.split('').map((char, i) => {
+                    const inError = parsedSearch.errors.some(err => i >= err.start && i < err.end);
+                    return <span key={i} className={inError ? 'bg-red-500/20 text-red-400 underline decoration-wavy decoration-red-500' : undefined}>{char}</span>;
+                  })}
+                </p>
+                {parsedSearch.errors.map((err, i) => (
+                  <p key={i} className="text-[9px] font-black uppercase tracking-widest text-red-400">Col {err.start + 1}: {err.message}</p>
+                ))}
+              </div>
+            )}
+            {showSavedSearches && parsedSearch.errors.length === 0 && (
+              <div className="absolute left-0 right-0 mt-2 bg-gray-950 border border-gray-800 rounded-2xl shadow-2xl z-20 p-2 space-y-1 animate-in fade-in zoom-in-95">
+                {savedSearches.length === 0 && <p className="px-3 py-2 text-[9px] font-black uppercase tracking-widest text-gray-600">No saved searches yet</p>}
+                {savedSearches.map(saved => (
+                  <div key={saved.id} className="flex items-center gap-2 rounded-xl hover:bg-indigo-600/10 transition-colors">
+                    <button onClick={() => { setSearchQuery(saved.query); setShowSavedSearches(false); }} className="flex-1 text-left px-3 py-2 min-w-0">
+                      <span className="block text-[10px] font-black uppercase tracking-widest text-white">{saved.name}</span>
+                      <span className="block text-[10px] font-mono text-gray-500 truncate">{saved.query}</span>
+                    </button>
+                    <button onClick={() => setSavedSearches(AuditQueryService.deleteSearch(saved.id))} className="p-2 text-gray-600 hover:text-red-400"><svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                  </div>
+                ))}
+                <form onSubmit={handleSaveSearch} className="flex gap-2 pt-2 border-t border-gray-800">
+                  <input type="text" value={saveName} onChange={(e) => setSaveName(e.target.value)} placeholder="Name this search" className="flex-1 bg-gray-900 border border-gray-800 rounded-xl px-3 py-2 text-[10px] font-bold text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50" />
+                  <button type="submit" disabled={!saveName.trim() || !searchQuery.trim()} className="px-3 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-30">Save</button>
+                </form>
+              </div>
+            )}
           </div>
 
           <div className="flex bg-gray-950 p-1 rounded-2xl border border-gray-800 shadow-xl overflow-x-auto">
@@ -333,21 +542,104 @@ const AuditLogView: React.FC = () => {
               <button key={cat} onClick={() => setFilter(cat)} className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all whitespace-nowrap ${filter === cat ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}>{cat}</button>
             ))}
           </div>
+
+          <div className="flex bg-gray-950 p-1 rounded-2xl border border-gray-800 shadow-xl">
+            {(Object.keys(TIME_RANGES) as TimeRange[]).map(range => (
+              <button key={range} onClick={() => setTimeRange(range)} className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all whitespace-nowrap ${timeRange === range ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}>{range}</button>
+            ))}
+          </div>
           
           <div className="flex items-center gap-2">
             <button onClick={() => setIsLiveLedger(!isLiveLedger)} className={`p-2.5 rounded-2xl border transition-all shadow-lg flex items-center gap-2 group ${isLiveLedger ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-gray-900 text-gray-400 border-gray-800 hover:border-indigo-500/50 hover:text-indigo-400'}`}>
               <svg className={`w-5 h-5 ${isLiveLedger ? 'animate-spin [animation-duration:3s]' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 2m6-2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
               <span className="hidden sm:inline text-[10px] font-black uppercase tracking-widest">{isLiveLedger ? 'Live On' : 'Live Off'}</span>
             </button>
-            <button onClick={handleExportCSV} disabled={sortedAndFilteredLogs.length === 0 || isExporting} className={`p-2.5 rounded-2xl border transition-all shadow-lg flex items-center gap-2 disabled:opacity-30 disabled:cursor-not-allowed group ${isExporting ? 'bg-indigo-600 text-white border-indigo-500 animate-pulse' : 'bg-emerald-600/10 text-emerald-500 border-emerald-500/20 hover:bg-emerald-600 hover:text-white'}`}>
-              <svg className={`w-5 h-5 transition-transform ${isExporting ? 'animate-bounce' : 'group-hover:-translate-y-0.5'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0L8 8m4-4v12" /></svg>
-              <span className="hidden sm:inline text-[10px] font-black uppercase tracking-widest">{isExporting ? 'Generating...' : 'CSV'}</span>
+            <div className="relative">
+              <button onClick={() => setShowExportMenu(!showExportMenu)} disabled={pageLogs.length === 0 || isExporting} className={`p-2.5 rounded-2xl border transition-all shadow-lg flex items-center gap-2 disabled:opacity-30 disabled:cursor-not-allowed group ${isExporting ? 'bg-indigo-600 text-white border-indigo-500 animate-pulse' : 'bg-emerald-600/10 text-emerald-500 border-emerald-500/20 hover:bg-emerald-600 hover:text-white'}`}>
+                <svg className={`w-5 h-5 transition-transform ${isExporting ? 'animate-bounce' : 'group-hover:-translate-y-0.5'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0L8 8m4-4v12" /></svg>
+                <span className="hidden sm:inline text-[10px] font-black uppercase tracking-widest">{isExporting ? 'Generating...' : 'Export'}</span>
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-2 w-56 bg-gray-950 border border-gray-800 rounded-2xl shadow-2xl z-20 p-1 animate-in fade-in zoom-in-95">
+                  {EXPORT_FORMATS.map(({ format, label, hint }) => (
+                    <button key={format} onClick={() => handleExport(format)} className="w-full text-left px-4 py-2.5 rounded-xl hover:bg-indigo-600/20 transition-colors">
+                      <span className="block text-[10px] font-black uppercase tracking-widest text-white">{label}</span>
+                      <span className="block text-[9px] text-gray-500 font-bold">{hint}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button onClick={() => importInputRef.current?.click()} disabled={isImporting} className={`p-2.5 rounded-2xl border transition-all shadow-lg flex items-center gap-2 disabled:opacity-50 ${isImporting ? 'bg-indigo-600 text-white border-indigo-500 animate-pulse' : 'bg-gray-900 text-gray-400 border-gray-800 hover:border-indigo-500/50 hover:text-indigo-400'}`}>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+              <span className="hidden sm:inline text-[10px] font-black uppercase tracking-widest">{isImporting ? 'Verifying...' : 'Import'}</span>
+            </button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <button onClick={() => setShowRetention(!showRetention)} className={`p-2.5 rounded-2xl border transition-all shadow-lg flex items-center gap-2 ${showRetention ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-gray-900 text-gray-400 border-gray-800 hover:border-indigo-500/50 hover:text-indigo-400'}`}>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+              <span className="hidden sm:inline text-[10px] font-black uppercase tracking-widest">Retention</span>
             </button>
             <button onClick={handleClear} className="p-2.5 bg-red-600/10 text-red-500 border border-red-500/20 rounded-2xl hover:bg-red-600 hover:text-white transition-all shadow-lg"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
           </div>
         </div>
       </div>
 
+      <div className="flex items-center gap-3">
+        <div className="flex bg-gray-950 p-1 rounded-2xl border border-gray-800 shadow-xl">
+          {(['table', 'analytics'] as const).map(mode => (
+            <button key={mode} onClick={() => setViewMode(mode)} className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${viewMode === mode ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}>{mode}</button>
+          ))}
+        </div>
+        {viewMode === 'analytics' && brushWindow && (
+          <button onClick={() => setBrushWindow(null)} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-600/20 border border-indigo-500/40 text-indigo-300 text-[9px] font-black uppercase tracking-widest hover:bg-indigo-600 hover:text-white transition-all">
+            Window {new Date(brushWindow.since).toLocaleString()} – {new Date(brushWindow.until).toLocaleString()}
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        )}
+      </div>
+
+      {viewMode === 'analytics' && (
+        <AuditAnalytics query={filterQuery} refreshToken={refreshToken} onBrushChange={setBrushWindow} onSearch={setSearchQuery} />
+      )}
+
+      {showRetention && (
+        <div className="glass-card rounded-3xl border border-indigo-500/20 p-6 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 animate-in slide-in-from-top-2">
+          {Object.values(LogCategory).map(cat => (
+            <label key={cat} className="flex flex-col gap-2">
+              <span className={`self-start px-2 py-1 rounded-md border text-[9px] font-black uppercase tracking-widest ${CATEGORY_COLORS[cat]}`}>{cat}</span>
+              <select
+                value={retention[cat] ?? 'forever'}
+                onChange={(e) => handleRetentionChange(cat, e.target.value === 'forever' ? null : Number(e.target.value))}
+                className="bg-gray-950 border border-gray-800 rounded-xl px-3 py-2 text-[10px] font-black uppercase text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+              >
+                {RETENTION_OPTIONS.map(days => <option key={days ?? 'forever'} value={days ?? 'forever'}>{days ? `${days} days` : 'Forever'}</option>)}
+              </select>
+            </label>
+          ))}
+          <p className="col-span-full text-[9px] text-gray-600 font-black uppercase tracking-widest">Expired entries keep their chain link as a tombstone so verification still passes.</p>
+        </div>
+      )}
+
+      {(importResult || importError) && (
+        <div className={`glass-card rounded-3xl border p-5 flex items-start justify-between gap-4 animate-in slide-in-from-top-2 ${importError ? 'border-red-500/30' : importResult!.conflicts.length > 0 ? 'border-amber-500/30' : 'border-emerald-500/30'}`}>
+          <div className="space-y-1 min-w-0">
+            {importError ? (
+              <p className="text-[10px] font-black uppercase tracking-widest text-red-400">Import rejected: {importError}</p>
+            ) : (
+              <>
+                <p className="text-[10px] font-black uppercase tracking-widest text-emerald-400">
+                  Bundle verified{importResult!.check.signedLocally ? ' · signed by this device' : ` · signed by trusted key ${importResult!.check.keyFingerprint}`} · {importResult!.imported} imported · {importResult!.duplicates.length} duplicates · {importResult!.conflicts.length} conflicts
+                </p>
+                {importResult!.conflicts.length > 0 && (
+                  <p className="text-[9px] font-bold text-amber-400 break-all">Kept local version of: {importResult!.conflicts.join(', ')}</p>
+                )}
+              </>
+            )}
+          </div>
+          <button onClick={() => { setImportResult(null); setImportError(null); }} className="text-gray-600 hover:text-white shrink-0"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+      )}
+
       {backgroundLogsCount > 0 && currentPage !== 1 && (
         <button 
           onClick={() => handlePageChange(1)}
@@ -379,7 +671,7 @@ const AuditLogView: React.FC = () => {
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-800/30">
-              {paginatedLogs.length === 0 ? (
+              {pageLogs.length === 0 ? (
                 <tr>
                   <td colSpan={4} className="px-8 py-32 text-center">
                     <div className="flex flex-col items-center justify-center space-y-4 opacity-30">
@@ -389,11 +681,12 @@ const AuditLogView: React.FC = () => {
                   </td>
                 </tr>
               ) : (
-                paginatedLogs.map((log, index) => {
+                pageLogs.map((log, index) => {
                   const isNew = newlyAddedIds.has(log.id);
+                  const isBrokenLink = verification?.brokenAt?.id === log.id;
                   return (
                     <React.Fragment key={log.id}>
-                      <tr className={`hover:bg-indigo-500/5 transition-all group animate-in fade-in slide-in-from-top-1 duration-500 ${inspectingLogId === log.id ? 'bg-indigo-500/[0.03]' : ''} ${isNew ? 'bg-indigo-600/10' : ''}`}>
+                      <tr className={`hover:bg-indigo-500/5 transition-all group animate-in fade-in slide-in-from-top-1 duration-500 ${inspectingLogId === log.id ? 'bg-indigo-500/[0.03]' : ''} ${isNew ? 'bg-indigo-600/10' : ''} ${isBrokenLink ? 'bg-red-500/10 outline outline-1 outline-red-500/50' : ''}`}>
                         <td className="px-8 py-5">
                           <div className="flex flex-col">
                             <div className="flex items-center gap-2">
@@ -432,7 +725,19 @@ const AuditLogView: React.FC = () => {
                                   <button onClick={() => setInspectingLogId(null)} className="p-1.5 bg-gray-900 border border-gray-800 rounded-lg text-gray-600 hover:text-red-500 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
                                 </div>
                               </div>
-                              <div className="max-h-[500px] overflow-y-auto scrollbar-thin scrollbar-thumb-indigo-500/20 pr-4"><div className="p-2 border border-white/5 rounded-2xl bg-black/20"><MetadataNode data={log.metadata} /></div></div>
+                              {log.redactions && log.redactions.length > 0 && (
+                                <div className={`mb-4 flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-2xl border ${revealed[log.id] ? 'bg-amber-500/10 border-amber-500/30' : 'bg-gray-900/60 border-gray-800'}`}>
+                                  <span className={`text-[9px] font-black uppercase tracking-widest ${revealed[log.id] ? 'text-amber-400' : 'text-gray-500'}`}>
+                                    {revealed[log.id] ? 'Unredacted view' : 'Redacted'}: {log.redactions.join(', ')}
+                                  </span>
+                                  {revealed[log.id] ? (
+                                    <button onClick={() => hideRevealed(log.id)} className="px-3 py-1.5 bg-gray-900 border border-gray-800 rounded-lg text-[9px] font-black uppercase text-gray-400 hover:text-white transition-all">Hide Originals</button>
+                                  ) : (
+                                    <button onClick={() => setRevealTargetId(log.id)} className="px-3 py-1.5 bg-amber-600/20 border border-amber-500/30 rounded-lg text-[9px] font-black uppercase text-amber-400 hover:bg-amber-600 hover:text-white transition-all">Reveal Originals</button>
+                                  )}
+                                </div>
+                              )}
+                              <div className="max-h-[500px] overflow-y-auto scrollbar-thin scrollbar-thumb-indigo-500/20 pr-4"><div className="p-2 border border-white/5 rounded-2xl bg-black/20"><MetadataNode data={revealed[log.id] ?? log.metadata} /></div></div>
                             </div>
                           </td>
                         </tr>
@@ -445,24 +750,33 @@ const AuditLogView: React.FC = () => {
           </table>
         </div>
 
-        {totalPages > 1 && (
+        {(currentPage > 1 || nextCursor) && (
           <div className="bg-gray-950/80 border-t border-gray-800/50 p-6 flex flex-col md:flex-row items-center justify-between gap-6 backdrop-blur-xl">
             <div className="flex items-center gap-4 order-2 md:order-1">
               <button onClick={() => handlePageChange(1)} disabled={currentPage === 1} className="p-2.5 rounded-xl border border-gray-800 text-gray-500 hover:text-white hover:border-indigo-500 disabled:opacity-20 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 19l-7-7 7-7m8 14l-7-7 7-7" /></svg></button>
               <button onClick={() => handlePageChange(currentPage - 1)} disabled={currentPage === 1} className="p-2.5 rounded-xl border border-gray-800 text-gray-500 hover:text-white hover:border-indigo-500 disabled:opacity-20 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg></button>
-              <div className="flex items-center gap-1">{renderPaginationButtons()}</div>
-              <button onClick={() => handlePageChange(currentPage + 1)} disabled={currentPage === totalPages} className="p-2.5 rounded-xl border border-gray-800 text-gray-500 hover:text-white hover:border-indigo-500 disabled:opacity-20 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg></button>
-              <button onClick={() => handlePageChange(totalPages)} disabled={currentPage === totalPages} className="p-2.5 rounded-xl border border-gray-800 text-gray-500 hover:text-white hover:border-indigo-500 disabled:opacity-20 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" /></svg></button>
+              <span className="w-10 h-10 rounded-xl text-xs font-black bg-indigo-600 text-white shadow-lg shadow-indigo-600/20 flex items-center justify-center">{currentPage}</span>
+              <button onClick={() => handlePageChange(currentPage + 1)} disabled={!nextCursor} className="p-2.5 rounded-xl border border-gray-800 text-gray-500 hover:text-white hover:border-indigo-500 disabled:opacity-20 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg></button>
             </div>
-            <div className="text-[10px] font-black text-gray-600 uppercase tracking-widest order-1 md:order-2">Showing <span className="text-indigo-400 font-mono">{(currentPage - 1) * PAGE_SIZE + 1}-{Math.min(currentPage * PAGE_SIZE, sortedAndFilteredLogs.length)}</span> of <span className="text-white font-mono">{sortedAndFilteredLogs.length}</span> records</div>
+            <div className="text-[10px] font-black text-gray-600 uppercase tracking-widest order-1 md:order-2">Showing <span className="text-indigo-400 font-mono">{(currentPage - 1) * PAGE_SIZE + 1}-{(currentPage - 1) * PAGE_SIZE + pageLogs.length}</span>{matchCount !== null && <> of <span className="text-white font-mono">{matchCount}</span></>} records</div>
           </div>
         )}
 
         <div className="bg-gray-950/50 p-6 border-t border-gray-800/50 flex justify-between items-center">
-           <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Total Traces Synchronized: {sortedAndFilteredLogs.length}</span>
+           <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">Total Traces Synchronized: {matchCount ?? 'text match'}</span>
            <span className="text-[9px] font-mono text-gray-700 uppercase">Grid_Session_Active: {new Date().toLocaleTimeString()}</span>
         </div>
       </div>
+
+      {revealTargetId && (
+        <TotpChallenge
+          title="Reveal Redacted Data"
+          description="Re-authenticate to view the original values"
+          action="reveal-audit-entry"
+          onVerified={handleRevealVerified}
+          onCancel={() => setRevealTargetId(null)}
+        />
+      )}
     </div>
   );
 };
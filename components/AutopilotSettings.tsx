@@ -0,0 +1,100 @@
+
+import React, { useState } from 'react';
+import { AutopilotService, AutopilotPolicy, DEFAULT_AUTOPILOT_POLICY } from '../services/autopilot';
+import { LoggerService } from '../services/logger';
+import { LogCategory } from '../types';
+
+type NumericField = { [K in keyof AutopilotPolicy]: AutopilotPolicy[K] extends number ? K : never }[keyof AutopilotPolicy];
+
+const NumberInput: React.FC<{ value: number; min?: number; onChange: (value: number) => void }> = ({ value, min = 0, onChange }) => (
+  <input
+    type="number"
+    min={min}
+    value={value}
+    onChange={(e) => onChange(Math.max(min, Number(e.target.value) || min))}
+    className="w-16 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-white font-bold"
+  />
+);
+
+const AutopilotSettings: React.FC = () => {
+  const [policy, setPolicy] = useState<AutopilotPolicy>(() => AutopilotService.getPolicy());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const update = (updates: Partial<AutopilotPolicy>) => {
+    setPolicy(prev => ({ ...prev, ...updates }));
+    setIsDirty(true);
+  };
+
+  const field = (key: NumericField, min = 0) => (
+    <NumberInput value={policy[key]} min={min} onChange={(value) => update({ [key]: value })} />
+  );
+
+  const handleSave = () => {
+    AutopilotService.savePolicy(policy);
+    setIsDirty(false);
+    LoggerService.log(LogCategory.OPERATION, "Autopilot policy changed", { ...policy });
+  };
+
+  const handleReset = () => {
+    setPolicy(DEFAULT_AUTOPILOT_POLICY);
+    setIsDirty(true);
+  };
+
+  const section = (enabledKey: 'switchEnabled' | 'throttleEnabled' | 'pauseEnabled', title: string, body: React.ReactNode) => (
+    <div className={`p-3 rounded-lg border space-y-2 ${policy[enabledKey] ? 'border-gray-700 bg-gray-950/50' : 'border-gray-800 opacity-60'}`}>
+      <label className="flex items-center gap-3">
+        <input type="checkbox" checked={policy[enabledKey]} onChange={(e) => update({ [enabledKey]: e.target.checked })} className="accent-indigo-500" />
+        <span className="text-sm font-bold text-white">{title}</span>
+      </label>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">{body}</div>
+    </div>
+  );
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-200">Neural Autopilot Policies</span>
+          <span className="text-xs text-gray-500 mt-1">Applied every 15s to bots with Auto-Pilot on. Each decision is written to the bot and the audit ledger with its reasoning.</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleReset} className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-sm font-bold">Defaults</button>
+          <button onClick={handleSave} disabled={!isDirty} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold disabled:opacity-30">Save</button>
+        </div>
+      </div>
+
+      {section('switchEnabled', 'Algorithm switching', (
+        <>
+          <span>Switch when another algorithm yields</span>
+          {field('switchMarginPct', 1)}
+          <span>% more, at most once every</span>
+          {field('minDwellMinutes')}
+          <span>min</span>
+        </>
+      ))}
+      {section('throttleEnabled', 'Thermal throttling', (
+        <>
+          <span>Above</span>
+          {field('tempLimit', 1)}
+          <span>°C shed</span>
+          {field('throttleStepPct', 1)}
+          <span>% per pass, up to</span>
+          {field('maxThrottlePct', 1)}
+          <span>% of rated hashrate</span>
+          <span className="text-gray-600">(skipped for bots reporting live rig telemetry)</span>
+        </>
+      ))}
+      {section('pauseEnabled', 'Pause on repeated errors', (
+        <>
+          <span>Pause after</span>
+          {field('errorThreshold', 1)}
+          <span>errors within</span>
+          {field('errorWindowMinutes', 1)}
+          <span>min</span>
+        </>
+      ))}
+    </div>
+  );
+};
+
+export default AutopilotSettings;
@@ -0,0 +1,58 @@
+
+import React, { useState } from 'react';
+import { MiningBot } from '../types';
+import { BOT_REGIONS, FleetGroupService } from '../services/fleetGroups';
+
+interface BotLabelsEditorProps {
+  bot: MiningBot;
+  groups: string[];
+  onSave: (updates: Pick<MiningBot, 'group' | 'region' | 'tags'>) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-gray-950 border border-gray-800 rounded-xl px-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const BotLabelsEditor: React.FC<BotLabelsEditorProps> = ({ bot, groups, onSave, onClose }) => {
+  const [group, setGroup] = useState(bot.group ?? '');
+  const [region, setRegion] = useState(bot.region ?? '');
+  const [tags, setTags] = useState((bot.tags ?? []).join(', '));
+
+  const handleSave = () => {
+    onSave({ group: group.trim() || undefined, region: region || undefined, tags: FleetGroupService.parseTags(tags) });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-md" onClick={onClose}></div>
+      <div className="relative w-full max-w-md glass-card rounded-3xl p-8 border border-indigo-500/50 shadow-2xl animate-in zoom-in-95 duration-300 space-y-4">
+        <div>
+          <h3 className="text-xl font-black text-white uppercase tracking-tighter mb-2">Fleet Labels</h3>
+          <p className="text-xs text-gray-400">Group, region and tags for {bot.name}.</p>
+        </div>
+        <label className="block space-y-1">
+          <span className="text-[10px] font-black uppercase text-gray-500">Group</span>
+          <input list="bot-groups" value={group} onChange={(e) => setGroup(e.target.value)} placeholder="e.g. client name" className={inputClass} />
+          <datalist id="bot-groups">{groups.map(g => <option key={g} value={g} />)}</datalist>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[10px] font-black uppercase text-gray-500">Region</span>
+          <select value={region} onChange={(e) => setRegion(e.target.value)} className={inputClass}>
+            <option value="">Unassigned</option>
+            {BOT_REGIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[10px] font-black uppercase text-gray-500">Tags</span>
+          <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="comma separated" className={inputClass} />
+        </label>
+        <div className="grid grid-cols-2 gap-3 pt-2">
+          <button onClick={onClose} className="py-3 px-4 bg-gray-800 text-gray-400 font-black text-[10px] uppercase rounded-xl hover:bg-gray-700 transition-all">Cancel</button>
+          <button onClick={handleSave} className="py-3 px-4 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20">Save Labels</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BotLabelsEditor;
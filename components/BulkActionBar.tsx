@@ -0,0 +1,108 @@
+
+import React, { useState } from 'react';
+import { MiningBot } from '../types';
+import { MINING_ALGORITHMS } from '../services/mining';
+import { BulkOperation, BulkOperationService, BulkPreview, TUNING_PRESETS, TuningPresetId } from '../services/bulkOperations';
+
+interface BulkActionBarProps {
+  selected: MiningBot[];
+  totalBots: number;
+  priceFactor: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onConfirm: (preview: BulkPreview) => void;
+}
+
+const formatDelta = (value: number, unit: string, digits = 1) => `${value >= 0 ? '+' : '-'}${unit === '$' ? '$' : ''}${Math.abs(value).toFixed(digits)}${unit === '$' ? '' : ` ${unit}`}`;
+
+const deltaClass = (value: number) => value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-500';
+
+/**
+ * Toolbar for the MiningConsole multi-select, plus the preview shown before
+ * a bulk operation is applied.
+ */
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selected, totalBots, priceFactor, onSelectAll, onClear, onConfirm }) => {
+  const [algorithm, setAlgorithm] = useState(MINING_ALGORITHMS[0]);
+  const [preset, setPreset] = useState<TuningPresetId>('eco');
+  const [preview, setPreview] = useState<BulkPreview | null>(null);
+
+  const open = (operation: BulkOperation) => setPreview(BulkOperationService.preview(selected, operation, priceFactor));
+
+  const handleConfirm = () => {
+    if (!preview) return;
+    onConfirm(preview);
+    setPreview(null);
+  };
+
+  const applied = preview ? preview.changes.filter(c => !c.skipped).length : 0;
+  const actionClass = "px-3 py-2 rounded-lg bg-gray-900 border border-gray-800 text-[10px] font-black uppercase text-gray-300 hover:border-indigo-500 hover:text-indigo-400 transition-all disabled:opacity-30";
+  const selectClass = "bg-gray-950 border border-gray-800 rounded-lg px-2 py-2 text-[10px] font-bold text-gray-300";
+
+  return (
+    <>
+      <div className="glass-card p-4 rounded-2xl border border-indigo-500/30 flex flex-wrap items-center gap-3">
+        <span className="text-[10px] font-black uppercase tracking-widest text-indigo-400">{selected.length} of {totalBots} selected</span>
+        <button onClick={onSelectAll} disabled={selected.length === totalBots} className="text-[10px] font-bold text-gray-500 hover:text-white disabled:opacity-30">Select all</button>
+        <button onClick={onClear} disabled={selected.length === 0} className="text-[10px] font-bold text-gray-500 hover:text-white disabled:opacity-30">Clear</button>
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <button onClick={() => open({ kind: 'pause' })} disabled={selected.length === 0} className={actionClass}>Pause</button>
+          <button onClick={() => open({ kind: 'resume' })} disabled={selected.length === 0} className={actionClass}>Resume</button>
+          <button onClick={() => open({ kind: 'autopilot', enabled: true })} disabled={selected.length === 0} className={actionClass}>Autopilot On</button>
+          <button onClick={() => open({ kind: 'autopilot', enabled: false })} disabled={selected.length === 0} className={actionClass}>Autopilot Off</button>
+          <select value={algorithm} onChange={(e) => setAlgorithm(e.target.value)} className={selectClass}>
+            {MINING_ALGORITHMS.map(algo => <option key={algo} value={algo}>{algo}</option>)}
+          </select>
+          <button onClick={() => open({ kind: 'switch-algorithm', algorithm })} disabled={selected.length === 0} className={actionClass}>Switch</button>
+          <select value={preset} onChange={(e) => setPreset(e.target.value as TuningPresetId)} className={selectClass}>
+            {(Object.keys(TUNING_PRESETS) as TuningPresetId[]).map(id => <option key={id} value={id}>{TUNING_PRESETS[id].label}</option>)}
+          </select>
+          <button onClick={() => open({ kind: 'tuning', preset })} disabled={selected.length === 0} className={actionClass}>Tune</button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/90 backdrop-blur-md" onClick={() => setPreview(null)}></div>
+          <div className="relative w-full max-w-xl glass-card rounded-3xl p-8 border border-indigo-500/50 shadow-2xl animate-in zoom-in-95 duration-300">
+            <h3 className="text-xl font-black text-white uppercase tracking-tighter mb-2">Bulk {preview.label}</h3>
+            <p className="text-xs text-gray-400 mb-6">{applied} of {preview.changes.length} selected bots will change.</p>
+            <div className="bg-gray-950/50 p-4 rounded-2xl border border-gray-800 mb-4 max-h-72 overflow-y-auto space-y-2">
+              {preview.changes.map(change => (
+                <div key={change.bot.id} className={`flex justify-between items-center text-xs ${change.skipped ? 'opacity-40' : ''}`}>
+                  <div>
+                    <p className="font-bold text-white">{change.bot.name}</p>
+                    <p className="text-[10px] font-mono text-gray-600">{change.bot.id}</p>
+                  </div>
+                  {change.skipped ? (
+                    <span className="text-[10px] text-gray-500 italic">Skipped: {change.skipped}</span>
+                  ) : (
+                    <div className="text-right font-mono text-[11px]">
+                      <p className={deltaClass(change.hashrateDelta)}>{formatDelta(change.hashrateDelta, 'MH/s')}</p>
+                      <p className={deltaClass(change.yieldDelta)}>{formatDelta(change.yieldDelta, '$', 2)} / 24h</p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              <div className="p-3 rounded-xl bg-gray-950/50 border border-gray-800 text-center">
+                <span className="text-[9px] font-black uppercase text-gray-500 block">Fleet Hashrate</span>
+                <span className={`font-mono font-black ${deltaClass(preview.hashrateDelta)}`}>{formatDelta(preview.hashrateDelta, 'MH/s')}</span>
+              </div>
+              <div className="p-3 rounded-xl bg-gray-950/50 border border-gray-800 text-center">
+                <span className="text-[9px] font-black uppercase text-gray-500 block">Projected Profit</span>
+                <span className={`font-mono font-black ${deltaClass(preview.yieldDelta)}`}>{formatDelta(preview.yieldDelta, '$', 2)} / 24h</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <button onClick={() => setPreview(null)} className="py-3 px-4 bg-gray-800 text-gray-400 font-black text-[10px] uppercase rounded-xl hover:bg-gray-700 transition-all">Abort</button>
+              <button onClick={handleConfirm} disabled={applied === 0} className="py-3 px-4 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20 disabled:opacity-30">Apply to {applied} Bots</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default BulkActionBar;
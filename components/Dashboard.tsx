@@ -2,175 +2,204 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Brush, BarChart, Bar, Cell, ComposedChart, Line } from 'recharts';
 import { GeminiService } from '../services/gemini';
-import { MiningBot } from '../types';
+import { MarketSourceConfig, DEFAULT_MARKET_SOURCE } from '../services/marketData';
+import { TelemetryService } from '../services/telemetry';
+import { BotEventBus, BOT_EVENT_TYPES } from '../services/botEvents';
+import { MetricsService, MetricName, MetricPoint, FLEET_SERIES_ID } from '../services/metrics';
+import { FleetGroupService, GroupDimension } from '../services/fleetGroups';
+import { ProfitabilityService } from '../services/profitability';
+import { BotEvent, BotEventType, MarketCandle, MiningBot } from '../types';
+
+// Feed colour per event type
+const EVENT_TYPE_STYLES: Record<BotEventType, string> = {
+  status: 'text-amber-400',
+  algorithm: 'text-indigo-400',
+  tuning: 'text-sky-400',
+  autopilot: 'text-purple-400',
+  diagnostics: 'text-red-400',
+  provisioning: 'text-green-400'
+};
 
-interface HashrateData {
-  time: string;
-  rate: number;
-}
+// Rows rendered after filtering; the bus keeps a longer history to filter from
+const FEED_LIMIT = 50;
 
-interface MarketTick {
-  time: string;
-  price: number;
-}
+const INTERVAL_LABELS = ['1m', '5m', '10m', '30m', '1h', '1d'] as const;
+type IntervalType = typeof INTERVAL_LABELS[number];
 
-interface AutomationLog {
-  id: string;
-  timestamp: string;
-  bot: string;
-  action: string;
-  type: 'optimization' | 'security' | 'market';
-}
+const INTERVAL_MS: Record<IntervalType, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '10m': 10 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
 
-const INTERVAL_LABELS = ['1m', '5m', '10m', '30m', '1h'] as const;
-type IntervalType = typeof INTERVAL_LABELS[number];
+const RANGE_LABELS = ['1h', '24h', '7d', '30d'] as const;
+type RangeType = typeof RANGE_LABELS[number];
+
+const RANGE_MS: Record<RangeType, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+// Interval/range pairs outside these bounds are disabled in the selector
+const MIN_CHART_POINTS = 2;
+const MAX_CHART_POINTS = 1500;
+
+const HISTORY_METRICS: { key: MetricName; label: string; unit: string; scale: number }[] = [
+  { key: 'hashrate', label: 'Hashrate', unit: 'MH/s', scale: 1 },
+  { key: 'temp', label: 'Temperature', unit: '°C', scale: 1 },
+  { key: 'efficiency', label: 'Efficiency', unit: '%', scale: 100 },
+  { key: 'profit', label: 'Profit Run-Rate', unit: '$/day', scale: 1 }
+];
+
+const isIntervalAllowed = (interval: IntervalType, range: RangeType) => {
+  const points = RANGE_MS[range] / INTERVAL_MS[interval];
+  return points >= MIN_CHART_POINTS && points <= MAX_CHART_POINTS;
+};
+
+const formatPointTime = (timestamp: number, intervalMs: number) => {
+  const date = new Date(timestamp);
+  if (intervalMs >= INTERVAL_MS['1d']) return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  if (intervalMs >= INTERVAL_MS['1h']) return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
 
 interface DashboardProps {
   globalBalance: number;
   bots: MiningBot[];
+  marketHistory: MarketCandle[];
+  marketSource: MarketSourceConfig;
+  marketError: string | null;
+  onMarketSourceChange: (config: MarketSourceConfig) => void;
   onOpenDeposit?: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposit }) => {
-  const [selectedInterval, setSelectedInterval] = useState<IntervalType>('10m');
-  const [hashrateHistory, setHashrateHistory] = useState<HashrateData[]>([]);
-  const [marketHistory, setMarketHistory] = useState<MarketTick[]>([]);
+const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, marketHistory, marketSource, marketError, onMarketSourceChange, onOpenDeposit }) => {
+  const [selectedInterval, setSelectedInterval] = useState<IntervalType>('1m');
+  const [selectedRange, setSelectedRange] = useState<RangeType>('1h');
+  const [historySeries, setHistorySeries] = useState<string>(FLEET_SERIES_ID);
+  const [historyMetric, setHistoryMetric] = useState<MetricName>('hashrate');
+  const [history, setHistory] = useState<MetricPoint[]>([]);
+  const [wsUrlDraft, setWsUrlDraft] = useState(marketSource.kind === 'websocket' ? marketSource.url : 'ws://localhost:8787');
+  const [wsUrlError, setWsUrlError] = useState<string | null>(null);
   const [isInsightLoading, setIsInsightLoading] = useState(false);
-  const [automationLogs, setAutomationLogs] = useState<AutomationLog[]>([]);
-  const [telemetryJitter, setTelemetryJitter] = useState<number>(0);
-  
-  // Real-time hardware fetch simulation
-  const [hwAudit, setHwAudit] = useState({ utilization: 0, temp: 0, status: 'STABLE' });
-  const [isHwFetching, setIsHwFetching] = useState(false);
+  const [botEvents, setBotEvents] = useState<BotEvent[]>(() => BotEventBus.recent());
+  const [feedFilter, setFeedFilter] = useState<BotEventType | 'all'>('all');
+  const [groupDimension, setGroupDimension] = useState<GroupDimension>('group');
+  const [powerSettings, setPowerSettings] = useState(() => ProfitabilityService.getSettings());
 
-  // Simulation of automation logs
   useEffect(() => {
-    const actions = [
-      "Optimizing hashrate distribution for Alpha-X-7",
-      "Switching HyperNode-Prime to higher yield pool",
-      "Thermal sync recalibration initiated",
-      "Market volatility detected: hedging mining yields",
-      "New node shard provisioned in US-East-1",
-      "Lattice security handshake successful",
-      "Redundant hashing path established",
-    ];
-    const botNames = bots.length > 0 ? bots.map(b => b.name) : ["Global_Grid"];
-
-    const addLog = () => {
-      const newLog: AutomationLog = {
-        id: Math.random().toString(36).substr(2, 9),
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
-        bot: botNames[Math.floor(Math.random() * botNames.length)],
-        action: actions[Math.floor(Math.random() * actions.length)],
-        type: ['optimization', 'security', 'market'][Math.floor(Math.random() * 3)] as any,
-      };
-      setAutomationLogs(prev => [newLog, ...prev].slice(0, 15));
-    };
-
-    const logTimer = setInterval(addLog, 4000);
-    return () => clearInterval(logTimer);
-  }, [bots]);
-
-  // Telemetry Jitter for charts
+    const handleChange = () => setPowerSettings(ProfitabilityService.getSettings());
+    window.addEventListener('power-settings-changed', handleChange);
+    return () => window.removeEventListener('power-settings-changed', handleChange);
+  }, []);
+  
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTelemetryJitter(prev => (prev + 1) % 100);
-    }, 3000);
-    return () => clearInterval(timer);
+    const handleEvent = () => setBotEvents(BotEventBus.recent());
+    window.addEventListener('bot-event', handleEvent);
+    return () => window.removeEventListener('bot-event', handleEvent);
   }, []);
 
-  // Hardware Fetch Loop (Polls the simulated bot environment)
+  const visibleEvents = useMemo(
+    () => (feedFilter === 'all' ? botEvents : botEvents.filter(e => e.type === feedFilter)).slice(0, FEED_LIMIT),
+    [botEvents, feedFilter]
+  );
+
+  // Rollup history for the selected series; refreshed as new samples are recorded
   useEffect(() => {
-    const fetchHwData = () => {
-      setIsHwFetching(true);
-      setTimeout(() => {
-        const totalUtil = bots.reduce((acc, b) => acc + (b.efficiency * 100), 0);
-        const totalTemp = bots.reduce((acc, b) => acc + b.temp, 0);
-        const avgUtil = bots.length > 0 ? totalUtil / bots.length : 0;
-        const avgTemp = bots.length > 0 ? totalTemp / bots.length : 0;
-        
-        setHwAudit({
-          utilization: avgUtil + (Math.random() * 4 - 2),
-          temp: avgTemp + (Math.random() * 2 - 1),
-          status: avgTemp > 75 ? 'THROTTLING' : (avgTemp > 65 ? 'WARNING' : 'STABLE')
-        });
-        setIsHwFetching(false);
-      }, 600);
+    let cancelled = false;
+    const load = () => {
+      MetricsService.getSeries(historySeries, { since: Date.now() - RANGE_MS[selectedRange], intervalMs: INTERVAL_MS[selectedInterval] })
+        .then(points => { if (!cancelled) setHistory(points); })
+        .catch(err => console.error("Failed to load metric history:", err));
     };
+    load();
+    window.addEventListener('metrics-recorded', load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('metrics-recorded', load);
+    };
+  }, [historySeries, selectedInterval, selectedRange]);
 
-    const hwTimer = setInterval(fetchHwData, 3000);
-    fetchHwData(); // Initial call
-    return () => clearInterval(hwTimer);
-  }, [bots]);
-
-  // Simulation of real-time market ticks
-  useEffect(() => {
-    const points = 60;
-    const initialMarket: MarketTick[] = [];
-    let price = 94500.50;
-    const now = Date.now();
-    for (let i = points; i >= 0; i--) {
-      price += (Math.random() - 0.5) * 50;
-      initialMarket.push({
-        time: new Date(now - i * 1000).toLocaleTimeString([], { second: '2-digit' }),
-        price: parseFloat(price.toFixed(2))
-      });
+  const handleRangeChange = (range: RangeType) => {
+    setSelectedRange(range);
+    if (!isIntervalAllowed(selectedInterval, range)) {
+      setSelectedInterval(INTERVAL_LABELS.find(interval => isIntervalAllowed(interval, range)) ?? selectedInterval);
     }
-    setMarketHistory(initialMarket);
-
-    const marketTimer = setInterval(() => {
-      setMarketHistory(prev => {
-        const lastPrice = prev[prev.length - 1].price;
-        const nextPrice = lastPrice + (Math.random() - 0.5) * 25;
-        const newPoint = {
-          time: new Date().toLocaleTimeString([], { second: '2-digit' }),
-          price: parseFloat(nextPrice.toFixed(2))
-        };
-        return [...prev, newPoint].slice(-60);
-      });
-    }, 1000);
-
-    return () => clearInterval(marketTimer);
-  }, []);
+  };
 
-  // Simulation of real-time hashrate data
-  useEffect(() => {
-    const points = 100;
-    const initialData: HashrateData[] = [];
-    let base = bots.reduce((acc, b) => acc + b.hashrate, 0);
-    if (base === 0) base = 180;
-    const now = Date.now();
-    
-    for (let i = points; i >= 0; i--) {
-      base += (Math.random() - 0.5) * 5;
-      initialData.push({
-        time: new Date(now - i * 10000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
-        rate: parseFloat(base.toFixed(2))
-      });
+  const activeMetric = HISTORY_METRICS.find(m => m.key === historyMetric)!;
+
+  const historyChartData = useMemo(() => history.map(point => ({
+    time: formatPointTime(point.timestamp, INTERVAL_MS[selectedInterval]),
+    value: point[historyMetric] * activeMetric.scale
+  })), [history, historyMetric, activeMetric, selectedInterval]);
+
+  const fleetHashrate = useMemo(
+    () => bots.filter(b => b.status === 'active').reduce((acc, b) => acc + b.hashrate, 0),
+    [bots]
+  );
+
+  const groupSummaries = useMemo(() => FleetGroupService.aggregate(bots, groupDimension), [bots, groupDimension]);
+
+  const profitability = useMemo(() => ({
+    fleet: ProfitabilityService.fleet(bots, powerSettings),
+    rows: bots.map(bot => {
+      const breakdown = ProfitabilityService.breakdown(bot, bot.profit24h, powerSettings);
+      return { bot, breakdown, investment: ProfitabilityService.investment(bot, breakdown.net) };
+    })
+  }), [bots, powerSettings]);
+
+  const marketStats = useMemo(() => {
+    if (marketHistory.length === 0) return null;
+    const first = marketHistory[0];
+    const last = marketHistory[marketHistory.length - 1];
+    return {
+      symbol: last.symbol,
+      price: last.close,
+      changePct: ((last.close - first.open) / first.open) * 100,
+      high: Math.max(...marketHistory.map(c => c.high)),
+      low: Math.min(...marketHistory.map(c => c.low))
+    };
+  }, [marketHistory]);
+
+  const marketChartData = useMemo(() => marketHistory.map(c => ({
+    time: new Date(c.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+    price: c.close
+  })), [marketHistory]);
+
+  const handleConnectLive = () => {
+    const url = wsUrlDraft.trim();
+    if (!/^wss?:\/\//i.test(url)) {
+      setWsUrlError('Feed URL must start with ws:// or wss://');
+      return;
     }
-    setHashrateHistory(initialData);
-
-    const timer = setInterval(() => {
-      setHashrateHistory(prev => {
-        if (prev.length === 0) return prev;
-        const lastRate = prev[prev.length - 1].rate;
-        const nextRate = parseFloat((lastRate + (Math.random() - 0.5) * 8).toFixed(2));
-        const newPoint = {
-          time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
-          rate: Math.max(base * 0.7, nextRate)
-        };
-        return [...prev, newPoint].slice(-120); 
-      });
-    }, 5000);
-
-    return () => clearInterval(timer);
-  }, [bots]);
+    setWsUrlError(null);
+    onMarketSourceChange({ kind: 'websocket', url });
+  };
+
+  const handleReplayUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onMarketSourceChange({ kind: 'replay', url: URL.createObjectURL(file), label: file.name, intervalMs: 1000 });
+    e.target.value = '';
+  };
 
   const handleQuickInsight = async () => {
     setIsInsightLoading(true);
     try {
-      const avg = (hashrateHistory.reduce((acc, curr) => acc + curr.rate, 0) / hashrateHistory.length).toFixed(2);
-      const text = await GeminiService.fastChat(`Explain current cloud mining performance. Average hashrate is ${avg} MH/s. Portfolios are distributed across 4 global regions. Give a quick summary of the "Cloud Bot" optimization status.`);
+      const avg = fleetHashrate.toFixed(2);
+      const market = marketStats
+        ? `${marketStats.symbol} is at $${marketStats.price.toFixed(2)} (${marketStats.changePct >= 0 ? '+' : ''}${marketStats.changePct.toFixed(2)}% over the last ${marketHistory.length} candles, range $${marketStats.low.toFixed(2)}-$${marketStats.high.toFixed(2)}).`
+        : 'No market data is available yet.';
+      const regions = FleetGroupService.regionsOf(bots).length;
+      const groups = FleetGroupService.groupsOf(bots).length;
+      const spread = `${bots.length} nodes are spread across ${regions} region${regions === 1 ? '' : 's'} and ${groups} client group${groups === 1 ? '' : 's'}.`;
+      const text = await GeminiService.fastChat(`Explain current cloud mining performance. Fleet hashrate is ${avg} MH/s. ${market} ${spread} Give a quick summary of the "Cloud Bot" optimization status.`);
       console.log(text);
     } catch (err) {
       console.error(err);
@@ -190,17 +219,25 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
     return Math.round((activeCount / bots.length) * 100);
   }, [bots]);
 
-  const telemetryData = useMemo(() => {
-    return bots.map(bot => {
-      const jitter = (Math.sin(telemetryJitter * 0.5 + bot.id.length) * 2);
-      return {
-        name: bot.name,
-        utilization: Math.min(100, Math.max(0, (bot.efficiency * 100) + jitter)),
-        temp: Math.min(100, Math.max(0, bot.temp + jitter)),
-        status: bot.status
-      };
-    });
-  }, [bots, telemetryJitter]);
+  const telemetryData = useMemo(() => bots.map(bot => ({
+    name: bot.name,
+    utilization: Math.min(100, Math.max(0, bot.efficiency * 100)),
+    temp: Math.min(100, Math.max(0, bot.temp)),
+    status: bot.status
+  })), [bots]);
+
+  // Averages whatever the bots currently hold: rig readings where telemetry is live, configured values otherwise
+  const hwAudit = useMemo(() => {
+    const liveCount = bots.filter(b => TelemetryService.isLive(b)).length;
+    if (bots.length === 0) return { utilization: 0, temp: 0, status: 'STABLE', liveCount };
+    const temp = bots.reduce((acc, b) => acc + b.temp, 0) / bots.length;
+    return {
+      utilization: bots.reduce((acc, b) => acc + b.efficiency * 100, 0) / bots.length,
+      temp,
+      status: temp > 75 ? 'THROTTLING' : (temp > 65 ? 'WARNING' : 'STABLE'),
+      liveCount
+    };
+  }, [bots]);
 
   return (
     <div className="space-y-6">
@@ -255,8 +292,8 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard title="Total Assets" value={`$${globalBalance.toLocaleString(undefined, { minimumFractionDigits: 2 })}`} trend="Autonomous" isPositive={true} />
-        <StatCard title="Bot Hashrate" value={`${hashrateHistory[hashrateHistory.length - 1]?.rate.toFixed(1) || '0.0'} MH/s`} trend="+4.2%" isPositive={true} />
-        <StatCard title="Market Index" value={`$${marketHistory[marketHistory.length - 1]?.price.toLocaleString() || '94,500'}`} trend="Stable" isPositive={true} />
+        <StatCard title="Bot Hashrate" value={`${fleetHashrate.toFixed(1)} MH/s`} trend="+4.2%" isPositive={true} />
+        <StatCard title="Market Index" value={marketStats ? `$${marketStats.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : '—'} trend={marketStats ? `${marketStats.changePct >= 0 ? '+' : ''}${marketStats.changePct.toFixed(2)}%` : 'Syncing'} isPositive={!marketStats || marketStats.changePct >= 0} />
         <StatCard title="Nodes Online" value={`${bots.filter(b => b.status === 'active').length} / ${bots.length}`} trend="Synced" isPositive={true} />
       </div>
 
@@ -273,8 +310,8 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
                 <div>
                    <h3 className="text-xs font-black uppercase tracking-widest text-white italic">Hardware Audit</h3>
                    <div className="flex items-center gap-2 mt-0.5">
-                      <span className={`w-1.5 h-1.5 rounded-full ${isHwFetching ? 'bg-indigo-500 animate-ping' : 'bg-gray-700'}`}></span>
-                      <span className="text-[8px] font-mono text-gray-500 uppercase tracking-tighter">Sensor_Grid_Fetch</span>
+                      <span className={`w-1.5 h-1.5 rounded-full ${hwAudit.liveCount > 0 ? 'bg-indigo-500 animate-pulse' : 'bg-gray-700'}`}></span>
+                      <span className="text-[8px] font-mono text-gray-500 uppercase tracking-tighter">{hwAudit.liveCount > 0 ? `Rig_Telemetry ${hwAudit.liveCount}/${bots.length}` : 'Configured_Values'}</span>
                    </div>
                 </div>
              </div>
@@ -330,17 +367,44 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
 
         {/* Global Hash Performance Chart */}
         <div className="lg:col-span-2 glass-card p-6 rounded-2xl h-[400px] flex flex-col overflow-hidden xl:col-span-2">
-          <div className="flex items-center justify-between mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
             <h3 className="text-lg font-bold flex items-center gap-2 text-white">
               <span className="w-2 h-2 bg-indigo-500 rounded-full animate-pulse shadow-[0_0_8px_rgba(99,102,241,0.6)]"></span>
               Global Hash Performance
             </h3>
+            <div className="flex gap-2">
+              <select value={historySeries} onChange={(e) => setHistorySeries(e.target.value)} className="bg-gray-900/50 border border-gray-800 rounded-lg px-2 py-1 text-xs font-bold text-white">
+                <option value={FLEET_SERIES_ID}>Whole Fleet</option>
+                {bots.map(bot => <option key={bot.id} value={bot.id}>{bot.name}</option>)}
+              </select>
+              <select value={historyMetric} onChange={(e) => setHistoryMetric(e.target.value as MetricName)} className="bg-gray-900/50 border border-gray-800 rounded-lg px-2 py-1 text-xs font-bold text-white">
+                {HISTORY_METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex bg-gray-900/50 p-1 rounded-lg border border-gray-800">
+              {RANGE_LABELS.map(range => (
+                <button
+                  key={range}
+                  onClick={() => handleRangeChange(range)}
+                  className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${
+                    selectedRange === range
+                      ? 'bg-gray-700 text-white shadow-lg'
+                      : 'text-gray-500 hover:text-gray-300'
+                  }`}
+                >
+                  {range}
+                </button>
+              ))}
+            </div>
             <div className="flex bg-gray-900/50 p-1 rounded-lg border border-gray-800">
               {INTERVAL_LABELS.map(interval => (
                 <button
                   key={interval}
                   onClick={() => setSelectedInterval(interval)}
-                  className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${
+                  disabled={!isIntervalAllowed(interval, selectedRange)}
+                  className={`px-3 py-1 text-xs font-bold rounded-md transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
                     selectedInterval === interval 
                       ? 'bg-indigo-600 text-white shadow-lg' 
                       : 'text-gray-500 hover:text-gray-300'
@@ -353,8 +417,11 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
           </div>
           
           <div className="flex-grow relative min-h-0 w-full">
+            {historyChartData.length === 0 && (
+              <div className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-700 font-black uppercase tracking-widest z-10">No samples recorded in this range yet</div>
+            )}
             <ResponsiveContainer width="100%" height="100%" debounce={1}>
-              <AreaChart data={hashrateHistory} margin={{ top: 10, right: 10, left: -10, bottom: 20 }}>
+              <AreaChart data={historyChartData} margin={{ top: 10, right: 10, left: -10, bottom: 20 }}>
                 <defs>
                   <linearGradient id="colorHash" x1="0" y1="0" x2="0" y2="1">
                     <stop offset="5%" stopColor="#818cf8" stopOpacity={0.3}/>
@@ -364,15 +431,161 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
                 <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
                 <XAxis dataKey="time" stroke="#4b5563" fontSize={10} tickLine={false} axisLine={false} minTickGap={40} />
                 <YAxis stroke="#4b5563" fontSize={10} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
-                <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#4b5563', strokeWidth: 1 }} />
-                <Area type="monotone" dataKey="rate" stroke="#818cf8" fillOpacity={1} fill="url(#colorHash)" strokeWidth={3} isAnimationActive={false} />
-                <Brush dataKey="time" height={30} stroke="#4b5563" fill="#111827" className="recharts-brush-bar" startIndex={Math.max(0, hashrateHistory.length - 40)} />
+                <Tooltip content={<CustomTooltip unit={activeMetric.unit} />} cursor={{ stroke: '#4b5563', strokeWidth: 1 }} />
+                <Area type="monotone" dataKey="value" stroke="#818cf8" fillOpacity={1} fill="url(#colorHash)" strokeWidth={3} isAnimationActive={false} />
+                <Brush key={`${historySeries}-${selectedRange}-${selectedInterval}`} dataKey="time" height={30} stroke="#4b5563" fill="#111827" className="recharts-brush-bar" />
               </AreaChart>
             </ResponsiveContainer>
           </div>
         </div>
       </div>
 
+      {/* Net Profitability */}
+      <div className="glass-card rounded-[2rem] p-6 border border-gray-800 shadow-2xl">
+        <div className="mb-6">
+          <h3 className="text-sm font-black uppercase tracking-widest text-white">Net Profitability</h3>
+          <p className="text-[9px] uppercase tracking-widest font-mono text-gray-500">
+            24h run-rate after {powerSettings.poolFeePct}% pool and {powerSettings.platformFeePct}% platform fees and {profitability.fleet.kwhPerDay.toFixed(1)} kWh of power
+          </p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4 mb-6">
+          {[
+            { label: 'Gross / 24h', value: `$${profitability.fleet.gross.toFixed(2)}`, className: 'text-white' },
+            { label: 'Fees', value: `-$${(profitability.fleet.poolFee + profitability.fleet.platformFee).toFixed(2)}`, className: 'text-amber-400' },
+            { label: 'Power', value: `-$${profitability.fleet.powerCost.toFixed(2)}`, className: 'text-amber-400' },
+            { label: 'Net / 24h', value: `$${profitability.fleet.net.toFixed(2)}`, className: profitability.fleet.net >= 0 ? 'text-emerald-400' : 'text-rose-400' },
+            { label: 'Annual ROI', value: profitability.fleet.annualRoiPct === null ? '—' : `${profitability.fleet.annualRoiPct.toFixed(1)}%`, className: 'text-indigo-400' },
+            { label: 'Break-even', value: profitability.fleet.breakEvenAt === null ? (profitability.fleet.cost > 0 ? 'Never' : '—') : new Date(profitability.fleet.breakEvenAt).toLocaleDateString(), className: 'text-white' }
+          ].map(item => (
+            <div key={item.label} className="p-3 rounded-xl bg-gray-950/50 border border-gray-800">
+              <span className="text-[9px] font-black uppercase tracking-widest text-gray-500 block mb-1">{item.label}</span>
+              <span className={`font-mono text-lg font-black ${item.className}`}>{item.value}</span>
+            </div>
+          ))}
+        </div>
+        {profitability.rows.length > 0 && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[9px] font-black uppercase tracking-widest text-gray-500 text-left">
+                <th className="pb-3">Node</th>
+                <th className="pb-3 text-right">Draw</th>
+                <th className="pb-3 text-right">Gross</th>
+                <th className="pb-3 text-right">Fees + Power</th>
+                <th className="pb-3 text-right">Net / 24h</th>
+                <th className="pb-3 text-right">ROI</th>
+                <th className="pb-3 text-right">Break-even</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {profitability.rows.map(({ bot, breakdown, investment }) => (
+                <tr key={bot.id} className="border-t border-gray-800/60">
+                  <td className="py-2 font-sans font-bold text-white">{bot.name}</td>
+                  <td className="py-2 text-right text-gray-400">{Math.round(breakdown.watts)} W</td>
+                  <td className="py-2 text-right text-gray-300">${breakdown.gross.toFixed(2)}</td>
+                  <td className="py-2 text-right text-amber-400">-${(breakdown.poolFee + breakdown.platformFee + breakdown.powerCost).toFixed(2)}</td>
+                  <td className={`py-2 text-right ${breakdown.net >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>${breakdown.net.toFixed(2)}</td>
+                  <td className="py-2 text-right text-indigo-400">{investment.annualRoiPct === null ? '—' : `${investment.annualRoiPct.toFixed(1)}%`}</td>
+                  <td className="py-2 text-right text-gray-300">{investment.breakEvenAt === null ? (investment.cost > 0 ? 'Never' : '—') : new Date(investment.breakEvenAt).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Group Performance */}
+      <div className="glass-card rounded-[2rem] p-6 border border-gray-800 shadow-2xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-sm font-black uppercase tracking-widest text-white">Group Performance</h3>
+            <p className="text-[9px] uppercase tracking-widest font-mono text-gray-500">Active hashrate, 24h profit run-rate and average temperature</p>
+          </div>
+          <div className="flex bg-gray-900/50 p-1 rounded-lg border border-gray-800">
+            {(['group', 'region'] as GroupDimension[]).map(dimension => (
+              <button key={dimension} onClick={() => setGroupDimension(dimension)} className={`px-3 py-1 text-xs font-bold rounded-md transition-all capitalize ${groupDimension === dimension ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}>By {dimension}</button>
+            ))}
+          </div>
+        </div>
+        {groupSummaries.length === 0 ? (
+          <p className="text-xs text-gray-600 italic">No nodes provisioned.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[9px] font-black uppercase tracking-widest text-gray-500 text-left">
+                <th className="pb-3">{groupDimension === 'group' ? 'Group' : 'Region'}</th>
+                <th className="pb-3 text-right">Nodes</th>
+                <th className="pb-3 text-right">Hashrate</th>
+                <th className="pb-3 text-right">Profit / 24h</th>
+                <th className="pb-3 text-right">Avg Temp</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {groupSummaries.map(summary => (
+                <tr key={summary.key} className="border-t border-gray-800/60">
+                  <td className="py-2 font-sans font-bold text-white">{summary.label}</td>
+                  <td className="py-2 text-right text-gray-400">{summary.activeCount} / {summary.botCount}</td>
+                  <td className="py-2 text-right text-indigo-400">{summary.hashrate.toFixed(1)} MH/s</td>
+                  <td className="py-2 text-right text-emerald-400">${summary.profit24h.toFixed(2)}</td>
+                  <td className={`py-2 text-right ${summary.avgTemp > 75 ? 'text-rose-400' : summary.avgTemp > 65 ? 'text-amber-400' : 'text-gray-300'}`}>{summary.avgTemp.toFixed(1)}°C</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Market Feed */}
+      <div className="glass-card rounded-[2rem] p-6 border border-gray-800 shadow-2xl flex flex-col h-[360px]">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-emerald-600/10 rounded-xl flex items-center justify-center border border-emerald-500/20">
+              <svg className="w-6 h-6 text-emerald-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" /></svg>
+            </div>
+            <div>
+              <h3 className="text-sm font-black uppercase tracking-widest text-white">Market Feed {marketStats && <span className="text-emerald-400">{marketStats.symbol}</span>}</h3>
+              <p className={`text-[9px] uppercase tracking-widest font-mono ${marketError ? 'text-rose-400' : 'text-gray-500'}`}>
+                {marketError || (marketSource.kind === 'replay' ? `Replay: ${marketSource.label}` : `Live: ${marketSource.url}`)}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex bg-gray-900/50 p-1 rounded-lg border border-gray-800">
+              <button onClick={() => onMarketSourceChange(DEFAULT_MARKET_SOURCE)} className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${marketSource.kind === 'replay' ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}>Replay</button>
+              <button onClick={handleConnectLive} className={`px-3 py-1 text-xs font-bold rounded-md transition-all ${marketSource.kind === 'websocket' ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}>Live WS</button>
+            </div>
+            {marketSource.kind === 'websocket' ? (
+              <form onSubmit={(e) => { e.preventDefault(); handleConnectLive(); }} className="flex items-center gap-2">
+                <input value={wsUrlDraft} onChange={(e) => setWsUrlDraft(e.target.value)} className="bg-gray-950 border border-gray-800 rounded-lg px-3 py-1.5 text-[10px] font-mono text-white w-48 focus:outline-none focus:ring-1 focus:ring-indigo-500" />
+                <button type="submit" className="px-3 py-1.5 bg-gray-900 border border-gray-800 rounded-lg text-[10px] font-black uppercase text-indigo-400 hover:border-indigo-500">Connect</button>
+              </form>
+            ) : (
+              <label className="px-3 py-1.5 bg-gray-900 border border-gray-800 rounded-lg text-[10px] font-black uppercase text-indigo-400 hover:border-indigo-500 cursor-pointer">
+                Load CSV / JSON
+                <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleReplayUpload} className="hidden" />
+              </label>
+            )}
+            {wsUrlError && <p className="w-full text-[10px] text-red-500 font-bold">{wsUrlError}</p>}
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={marketChartData} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+              <defs>
+                <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#34d399" stopOpacity={0.3}/>
+                  <stop offset="95%" stopColor="#34d399" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+              <XAxis dataKey="time" stroke="#4b5563" fontSize={10} tickLine={false} axisLine={false} minTickGap={40} />
+              <YAxis stroke="#4b5563" fontSize={10} tickLine={false} axisLine={false} domain={['auto', 'auto']} width={70} />
+              <Tooltip contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }} itemStyle={{ color: '#34d399', fontSize: '12px' }} formatter={(value: number) => [`$${value.toFixed(2)}`, 'Close']} />
+              <Area type="monotone" dataKey="price" stroke="#34d399" fillOpacity={1} fill="url(#colorPrice)" strokeWidth={2} isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
         {/* Hardware Telemetry Chart */}
         <div className="glass-card rounded-[2rem] p-6 border border-gray-800 shadow-2xl xl:col-span-2 min-h-[400px] flex flex-col">
@@ -430,20 +643,22 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
               <span className="w-1.5 h-1.5 bg-indigo-500 rounded-full animate-pulse"></span>
               Neural Bot Log
             </h3>
-            <span className="text-[9px] font-mono text-gray-500 uppercase">Live_Telemetry</span>
+            <select value={feedFilter} onChange={(e) => setFeedFilter(e.target.value as BotEventType | 'all')} className="bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-[9px] font-mono text-gray-400 uppercase">
+              <option value="all">All events</option>
+              {BOT_EVENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
           </div>
           <div className="flex-1 overflow-y-auto p-4 space-y-3 font-mono">
-            {automationLogs.map((log) => (
-              <div key={log.id} className="text-[10px] leading-tight flex space-x-2 group">
-                <span className="text-gray-600">[{log.timestamp}]</span>
-                <span className={`font-black uppercase tracking-tighter ${
-                  log.type === 'optimization' ? 'text-indigo-400' :
-                  log.type === 'security' ? 'text-red-400' :
-                  'text-green-400'
-                }`}>
-                  {log.bot}:
+            {visibleEvents.length === 0 && (
+              <p className="text-[10px] text-gray-700 font-black uppercase tracking-widest text-center pt-8">No bot events yet this session</p>
+            )}
+            {visibleEvents.map((event) => (
+              <div key={event.id} className="text-[10px] leading-tight flex space-x-2 group" title={event.metadata?.reasoning}>
+                <span className="text-gray-600">[{new Date(event.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}]</span>
+                <span className={`font-black uppercase tracking-tighter ${EVENT_TYPE_STYLES[event.type]}`}>
+                  {event.botName}:
                 </span>
-                <span className="text-gray-300 group-hover:text-white transition-colors">{log.action}</span>
+                <span className="text-gray-300 group-hover:text-white transition-colors">{event.message}</span>
               </div>
             ))}
           </div>
@@ -453,7 +668,7 @@ const Dashboard: React.FC<DashboardProps> = ({ globalBalance, bots, onOpenDeposi
   );
 };
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, unit }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-[#111827] border border-gray-700 p-3 rounded-xl shadow-2xl backdrop-blur-md">
@@ -461,7 +676,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
         <div className="flex items-center gap-2">
           <div className="w-2 h-2 rounded-full bg-indigo-500"></div>
           <p className="text-indigo-400 font-mono font-bold text-sm">
-            {payload[0].value.toFixed(1)} <span className="text-[10px]">MH/s</span>
+            {payload[0].value.toFixed(1)} <span className="text-[10px]">{unit}</span>
           </p>
         </div>
       </div>
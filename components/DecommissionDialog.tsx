@@ -0,0 +1,64 @@
+
+import React, { useMemo, useState } from 'react';
+import { MiningBot } from '../types';
+import { BotLifecycleService } from '../services/lifecycle';
+
+interface DecommissionDialogProps {
+  bot: MiningBot;
+  onConfirm: (botId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const DecommissionDialog: React.FC<DecommissionDialogProps> = ({ bot, onConfirm, onClose }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const quote = useMemo(() => BotLifecycleService.quote(bot), [bot.id, bot.balance]);
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    if (await onConfirm(bot.id)) {
+      onClose();
+    } else {
+      setError('Ledger posting failed; the node was returned to the fleet.');
+      setIsSubmitting(false);
+    }
+  };
+
+  const row = (label: string, value: string, className = 'text-gray-300') => (
+    <div className="flex justify-between items-center text-xs"><span className="text-gray-500">{label}</span><span className={`font-mono font-bold ${className}`}>{value}</span></div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-md" onClick={isSubmitting ? undefined : onClose}></div>
+      <div className="relative w-full max-w-md glass-card rounded-3xl p-8 border border-rose-500/50 shadow-2xl animate-in zoom-in-95 duration-300">
+        <h3 className="text-xl font-black text-white uppercase tracking-tighter mb-2">Decommission Node</h3>
+        <p className="text-xs text-gray-400 mb-6">{bot.name} will be stopped, removed from the fleet and archived with its metric history.</p>
+        <div className="bg-gray-950/50 p-4 rounded-2xl border border-gray-800 mb-6 space-y-3">
+          {quote.cost > 0 ? (
+            <>
+              {row('Provision cost', `$${quote.cost.toFixed(2)}`)}
+              {row('Age', `${quote.ageDays.toFixed(1)} days`)}
+              {row('Depreciation', `-$${quote.depreciation.toFixed(2)}`, 'text-rose-400')}
+              {row('Resale value', `$${quote.resaleValue.toFixed(2)}`, 'text-emerald-400')}
+            </>
+          ) : (
+            <p className="text-[10px] text-gray-500 italic">Not provisioned from the marketplace, so it has no resale value.</p>
+          )}
+          {row('Balance swept', `$${quote.sweepAmount.toFixed(2)}`, 'text-emerald-400')}
+          <div className="pt-3 border-t border-gray-800">
+            {row('Credited to wallet', `$${(quote.resaleValue + quote.sweepAmount).toFixed(2)}`, 'text-white')}
+          </div>
+        </div>
+        {error && <p className="text-xs text-red-500 font-bold mb-4">{error}</p>}
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={onClose} disabled={isSubmitting} className="py-3 px-4 bg-gray-800 text-gray-400 font-black text-[10px] uppercase rounded-xl hover:bg-gray-700 transition-all disabled:opacity-30">Abort</button>
+          <button onClick={handleConfirm} disabled={isSubmitting} className="py-3 px-4 bg-rose-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-rose-500 transition-all shadow-lg shadow-rose-600/20 disabled:opacity-50">{isSubmitting ? 'Posting...' : 'Decommission'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DecommissionDialog;
@@ -1,8 +1,11 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { GeminiService } from '../services/gemini';
 import { LoggerService } from '../services/logger';
+import { BotEventBus } from '../services/botEvents';
 import { LogCategory, MiningBot } from '../types';
+import { BotFilter, FleetGroupService, regionLabel } from '../services/fleetGroups';
+import GroupFilter from './GroupFilter';
 
 interface DiagnosticsViewProps {
   bots: MiningBot[];
@@ -25,6 +28,10 @@ const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ bots, setBots }) => {
     { name: 'SECURITY_HANDSHAKE', status: 'idle', message: 'Monitoring network integrity...' }
   ]);
   const [isAutoTesting, setIsAutoTesting] = useState(false);
+  const [filter, setFilter] = useState<BotFilter>({});
+  const scopedBots = useMemo(() => FleetGroupService.filter(bots, filter), [bots, filter]);
+  const isScoped = !!(filter.group || filter.region || filter.tag);
+  const scopeLabel = isScoped ? [filter.group, filter.region && regionLabel(filter.region), filter.tag && `#${filter.tag}`].filter(Boolean).join(' / ') : 'Fleet';
   const logEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -84,6 +91,7 @@ const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ bots, setBots }) => {
     setIsAutoTesting(false);
     addLog("DIAGNOSTICS COMPLETE. SYSTEM STABLE.");
     LoggerService.log(LogCategory.SYSTEM, "Full diagnostics completed", { testResults: tests });
+    BotEventBus.emit('diagnostics', 'Fleet', "Full system diagnostics completed");
   };
 
   const triggerMockAttack = () => {
@@ -93,6 +101,8 @@ const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ bots, setBots }) => {
       payload: "S_INJECTION_QUERY",
       outcome: "Blocked by Lattice Firewall"
     });
+    const target = bots.find(b => b.id === '1');
+    if (target) BotEventBus.emit('diagnostics', target.name, "Anomalous traffic blocked by firewall; node faulted", { botId: target.id });
     setBots(prev => prev.map(b => b.id === '1' ? { ...b, status: 'error' } : b));
     setTimeout(() => {
       addLog("Neural firewall engaged. Threat neutralized.");
@@ -101,12 +111,16 @@ const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ bots, setBots }) => {
   };
 
   const triggerThermalStress = () => {
-    addLog("WARNING: SIMULATING THERMAL STRESS EVENT");
-    setBots(prev => prev.map(b => ({ ...b, temp: 95 })));
-    LoggerService.log(LogCategory.OPERATION, "Critical thermal threshold reached", { temp: 95, cooling: "Emergency_MAX" });
+    const botIds = new Set(scopedBots.map(b => b.id));
+    if (botIds.size === 0) return;
+    addLog(`WARNING: SIMULATING THERMAL STRESS EVENT (${scopeLabel.toUpperCase()})`);
+    setBots(prev => prev.map(b => botIds.has(b.id) ? { ...b, temp: 95 } : b));
+    LoggerService.log(LogCategory.OPERATION, "Critical thermal threshold reached", { temp: 95, cooling: "Emergency_MAX", scope: scopeLabel, botIds: [...botIds] });
+    BotEventBus.emit('diagnostics', scopeLabel, "Critical thermal threshold reached (95°C), emergency cooling engaged", { metadata: { temp: 95, botIds: [...botIds] } });
     setTimeout(() => {
       addLog("Cooling cycle complete. Temps stabilized.");
-      setBots(prev => prev.map(b => ({ ...b, temp: 52 })));
+      BotEventBus.emit('diagnostics', scopeLabel, "Cooling cycle complete, temperatures stabilized at 52°C", { metadata: { temp: 52, botIds: [...botIds] } });
+      setBots(prev => prev.map(b => botIds.has(b.id) ? { ...b, temp: 52 } : b));
     }, 5000);
   };
 
@@ -179,7 +193,10 @@ const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ bots, setBots }) => {
           </div>
 
           <div className="glass-card rounded-[2rem] p-8 border border-gray-800 shadow-2xl bg-gray-900/10">
-            <h3 className="text-sm font-black uppercase tracking-widest text-gray-500 mb-8">Simulation Console</h3>
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <h3 className="text-sm font-black uppercase tracking-widest text-gray-500">Simulation Console</h3>
+              <GroupFilter bots={bots} filter={filter} onChange={setFilter} />
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <button 
                 onClick={triggerMockAttack}
@@ -200,7 +217,7 @@ const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ bots, setBots }) => {
               >
                 <div className="relative z-10">
                    <h4 className="text-sm font-black text-amber-500 uppercase tracking-tighter mb-2">Simulate Overheat</h4>
-                   <p className="text-[10px] text-gray-500 uppercase font-black leading-tight">Trigger thermal throttling across all cloud clusters</p>
+                   <p className="text-[10px] text-gray-500 uppercase font-black leading-tight">{isScoped ? `Trigger thermal throttling on ${scopedBots.length} filtered node${scopedBots.length === 1 ? '' : 's'}` : 'Trigger thermal throttling across all cloud clusters'}</p>
                 </div>
                 <div className="absolute bottom-4 right-4 text-amber-500/20 group-hover:text-amber-500/40 transition-colors">
                    <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
@@ -221,6 +238,28 @@ const DiagnosticsView: React.FC<DiagnosticsViewProps> = ({ bots, setBots }) => {
               </button>
             </div>
           </div>
+
+          <div className="glass-card rounded-[2rem] p-8 border border-gray-800 shadow-2xl bg-gray-900/10">
+            <h3 className="text-sm font-black uppercase tracking-widest text-gray-500 mb-6">Node Health · {scopeLabel}</h3>
+            {scopedBots.length === 0 ? (
+              <p className="text-xs text-gray-600 italic">No nodes match this filter.</p>
+            ) : (
+              <div className="space-y-2">
+                {scopedBots.map(bot => (
+                  <div key={bot.id} className="flex items-center justify-between p-3 rounded-xl bg-gray-950 border border-gray-800 text-xs">
+                    <div>
+                      <p className="font-bold text-white">{bot.name}</p>
+                      <p className="text-[10px] text-gray-600">{bot.group || 'No group'} · {regionLabel(bot.region)}</p>
+                    </div>
+                    <div className="flex items-center gap-4 font-mono">
+                      <span className={bot.temp > 75 ? 'text-red-400' : bot.temp > 65 ? 'text-amber-400' : 'text-gray-300'}>{bot.temp}°C</span>
+                      <span className={`text-[9px] font-black uppercase px-2 py-1 rounded-md border ${bot.status === 'active' ? 'text-green-500 border-green-500/20' : bot.status === 'error' ? 'text-red-500 border-red-500/20' : 'text-gray-500 border-gray-700'}`}>{bot.status}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Diagnostic Logs */}
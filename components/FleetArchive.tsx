@@ -0,0 +1,55 @@
+
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import { ArchivedBot, BotLifecycleService } from '../services/lifecycle';
+
+/**
+ * Decommissioned bots with their resale accounting and lifetime metrics.
+ */
+const FleetArchive: React.FC = () => {
+  const [archive, setArchive] = useState<ArchivedBot[]>([]);
+
+  useEffect(() => {
+    const load = () => BotLifecycleService.listArchive().then(setArchive).catch(err => console.error("Failed to load fleet archive:", err));
+    load();
+    window.addEventListener('fleet-archive-updated', load);
+    return () => window.removeEventListener('fleet-archive-updated', load);
+  }, []);
+
+  if (archive.length === 0) return null;
+
+  return (
+    <section className="pt-10">
+      <h2 className="text-xl font-black text-white uppercase tracking-tighter italic mb-4">Archived Nodes</h2>
+      <div className="space-y-2">
+        {archive.map(record => (
+          <div key={record.bot.id} className="glass-card p-4 rounded-2xl flex flex-wrap items-center gap-6 opacity-80">
+            <div className="w-48">
+              <p className="text-sm font-bold text-white">{record.bot.name}</p>
+              <p className="text-[10px] font-mono text-gray-600">{record.bot.id} · retired {new Date(record.decommissionedAt).toLocaleDateString()}</p>
+            </div>
+            <div className="flex-1 h-8 min-w-[120px]">
+              {record.history.length > 1 && (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={record.history}>
+                    <YAxis hide domain={['auto', 'auto']} />
+                    <Line type="monotone" dataKey="profit" stroke="#34d399" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+            <div className="text-right text-[11px] font-mono text-gray-400">
+              <p>{record.quote.ageDays.toFixed(1)} days in service · {record.history.length} daily points</p>
+              <p>
+                <span className="text-emerald-400">${(record.quote.resaleValue + record.quote.sweepAmount).toFixed(2)}</span> returned
+                {record.quote.cost > 0 && <span className="text-gray-600"> (cost ${record.quote.cost.toFixed(2)})</span>}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default FleetArchive;
@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { MiningBot } from '../types';
+import { BotFilter, FleetGroupService, UNGROUPED, UNASSIGNED_REGION, regionLabel } from '../services/fleetGroups';
+
+interface GroupFilterProps {
+  bots: MiningBot[];
+  filter: BotFilter;
+  onChange: (filter: BotFilter) => void;
+}
+
+const selectClass = "bg-gray-950 border border-gray-800 rounded-lg px-2 py-2 text-[10px] font-bold text-gray-300";
+
+const GroupFilter: React.FC<GroupFilterProps> = ({ bots, filter, onChange }) => {
+  const groups = FleetGroupService.groupsOf(bots);
+  const regions = FleetGroupService.regionsOf(bots);
+  const tags = FleetGroupService.tagsOf(bots);
+  const hasUngrouped = bots.some(b => !b.group);
+  const hasUnassigned = bots.some(b => !b.region);
+  const isFiltered = !!(filter.group || filter.region || filter.tag);
+
+  const update = (key: keyof BotFilter, value: string) => onChange({ ...filter, [key]: value || undefined });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Filter</span>
+      <select value={filter.group ?? ''} onChange={(e) => update('group', e.target.value)} className={selectClass}>
+        <option value="">All groups</option>
+        {groups.map(g => <option key={g} value={g}>{g}</option>)}
+        {hasUngrouped && <option value={UNGROUPED}>{UNGROUPED}</option>}
+      </select>
+      <select value={filter.region ?? ''} onChange={(e) => update('region', e.target.value)} className={selectClass}>
+        <option value="">All regions</option>
+        {regions.map(r => <option key={r} value={r}>{regionLabel(r)}</option>)}
+        {hasUnassigned && <option value={UNASSIGNED_REGION}>{UNASSIGNED_REGION}</option>}
+      </select>
+      {tags.length > 0 && (
+        <select value={filter.tag ?? ''} onChange={(e) => update('tag', e.target.value)} className={selectClass}>
+          <option value="">All tags</option>
+          {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+        </select>
+      )}
+      {isFiltered && <button onClick={() => onChange({})} className="text-[10px] font-bold text-gray-500 hover:text-white">Reset</button>}
+    </div>
+  );
+};
+
+export default GroupFilter;
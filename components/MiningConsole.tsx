@@ -1,130 +1,122 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { AreaChart, Area, ResponsiveContainer, XAxis, YAxis, Tooltip } from 'recharts';
-import { MiningBot, LogCategory } from '../types';
+import { MiningBot, LogCategory, MarketCandle } from '../types';
 import { LoggerService } from '../services/logger';
-
-const MINING_ALGORITHMS = ['SHA-256', 'Ethash', 'KawPow', 'Scrypt', 'Etchash', 'Autolykos2'];
-
-const ALGO_MULTIPLIERS: Record<string, number> = {
-  'SHA-256': 1.2,
-  'Ethash': 1.0,
-  'KawPow': 0.6,
-  'Scrypt': 0.8,
-  'Etchash': 0.95,
-  'Autolykos2': 1.1
-};
-
-interface BotTier {
-  tierId: string;
-  name: string;
-  basePrice: number;
-  hashrate: number;
-  efficiency: number;
-  description: string;
-  icon: string;
-  color: string;
-  colorClass: string;
-}
-
-const BOT_TIERS: BotTier[] = [
-  {
-    tierId: 'starter',
-    name: 'Cloud Node-S',
-    basePrice: 49.00,
-    hashrate: 450.0,
-    efficiency: 1.85,
-    description: 'Entry-level cloud node. Optimized for low-cap altcoins and low power footprint.',
-    icon: 'M13 10V3L4 14h7v7l9-11h-7z',
-    color: 'emerald',
-    colorClass: 'border-emerald-500/30 bg-emerald-500/5'
-  },
-  {
-    tierId: 'pro',
-    name: 'Neural Cluster V4',
-    basePrice: 99.30,
-    hashrate: 1855.0,
-    efficiency: 1.93,
-    description: 'Advanced compute cluster with neural block predictive branching.',
-    icon: 'M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z',
-    color: 'indigo',
-    colorClass: 'border-indigo-500/30 bg-indigo-500/5'
-  },
-  {
-    tierId: 'enterprise',
-    name: 'Enterprise Lattice',
-    basePrice: 2450.00,
-    hashrate: 2720.5,
-    efficiency: 55.97,
-    description: 'High-density hash farm. Maximum yield for established SHA-256 networks.',
-    icon: 'M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10',
-    color: 'purple',
-    colorClass: 'border-purple-500/30 bg-purple-500/5'
-  },
-  {
-    tierId: 'apex',
-    name: 'Neural Apex (Autonomous)',
-    basePrice: 7999.00,
-    hashrate: 4800.0,
-    efficiency: 85.995,
-    description: 'Cutting-edge AI ASIC farm. Autonomous hashrate routing between 40+ chains.',
-    icon: 'M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z',
-    color: 'red',
-    colorClass: 'border-red-500/30 bg-red-500/5'
-  }
-];
+import { MiningService } from '../services/mining';
+import { BotTier, CatalogService } from '../services/catalog';
+import { MarketDataService, REFERENCE_PRICE } from '../services/marketData';
+import { BotEventBus } from '../services/botEvents';
+import SwitchSimulator from './SwitchSimulator';
+import BulkActionBar from './BulkActionBar';
+import { BulkPreview } from '../services/bulkOperations';
+import { BotFilter, FleetGroupService, regionLabel } from '../services/fleetGroups';
+import GroupFilter from './GroupFilter';
+import BotLabelsEditor from './BotLabelsEditor';
+import DecommissionDialog from './DecommissionDialog';
+import FleetArchive from './FleetArchive';
+import UpgradeDialog from './UpgradeDialog';
+import { ProfitabilityService } from '../services/profitability';
 
 interface MiningConsoleProps {
   bots: MiningBot[];
   setBots: React.Dispatch<React.SetStateAction<MiningBot[]>>;
-  onPurchase: (bot: MiningBot, price: number) => boolean;
+  onBulkApply: (preview: BulkPreview) => void;
+  onPurchase: (bot: MiningBot, price: number) => Promise<boolean>;
+  onSweep: () => void;
+  onDecommission: (botId: string) => Promise<boolean>;
+  onUpgrade: (botId: string, tierId: string) => Promise<boolean>;
+  marketHistory: MarketCandle[];
   balance: number;
   onOpenDeposit?: () => void;
 }
 
-const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase, balance, onOpenDeposit }) => {
+const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onBulkApply, onPurchase, onSweep, onDecommission, onUpgrade, marketHistory, balance, onOpenDeposit }) => {
   const [tuningBot, setTuningBot] = useState<MiningBot | null>(null);
+  // Bot as it was when the tuning panel opened, so one feed event covers the whole session
+  const tuningStartRef = useRef<MiningBot | null>(null);
   const [algoSwitchTarget, setAlgoSwitchTarget] = useState<{ botId: string; nextAlgo: string } | null>(null);
   const [purchaseSuccess, setPurchaseSuccess] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<BotFilter>({});
+  const [labelsBot, setLabelsBot] = useState<MiningBot | null>(null);
+  const [decommissionBot, setDecommissionBot] = useState<MiningBot | null>(null);
+  const [upgradeBot, setUpgradeBot] = useState<MiningBot | null>(null);
+  const [tiers, setTiers] = useState<BotTier[]>([]);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [powerSettings, setPowerSettings] = useState(() => ProfitabilityService.getSettings());
 
-  const calculateProjectedValue = (hashrate: number, efficiency: number, variance = 1) => {
-    const baseFactor = 0.25; 
-    return hashrate * efficiency * baseFactor * variance;
-  };
+  useEffect(() => {
+    CatalogService.load()
+      .then(catalog => setTiers(catalog.tiers))
+      .catch(err => setCatalogError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setPowerSettings(ProfitabilityService.getSettings());
+    window.addEventListener('power-settings-changed', handleChange);
+    return () => window.removeEventListener('power-settings-changed', handleChange);
+  }, []);
+
+  const priceFactor = MarketDataService.getPriceFactor(marketHistory);
+  const switchBot = algoSwitchTarget ? bots.find(b => b.id === algoSwitchTarget.botId) : undefined;
 
+  const calculateProjectedValue = (hashrate: number, efficiency: number, variance = priceFactor) =>
+    MiningService.calculateProjectedValue(hashrate, efficiency, variance);
+
+  const sweepableBalance = useMemo(() => bots.reduce((sum, b) => sum + (b.balance || 0), 0), [bots]);
+
+  // Replays the last 20 market candles through the yield model
   const projectionTrend = useMemo(() => {
     if (!tuningBot) return [];
-    const data = [];
-    const currentBase = calculateProjectedValue(tuningBot.hashrate, tuningBot.efficiency);
-    for (let i = 0; i < 20; i++) {
-      const seed = i * 0.5;
-      const variance = 0.95 + (Math.sin(seed) * 0.05);
-      data.push({ time: `${i}m`, profit: parseFloat((currentBase * variance).toFixed(2)) });
-    }
-    return data;
-  }, [tuningBot?.hashrate, tuningBot?.efficiency]);
+    return marketHistory.slice(-20).map((candle, i) => ({
+      time: `${i}m`,
+      profit: parseFloat(calculateProjectedValue(tuningBot.hashrate, tuningBot.efficiency, candle.close / REFERENCE_PRICE).toFixed(2))
+    }));
+  }, [tuningBot?.hashrate, tuningBot?.efficiency, marketHistory]);
 
   const handleConfirmAlgoSwitch = () => {
     if (!algoSwitchTarget) return;
     const { botId, nextAlgo } = algoSwitchTarget;
-    
+    const target = bots.find(b => b.id === botId);
+    if (target) BotEventBus.emit('algorithm', target.name, `Switched ${target.algorithm} → ${nextAlgo}`, { botId, metadata: { oldAlgo: target.algorithm, newAlgo: nextAlgo } });
+
     setBots(prev => prev.map(bot => {
       if (bot.id === botId) {
         LoggerService.log(LogCategory.OPERATION, "Bot algorithm reconfigured", { botId: bot.id, botName: bot.name, oldAlgo: bot.algorithm, newAlgo: nextAlgo });
-        const currentMult = ALGO_MULTIPLIERS[bot.algorithm] || 1;
-        const nextMult = ALGO_MULTIPLIERS[nextAlgo] || 1;
-        return { 
-          ...bot, 
-          algorithm: nextAlgo,
-          hashrate: bot.hashrate * (nextMult / currentMult)
-        };
+        return MiningService.switchAlgorithm(bot, nextAlgo);
       }
       return bot;
     }));
     setAlgoSwitchTarget(null);
   };
 
+  const visibleBots = useMemo(() => FleetGroupService.filter(bots, filter), [bots, filter]);
+  // Bulk operations only reach bots the current filter shows
+  const selectedBots = useMemo(() => visibleBots.filter(b => selectedIds.has(b.id)), [visibleBots, selectedIds]);
+
+  const toggleSelected = (botId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(botId)) next.delete(botId);
+      else next.add(botId);
+      return next;
+    });
+  };
+
+  const handleSaveLabels = (botId: string, updates: Pick<MiningBot, 'group' | 'region' | 'tags'>) => {
+    setBots(prev => prev.map(bot => {
+      if (bot.id === botId) {
+        LoggerService.log(LogCategory.OPERATION, "Bot labels updated", { botId, botName: bot.name, from: { group: bot.group, region: bot.region, tags: bot.tags }, to: updates });
+        return { ...bot, ...updates };
+      }
+      return bot;
+    }));
+  };
+
   const toggleAutoPilot = (botId: string) => {
+    const target = bots.find(b => b.id === botId);
+    if (target) BotEventBus.emit('autopilot', target.name, `Autopilot ${target.isAutoPilot ? 'disengaged' : 'engaged'}`, { botId });
     setBots(prev => prev.map(bot => {
       if (bot.id === botId) {
         const nextState = !bot.isAutoPilot;
@@ -139,7 +131,8 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
     setBots(prev => prev.map(bot => {
       if (bot.id === id) {
         LoggerService.log(LogCategory.OPERATION, "Bot manual performance tuning", { botId: id, updates });
-        return { ...bot, ...updates };
+        // A hand-set hashrate becomes the new baseline for thermal throttling
+        return { ...bot, ...updates, ...(updates.hashrate !== undefined && { throttledFrom: undefined }) };
       }
       return bot;
     }));
@@ -148,6 +141,23 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
     }
   };
 
+  const openTuning = (bot: MiningBot) => {
+    tuningStartRef.current = bot;
+    setTuningBot(bot);
+  };
+
+  const closeTuning = () => {
+    const before = tuningStartRef.current;
+    if (before && tuningBot && (before.hashrate !== tuningBot.hashrate || before.efficiency !== tuningBot.efficiency)) {
+      BotEventBus.emit('tuning', tuningBot.name, `Tuned to ${tuningBot.hashrate.toFixed(1)} MH/s at ${(tuningBot.efficiency * 100).toFixed(0)}% efficiency`, {
+        botId: tuningBot.id,
+        metadata: { from: { hashrate: before.hashrate, efficiency: before.efficiency }, to: { hashrate: tuningBot.hashrate, efficiency: tuningBot.efficiency } }
+      });
+    }
+    tuningStartRef.current = null;
+    setTuningBot(null);
+  };
+
   const toggleStatus = (id: string) => {
     setBots(prev => prev.map(bot => {
       if (bot.id === id) {
@@ -163,26 +173,16 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
     }));
   };
 
-  const handleBuyBot = (tier: BotTier) => {
-    const newBot: MiningBot = {
-      id: `BOT-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
-      name: tier.name,
-      status: 'active',
-      hashrate: tier.hashrate,
-      efficiency: tier.efficiency,
-      temp: 42,
-      profit24h: calculateProjectedValue(tier.hashrate, tier.efficiency),
-      balance: 0,
-      algorithm: 'Ethash',
-      isAutoPilot: false
-    };
+  const handleBuyBot = async (tier: BotTier) => {
+    const newBot = CatalogService.provision(tier, calculateProjectedValue(tier.hashrate, tier.efficiency));
 
-    if (onPurchase(newBot, tier.basePrice)) {
+    if (await onPurchase(newBot, tier.basePrice)) {
+      BotEventBus.emit('provisioning', newBot.name, `Provisioned ${tier.name} for $${tier.basePrice.toFixed(2)}`, { botId: newBot.id, metadata: { tierId: tier.tierId } });
       setPurchaseSuccess(tier.name);
       setTimeout(() => setPurchaseSuccess(null), 3000);
     } else {
-      LoggerService.log(LogCategory.SECURITY, "Insufficient balance for provision attempt", { tierId: tier.tierId, balance });
-      // Redirect to deposit is handled by parent if it returns false
+      LoggerService.log(LogCategory.SECURITY, "Provision attempt declined", { tierId: tier.tierId, balance });
+      // Redirect to deposit, or the posting failure, is handled by parent if it returns false
     }
   };
 
@@ -194,6 +194,14 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
           <p className="text-gray-400 font-medium">Monitoring distributed cloud compute in real-time.</p>
         </div>
         <div className="flex items-center space-x-6">
+          <button
+            onClick={onSweep}
+            disabled={sweepableBalance < 0.01}
+            className="flex items-center space-x-3 bg-gray-900/50 px-4 py-2 rounded-xl border border-gray-800 hover:border-emerald-500/50 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed group"
+          >
+            <span className="text-[10px] font-black uppercase tracking-widest text-gray-500 group-hover:text-emerald-400">Sweep Bots</span>
+            <span className="text-lg font-black text-emerald-400 font-mono">${sweepableBalance.toFixed(2)}</span>
+          </button>
           <div className="flex items-center space-x-4 bg-gray-900/50 px-4 py-2 rounded-xl border border-gray-800">
             <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Balance</span>
             <span className="text-lg font-black text-white font-mono">${balance.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
@@ -213,16 +221,34 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
         </div>
       )}
       <div className="grid grid-cols-1 gap-4">
+        {bots.length > 0 && <GroupFilter bots={bots} filter={filter} onChange={setFilter} />}
+        {visibleBots.length > 1 && (
+          <BulkActionBar
+            selected={selectedBots}
+            totalBots={visibleBots.length}
+            priceFactor={priceFactor}
+            onSelectAll={() => setSelectedIds(new Set(visibleBots.map(b => b.id)))}
+            onClear={() => setSelectedIds(new Set())}
+            onConfirm={onBulkApply}
+          />
+        )}
         {bots.length === 0 ? (
           <div className="glass-card p-20 rounded-3xl text-center border-dashed border-2 border-gray-800">
             <p className="text-gray-600 font-bold italic">No cloud nodes detected. Provision hardware below.</p>
           </div>
+        ) : visibleBots.length === 0 ? (
+          <div className="glass-card p-12 rounded-3xl text-center border-dashed border-2 border-gray-800">
+            <p className="text-gray-600 font-bold italic">No nodes match this filter.</p>
+          </div>
         ) : (
-          bots.map((bot) => {
+          visibleBots.map((bot) => {
             const isAlpha = bot.id === '1';
+            const profit = ProfitabilityService.breakdown(bot, bot.profit24h, powerSettings);
+            const returns = ProfitabilityService.investment(bot, profit.net);
             return (
               <div key={bot.id} className={`glass-card p-6 rounded-2xl flex flex-wrap items-center justify-between gap-6 transition-all group overflow-hidden relative ${isAlpha ? 'border-indigo-500/40 bg-indigo-950/10' : ''}`}>
                 <div className="flex items-center space-x-4 min-w-[220px]">
+                  <input type="checkbox" checked={selectedIds.has(bot.id)} onChange={() => toggleSelected(bot.id)} aria-label={`Select ${bot.name}`} className="w-4 h-4 accent-indigo-500 cursor-pointer" />
                   <div className={`w-14 h-14 rounded-2xl flex items-center justify-center transition-all ${bot.status === 'active' ? 'bg-indigo-600/20 text-indigo-400' : 'bg-gray-800 text-gray-600'}`}>
                     <svg className={`w-8 h-8 ${bot.isAutoPilot ? 'animate-spin [animation-duration:10s]' : (isAlpha ? 'animate-pulse' : '')}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" /></svg>
                   </div>
@@ -230,12 +256,17 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
                     <h4 className={`font-black text-xl tracking-tighter text-white ${isAlpha ? 'text-indigo-400' : ''}`}>{bot.name}</h4>
                     <div className="flex items-center space-x-2 mt-1">
                       <button onClick={() => {
-                        const currentIndex = MINING_ALGORITHMS.indexOf(bot.algorithm);
-                        const nextAlgo = MINING_ALGORITHMS[(currentIndex + 1) % MINING_ALGORITHMS.length];
+                        const allowed = CatalogService.allowedAlgorithms(bot);
+                        const nextAlgo = allowed[(allowed.indexOf(bot.algorithm) + 1) % allowed.length];
                         setAlgoSwitchTarget({ botId: bot.id, nextAlgo });
                       }} className="text-[9px] font-black uppercase px-2 py-0.5 rounded border bg-gray-800 border-gray-700 text-gray-400 hover:border-indigo-500 hover:text-indigo-400 transition-all">{bot.algorithm}</button>
                       <span className="text-[9px] uppercase tracking-widest font-black text-gray-500">{bot.status}</span>
                     </div>
+                    <button onClick={() => setLabelsBot(bot)} title="Edit group, region and tags" className="flex flex-wrap items-center gap-1 mt-2 text-[9px] font-bold text-gray-500 hover:text-indigo-400 transition-all">
+                      <span className="px-1.5 py-0.5 rounded bg-gray-900 border border-gray-800">{bot.group || 'No group'}</span>
+                      <span className="px-1.5 py-0.5 rounded bg-gray-900 border border-gray-800">{regionLabel(bot.region)}</span>
+                      {(bot.tags ?? []).map(tag => <span key={tag} className="text-gray-600">#{tag}</span>)}
+                    </button>
                   </div>
                 </div>
                 <div className="flex flex-grow items-center justify-around px-4 gap-6">
@@ -243,22 +274,37 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
                     <p className="text-[10px] text-gray-600 font-black uppercase mb-1">Compute</p>
                     <p className="font-mono text-2xl font-black text-white">{bot.hashrate.toFixed(1)} <span className="text-xs">MH/s</span></p>
                   </div>
+                  <div className="text-center">
+                    <p className="text-[10px] text-gray-600 font-black uppercase mb-1">Accrued</p>
+                    <p className="font-mono text-2xl font-black text-emerald-400">${(bot.balance || 0).toFixed(2)}</p>
+                    <p className="text-[9px] font-mono text-gray-600">${bot.profit24h.toFixed(2)} gross · <span className={profit.net >= 0 ? 'text-emerald-600' : 'text-rose-500'}>${profit.net.toFixed(2)} net</span> / 24h</p>
+                  </div>
+                  <div className="text-center">
+                    <p className="text-[10px] text-gray-600 font-black uppercase mb-1">ROI</p>
+                    <p className="font-mono text-lg font-black text-indigo-400">{returns.annualRoiPct === null ? '—' : `${returns.annualRoiPct.toFixed(1)}%`}</p>
+                    <p className="text-[9px] font-mono text-gray-600" title={`${Math.round(profit.watts)} W at $${profit.avgPricePerKwh.toFixed(3)}/kWh`}>
+                      {returns.breakEvenAt === null ? (returns.cost > 0 ? 'No break-even' : 'Not purchased') : `Break-even ${new Date(returns.breakEvenAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
                   <div className="text-center">
                     <p className="text-[10px] text-gray-600 font-black uppercase mb-1">Status</p>
                     <div className="flex items-center gap-2 justify-center">
                        {bot.isAutoPilot && <span className="w-1.5 h-1.5 bg-indigo-500 rounded-full animate-ping"></span>}
                        <p className={`font-mono text-xs font-black ${bot.isAutoPilot ? 'text-indigo-400' : 'text-gray-500 uppercase'}`}>{bot.isAutoPilot ? 'Auto-Pilot On' : 'Manual Control'}</p>
                     </div>
+                    {bot.lastAction && <p className="text-[9px] font-mono text-gray-600 mt-1 max-w-[14rem] truncate" title={bot.lastAction}>{bot.lastAction}</p>}
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
                   <button onClick={() => toggleAutoPilot(bot.id)} className={`p-3 rounded-xl border transition-all active:scale-95 ${bot.isAutoPilot ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-gray-900 border-gray-800 text-indigo-400 hover:border-indigo-500'}`}><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg></button>
-                  <button onClick={() => setTuningBot(bot)} className="p-3 rounded-xl bg-gray-900 border border-gray-800 hover:border-indigo-500 text-indigo-400 transition-all active:scale-95"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg></button>
+                  <button onClick={() => openTuning(bot)} className="p-3 rounded-xl bg-gray-900 border border-gray-800 hover:border-indigo-500 text-indigo-400 transition-all active:scale-95"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg></button>
                   <button onClick={() => toggleStatus(bot.id)} className={`p-3 rounded-xl border transition-all active:scale-95 ${bot.status === 'active' ? 'bg-yellow-600/10 border-yellow-600/40 text-yellow-500 hover:bg-yellow-600 hover:text-white' : 'bg-green-600/10 border-green-600/40 text-green-500 hover:bg-green-600 hover:text-white'}`}>{bot.status === 'active' ? (<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>) : (<svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /></svg>)}</button>
+                  {CatalogService.upgradeTargets(bot).length > 0 && <button onClick={() => setUpgradeBot(bot)} title="Upgrade tier" className="p-3 rounded-xl bg-gray-900 border border-gray-800 hover:border-emerald-500 text-emerald-400 transition-all active:scale-95"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" /></svg></button>}
+                  <button onClick={() => setDecommissionBot(bot)} title="Decommission" className="p-3 rounded-xl bg-gray-900 border border-gray-800 hover:border-rose-500 text-rose-400 transition-all active:scale-95"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
                 </div>
               </div>
             );
-          })}
+          }))}
         </div>
         <section className="pt-10">
           <div className="flex items-center space-x-3 mb-8">
@@ -268,8 +314,12 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
               <p className="text-gray-500 text-sm font-medium">Provision institutional-grade cloud hashing hardware instantly.</p>
             </div>
           </div>
+          {catalogError && <p className="text-xs text-red-500 font-bold mb-4">Tier catalog unavailable: {catalogError}</p>}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {BOT_TIERS.map((tier) => (
+            {tiers.map((tier) => {
+              // Estimated on the tier's default algorithm at the default power rate
+              const estimate = ProfitabilityService.breakdown(CatalogService.provision(tier, 0), calculateProjectedValue(tier.hashrate, tier.efficiency), powerSettings);
+              return (
               <div key={tier.tierId} className={`flex flex-col glass-card rounded-3xl border ${tier.colorClass} overflow-hidden group hover:scale-[1.02] transition-all relative p-8 shadow-2xl`}>
                 <div className="flex-1 flex flex-col">
                   <div className="flex justify-between items-start mb-6">
@@ -289,22 +339,33 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
                      <div className="w-full h-1.5 bg-gray-900 rounded-full overflow-hidden">
                         <div className={`h-full bg-${tier.color}-500 shadow-[0_0_10px_rgba(0,0,0,0.5)]`} style={{ width: `${Math.min(100, (tier.hashrate / 2800) * 100)}%` }}></div>
                      </div>
+                     <div className="flex justify-between items-end">
+                        <span className="text-[9px] font-black uppercase text-gray-500 tracking-widest">Power / Lifetime</span>
+                        <span className="font-mono text-xs text-gray-300">{tier.powerWatts} W · {Math.round(tier.lifetimeDays / 365 * 10) / 10} yr</span>
+                     </div>
+                     <div className="flex justify-between items-end">
+                        <span className="text-[9px] font-black uppercase text-gray-500 tracking-widest">Est. Net / Break-even</span>
+                        <span className={`font-mono text-xs ${estimate.net > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>${estimate.net.toFixed(2)}/day · {estimate.net > 0 ? `${Math.ceil(tier.basePrice / estimate.net)} d` : 'never'}</span>
+                     </div>
+                     <p className="text-[9px] text-gray-500 font-bold">{tier.algorithms.join(' · ')}</p>
                   </div>
                   <button onClick={() => handleBuyBot(tier)} className={`w-full py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest transition-all active:scale-95 flex items-center justify-center space-x-2 ${balance >= tier.basePrice ? `bg-${tier.color}-600 hover:bg-${tier.color}-500 text-white shadow-xl shadow-${tier.color}-600/20` : 'bg-gray-800 text-gray-400 border border-gray-700'}`}>
                     <span>{balance >= tier.basePrice ? 'Authorize Provision' : 'Insufficient Bal: Pay with Stripe'}</span>
                   </button>
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
         </section>
+        <FleetArchive />
       {tuningBot && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-          <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={() => setTuningBot(null)}></div>
+          <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={closeTuning}></div>
           <div className="relative w-full max-w-2xl glass-card rounded-3xl p-8 border border-indigo-500/30 shadow-2xl animate-in zoom-in-95 duration-300">
             <div className="flex justify-between items-center mb-6">
               <h3 className="text-xl font-black text-white uppercase tracking-tighter">Bot Tuning: {tuningBot.name}</h3>
-              <button onClick={() => setTuningBot(null)} className="text-gray-500 hover:text-white"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+              <button onClick={closeTuning} className="text-gray-500 hover:text-white"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
               <div className="space-y-8">
@@ -325,19 +386,42 @@ const MiningConsole: React.FC<MiningConsoleProps> = ({ bots, setBots, onPurchase
                     <AreaChart data={projectionTrend}>
                       <defs><linearGradient id="projGrad" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#6366f1" stopOpacity={0.4}/><stop offset="95%" stopColor="#6366f1" stopOpacity={0}/></linearGradient></defs>
                       <XAxis dataKey="time" hide /><YAxis hide domain={['auto', 'auto']} /><Tooltip contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '8px' }} itemStyle={{ color: '#818cf8', fontSize: '12px' }} labelStyle={{ display: 'none' }} /><Area type="monotone" dataKey="profit" stroke="#6366f1" fill="url(#projGrad)" strokeWidth={2} isAnimationActive={false} /></AreaChart></ResponsiveContainer></div></div></div>
-            <div className="grid grid-cols-2 gap-4 mt-8 pt-6 border-t border-gray-800"><button onClick={() => setTuningBot(null)} className="py-3 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20 col-span-2">Sync Tuning Data</button></div></div></div>
+            <div className="grid grid-cols-2 gap-4 mt-8 pt-6 border-t border-gray-800"><button onClick={closeTuning} className="py-3 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20 col-span-2">Sync Tuning Data</button></div></div></div>
+      )}
+      {upgradeBot && (
+        <UpgradeDialog bot={upgradeBot} balance={balance} onConfirm={onUpgrade} onClose={() => setUpgradeBot(null)} />
+      )}
+      {decommissionBot && (
+        <DecommissionDialog bot={decommissionBot} onConfirm={onDecommission} onClose={() => setDecommissionBot(null)} />
+      )}
+      {labelsBot && (
+        <BotLabelsEditor
+          bot={labelsBot}
+          groups={FleetGroupService.groupsOf(bots)}
+          onSave={(updates) => handleSaveLabels(labelsBot.id, updates)}
+          onClose={() => setLabelsBot(null)}
+        />
       )}
       {algoSwitchTarget && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-black/90 backdrop-blur-md" onClick={() => setAlgoSwitchTarget(null)}></div>
           <div className="relative w-full max-md glass-card rounded-3xl p-8 border border-indigo-500/50 shadow-2xl animate-in zoom-in-95 duration-300">
             <h3 className="text-xl font-black text-white uppercase tracking-tighter mb-2">Protocol Shift Initiation</h3>
-            <p className="text-xs text-gray-400 mb-6">Reconfiguring {bots.find(b => b.id === algoSwitchTarget.botId)?.name} core logic.</p>
+            <p className="text-xs text-gray-400 mb-6">Reconfiguring {switchBot?.name} core logic.</p>
             <div className="bg-gray-950/50 p-4 rounded-2xl border border-gray-800 mb-6 space-y-4">
-              <div className="flex justify-between items-center"><span className="text-[10px] font-black uppercase text-gray-500">Current Chain</span><span className="text-sm font-bold text-gray-300">{bots.find(b => b.id === algoSwitchTarget.botId)?.algorithm}</span></div>
+              <div className="flex justify-between items-center"><span className="text-[10px] font-black uppercase text-gray-500">Current Chain</span><span className="text-sm font-bold text-gray-300">{switchBot?.algorithm}</span></div>
               <div className="flex justify-center"><svg className="w-5 h-5 text-indigo-500 animate-bounce" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" /></svg></div>
-              <div className="flex justify-between items-center"><span className="text-[10px] font-black uppercase text-indigo-400">Target Chain</span><span className="text-sm font-bold text-indigo-400">{algoSwitchTarget.nextAlgo}</span></div>
+              <div className="flex justify-between items-center"><span className="text-[10px] font-black uppercase text-indigo-400">Target Chain</span><select value={algoSwitchTarget.nextAlgo} onChange={(e) => setAlgoSwitchTarget({ ...algoSwitchTarget, nextAlgo: e.target.value })} className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-1 text-sm font-bold text-indigo-400">
+                {switchBot && CatalogService.allowedAlgorithms(switchBot).filter(algo => algo !== switchBot.algorithm).map(algo => <option key={algo} value={algo}>{algo}</option>)}
+              </select></div>
             </div>
+            {switchBot && (
+              <SwitchSimulator
+                bot={switchBot}
+                targetAlgo={algoSwitchTarget.nextAlgo}
+                onTargetChange={(nextAlgo) => setAlgoSwitchTarget({ ...algoSwitchTarget, nextAlgo })}
+              />
+            )}
             <div className="grid grid-cols-2 gap-3">
               <button onClick={() => setAlgoSwitchTarget(null)} className="py-3 px-4 bg-gray-800 text-gray-400 font-black text-[10px] uppercase rounded-xl hover:bg-gray-700 transition-all">Abort</button>
               <button onClick={handleConfirmAlgoSwitch} className="py-3 px-4 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20">Confirm Shift</button>
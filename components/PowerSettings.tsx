@@ -0,0 +1,104 @@
+
+import React, { useState } from 'react';
+import { ProfitabilityService, PowerSettings as PowerSettingsConfig, RegionPowerRate, TimeOfUseWindow, DEFAULT_POWER_SETTINGS, DEFAULT_RATE_KEY } from '../services/profitability';
+import { BOT_REGIONS } from '../services/fleetGroups';
+import { LoggerService } from '../services/logger';
+import { LogCategory } from '../types';
+
+const NumberInput: React.FC<{ value: number; step?: number; max?: number; onChange: (value: number) => void }> = ({ value, step = 0.01, max, onChange }) => (
+  <input
+    type="number"
+    min={0}
+    max={max}
+    step={step}
+    value={value}
+    onChange={(e) => onChange(Math.min(max ?? Infinity, Math.max(0, Number(e.target.value) || 0)))}
+    className="w-20 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-white font-bold"
+  />
+);
+
+const RATE_ROWS = [{ id: DEFAULT_RATE_KEY, label: 'Default (no region)' }, ...BOT_REGIONS];
+
+const PowerSettings: React.FC = () => {
+  const [settings, setSettings] = useState<PowerSettingsConfig>(() => ProfitabilityService.getSettings());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const update = (updates: Partial<PowerSettingsConfig>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    setIsDirty(true);
+  };
+
+  const updateRate = (regionId: string, updates: Partial<RegionPowerRate>) => {
+    const current = ProfitabilityService.rateFor(regionId, settings);
+    update({ rates: { ...settings.rates, [regionId]: { ...current, ...updates } } });
+  };
+
+  const updateWindow = (regionId: string, index: number, updates: Partial<TimeOfUseWindow>) => {
+    const rate = ProfitabilityService.rateFor(regionId, settings);
+    updateRate(regionId, { windows: rate.windows.map((w, i) => i === index ? { ...w, ...updates } : w) });
+  };
+
+  const handleSave = () => {
+    ProfitabilityService.saveSettings(settings);
+    setIsDirty(false);
+    LoggerService.log(LogCategory.OPERATION, "Power cost settings changed", { ...settings });
+  };
+
+  const handleReset = () => {
+    setSettings(DEFAULT_POWER_SETTINGS);
+    setIsDirty(true);
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-200">Power & Fees</span>
+          <span className="text-xs text-gray-500 mt-1">Electricity rates per region with time-of-use windows (local hours, end exclusive), plus pool and platform fees. Net profit, ROI and break-even use these.</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleReset} className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-sm font-bold">Defaults</button>
+          <button onClick={handleSave} disabled={!isDirty} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold disabled:opacity-30">Save</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        <span>Pool fee</span>
+        <NumberInput value={settings.poolFeePct} step={0.1} max={100} onChange={(v) => update({ poolFeePct: v })} />
+        <span>% · Platform fee</span>
+        <NumberInput value={settings.platformFeePct} step={0.1} max={100} onChange={(v) => update({ platformFeePct: v })} />
+        <span>%</span>
+      </div>
+
+      <div className="space-y-2">
+        {RATE_ROWS.map(({ id, label }) => {
+          const rate = ProfitabilityService.rateFor(id, settings);
+          return (
+            <div key={id} className="p-3 rounded-lg border border-gray-800 bg-gray-950/50 space-y-2 text-xs text-gray-400">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="w-40 text-sm font-bold text-white">{label}</span>
+                <span>Base $/kWh</span>
+                <NumberInput value={rate.basePricePerKwh} onChange={(v) => updateRate(id, { basePricePerKwh: v })} />
+                <span className="text-gray-600">avg ${ProfitabilityService.averagePrice(rate).toFixed(3)}/kWh</span>
+                <button onClick={() => updateRate(id, { windows: [...rate.windows, { startHour: 17, endHour: 21, pricePerKwh: rate.basePricePerKwh }] })} className="ml-auto text-[10px] font-bold text-indigo-400 hover:text-indigo-300">+ Window</button>
+              </div>
+              {rate.windows.map((w, i) => (
+                <div key={i} className="flex flex-wrap items-center gap-2 pl-4">
+                  <span>From</span>
+                  <NumberInput value={w.startHour} step={1} max={23} onChange={(v) => updateWindow(id, i, { startHour: Math.round(v) })} />
+                  <span>to</span>
+                  <NumberInput value={w.endHour} step={1} max={24} onChange={(v) => updateWindow(id, i, { endHour: Math.round(v) })} />
+                  <span>h at $/kWh</span>
+                  <NumberInput value={w.pricePerKwh} onChange={(v) => updateWindow(id, i, { pricePerKwh: v })} />
+                  <button onClick={() => updateRate(id, { windows: rate.windows.filter((_, j) => j !== i) })} className="text-[10px] font-bold text-gray-600 hover:text-red-400">Remove</button>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PowerSettings;
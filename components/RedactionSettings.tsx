@@ -0,0 +1,78 @@
+
+import React, { useState } from 'react';
+import { RedactionService, RedactionRule, RedactionStrategy, REDACTION_STRATEGY_LABELS, DEFAULT_REDACTION_RULES } from '../services/redaction';
+import { LoggerService } from '../services/logger';
+import { LogCategory } from '../types';
+
+const RedactionSettings: React.FC = () => {
+  const [rules, setRules] = useState<RedactionRule[]>(() => RedactionService.getRules());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const updateRule = (id: string, updates: Partial<RedactionRule>) => {
+    setRules(prev => prev.map(r => r.id === id ? { ...r, ...updates } : r));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    RedactionService.saveRules(rules);
+    setIsDirty(false);
+    LoggerService.log(LogCategory.SECURITY, "Audit redaction rules changed", {
+      enabled: rules.filter(r => r.enabled).map(r => r.id),
+      disabled: rules.filter(r => !r.enabled).map(r => r.id)
+    });
+  };
+
+  const handleReset = () => {
+    setRules(DEFAULT_REDACTION_RULES);
+    setIsDirty(true);
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-200">Audit Log Redaction</span>
+          <span className="text-xs text-gray-500 mt-1">Applied before entries are stored, so exports never contain the originals. Applies to new entries only.</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleReset} className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-sm font-bold">Defaults</button>
+          <button onClick={handleSave} disabled={!isDirty} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold disabled:opacity-30">Save</button>
+        </div>
+      </div>
+
+      {rules.map(rule => (
+        <div key={rule.id} className={`p-3 rounded-lg border space-y-2 ${rule.enabled ? 'border-gray-700 bg-gray-950/50' : 'border-gray-800 opacity-60'}`}>
+          <div className="flex flex-wrap items-center gap-3">
+            <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} className="accent-indigo-500" />
+            <span className="flex-1 text-sm font-bold text-white">{rule.label}</span>
+            <select value={rule.strategy} onChange={(e) => updateRule(rule.id, { strategy: e.target.value as RedactionStrategy })} className="bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-xs font-bold text-white">
+              {(Object.keys(REDACTION_STRATEGY_LABELS) as RedactionStrategy[]).map(s => <option key={s} value={s}>{REDACTION_STRATEGY_LABELS[s]}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <span>Keys</span>
+            <input
+              type="text"
+              value={rule.keys.join(', ')}
+              onChange={(e) => updateRule(rule.id, { keys: e.target.value.split(',').map(k => k.trim()).filter(Boolean) })}
+              spellCheck={false}
+              className="flex-1 min-w-[12rem] bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 font-mono text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            {rule.strategy === 'mask' && (
+              <>
+                <span>keep</span>
+                <input type="number" min={0} value={rule.keepPrefix ?? 4} onChange={(e) => updateRule(rule.id, { keepPrefix: Math.max(0, Number(e.target.value) || 0) })} className="w-14 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-white font-bold" />
+                <span>+</span>
+                <input type="number" min={0} value={rule.keepSuffix ?? 4} onChange={(e) => updateRule(rule.id, { keepSuffix: Math.max(0, Number(e.target.value) || 0) })} className="w-14 bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-white font-bold" />
+                <span>chars</span>
+              </>
+            )}
+          </div>
+          {rule.matchAddresses && <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Also matches any value that validates as a wallet address</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RedactionSettings;
@@ -0,0 +1,137 @@
+
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { TotpService, TOTP_DIGITS } from '../services/totp';
+import { WhitelistService, QUARANTINE_MIN_HOURS, QUARANTINE_MAX_HOURS } from '../services/whitelist';
+
+const QUARANTINE_OPTIONS = [QUARANTINE_MIN_HOURS, 36, QUARANTINE_MAX_HOURS];
+
+const SecuritySettings: React.FC = () => {
+  const [enrolledAt, setEnrolledAt] = useState<number | null>(() => TotpService.getEnrolledAt());
+  const [pendingSecret, setPendingSecret] = useState<string | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [quarantineHours, setQuarantineHours] = useState(() => WhitelistService.getQuarantineHours());
+
+  const otpAuthUri = pendingSecret ? TotpService.getOtpAuthUri(pendingSecret) : null;
+
+  useEffect(() => {
+    if (!otpAuthUri) {
+      setQrDataUrl(null);
+      return;
+    }
+    QRCode.toDataURL(otpAuthUri, { margin: 1, width: 192 })
+      .then(setQrDataUrl)
+      .catch(err => console.error("Failed to render enrollment QR code:", err));
+  }, [otpAuthUri]);
+
+  const resetForm = () => {
+    setCode('');
+    setError(null);
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingSecret) return;
+    const result = await TotpService.enroll(pendingSecret, code);
+    if (!result.ok) {
+      setError(result.reason || 'Enrollment failed.');
+      return;
+    }
+    setPendingSecret(null);
+    setEnrolledAt(TotpService.getEnrolledAt());
+    resetForm();
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await TotpService.disable(code);
+    if (!result.ok) {
+      setError(result.reason || 'Verification failed.');
+      return;
+    }
+    setEnrolledAt(null);
+    setIsDisabling(false);
+    resetForm();
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      maxLength={TOTP_DIGITS}
+      value={code}
+      onChange={(e) => { setCode(e.target.value.replace(/\D/g, '')); setError(null); }}
+      placeholder="6-digit code"
+      className="flex-1 bg-gray-950 border border-gray-800 rounded-lg px-4 py-2 text-sm font-mono tracking-widest text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    />
+  );
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-200">Two-Factor Authentication (TOTP)</span>
+          {enrolledAt ? (
+            <span className="text-xs text-green-500 font-bold uppercase mt-1">Status: Enrolled {new Date(enrolledAt).toLocaleDateString()}</span>
+          ) : (
+            <span className="text-xs text-amber-500 font-bold uppercase mt-1">Status: Not enrolled</span>
+          )}
+        </div>
+        {enrolledAt ? (
+          !isDisabling && <button onClick={() => { setIsDisabling(true); resetForm(); }} className="px-4 py-2 bg-red-600/20 text-red-400 border border-red-600/30 rounded-lg hover:bg-red-600 hover:text-white transition-all text-sm font-bold">Disable</button>
+        ) : (
+          !pendingSecret && <button onClick={() => { setPendingSecret(TotpService.generateSecret()); resetForm(); }} className="px-4 py-2 bg-indigo-600/20 text-indigo-400 border border-indigo-600/30 rounded-lg hover:bg-indigo-600 hover:text-white transition-all text-sm font-bold">Enroll</button>
+        )}
+      </div>
+
+      {pendingSecret && (
+        <form onSubmit={handleConfirmEnrollment} className="space-y-4 pt-4 border-t border-gray-800">
+          <p className="text-xs text-gray-400">Scan the code with an authenticator app, or enter the secret manually, then confirm with the current code.</p>
+          <div className="flex flex-col md:flex-row gap-4 items-start">
+            {qrDataUrl && <img src={qrDataUrl} alt="TOTP enrollment QR code" className="w-48 h-48 rounded-lg bg-white p-1" />}
+            <div className="flex-1 space-y-2 min-w-0">
+              <span className="block text-[10px] font-black uppercase tracking-widest text-gray-500">Secret</span>
+              <code className="block text-sm font-mono text-indigo-300 break-all">{pendingSecret}</code>
+              <span className="block text-[10px] font-black uppercase tracking-widest text-gray-500 pt-2">otpauth URI</span>
+              <code className="block text-[10px] font-mono text-gray-400 break-all">{otpAuthUri}</code>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {codeInput}
+            <button type="submit" disabled={code.length !== TOTP_DIGITS} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold disabled:opacity-30">Confirm</button>
+            <button type="button" onClick={() => { setPendingSecret(null); resetForm(); }} className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-sm font-bold">Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {isDisabling && (
+        <form onSubmit={handleDisable} className="flex gap-2 pt-4 border-t border-gray-800">
+          {codeInput}
+          <button type="submit" disabled={code.length !== TOTP_DIGITS} className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-bold disabled:opacity-30">Confirm Disable</button>
+          <button type="button" onClick={() => { setIsDisabling(false); resetForm(); }} className="px-4 py-2 bg-gray-800 text-gray-400 rounded-lg text-sm font-bold">Cancel</button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-500 font-bold">{error}</p>}
+
+      <div className="flex justify-between items-center pt-4 border-t border-gray-800">
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-200">Whitelist Cooling-Off Period</span>
+          <span className="text-xs text-gray-500 mt-1">Applies to destinations added from now on</span>
+        </div>
+        <select
+          value={quarantineHours}
+          onChange={(e) => { WhitelistService.setQuarantineHours(Number(e.target.value)); setQuarantineHours(WhitelistService.getQuarantineHours()); }}
+          className="bg-gray-950 border border-gray-800 rounded-lg px-3 py-2 text-sm font-bold text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {QUARANTINE_OPTIONS.map(h => <option key={h} value={h}>{h} hours</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default SecuritySettings;
@@ -0,0 +1,104 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { MiningBot } from '../types';
+import { ProfitSwitchingService, RevenueSeries, SwitchingCosts, DEFAULT_SWITCHING_COSTS, SwitchingReport } from '../services/profitSwitching';
+
+interface SwitchSimulatorProps {
+  bot: MiningBot;
+  targetAlgo: string;
+  onTargetChange: (algo: string) => void;
+}
+
+const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+const formatSigned = (value: number, suffix = '') => `${value >= 0 ? '+' : ''}${value.toFixed(1)}${suffix}`;
+const formatHour = (timestamp: number) => new Date(timestamp).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+const CostInput: React.FC<{ label: string; value: number; max?: number; step?: number; onChange: (value: number) => void }> = ({ label, value, max, step = 1, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[9px] font-black uppercase text-gray-500">{label}</span>
+    <input
+      type="number"
+      min={0}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Math.min(max ?? Infinity, Math.max(0, Number(e.target.value) || 0)))}
+      className="w-full bg-gray-950 border border-gray-800 rounded-lg px-2 py-1 text-xs text-white font-bold"
+    />
+  </label>
+);
+
+/**
+ * Replays the recorded algorithm revenue series for one bot and compares
+ * the proposed switch, the best switching schedule and staying put.
+ */
+const SwitchSimulator: React.FC<SwitchSimulatorProps> = ({ bot, targetAlgo, onTargetChange }) => {
+  const [series, setSeries] = useState<RevenueSeries | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [costs, setCosts] = useState<SwitchingCosts>(DEFAULT_SWITCHING_COSTS);
+
+  useEffect(() => {
+    ProfitSwitchingService.loadSeries()
+      .then(setSeries)
+      .catch(err => setLoadError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const result = useMemo((): { report: SwitchingReport } | { error: string } | null => {
+    if (!series) return null;
+    try {
+      return { report: ProfitSwitchingService.simulate(bot, series, costs, targetAlgo) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [bot.algorithm, bot.hashrate, bot.efficiency, series, costs, targetAlgo]);
+
+  const error = loadError ?? (result && 'error' in result ? result.error : null);
+  const report = result && 'report' in result ? result.report : null;
+  const firstOptimal = report?.optimal.schedule[0]?.algorithm;
+
+  return (
+    <div className="bg-gray-950/50 p-4 rounded-2xl border border-gray-800 mb-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase text-gray-500">Switch Simulator</span>
+        {report && <span className="text-[9px] text-gray-600">{report.seriesLabel} · {Math.round(report.horizonMs / 3600000)}h</span>}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <CostInput label="Downtime min" value={costs.downtimeMinutes} onChange={(v) => setCosts(c => ({ ...c, downtimeMinutes: v }))} />
+        <CostInput label="Warm-up min" value={costs.warmupMinutes} onChange={(v) => setCosts(c => ({ ...c, warmupMinutes: v }))} />
+        <CostInput label="Warm-up output" value={costs.warmupEfficiency} max={1} step={0.05} onChange={(v) => setCosts(c => ({ ...c, warmupEfficiency: v }))} />
+      </div>
+
+      {error && <p className="text-xs text-amber-500 font-bold">{error}</p>}
+      {!error && !report && <p className="text-xs text-gray-500">Loading revenue series...</p>}
+      {report && report.target && report.targetGain !== null && report.targetGainPct !== null && (
+        <div className="space-y-2 text-xs">
+          <div className="flex justify-between"><span className="text-gray-500">Stay on {bot.algorithm}</span><span className="font-mono text-gray-300">{formatUsd(report.stay.revenue)}</span></div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Switch to {targetAlgo} and stay</span>
+            <span className={`font-mono ${report.targetGain >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatUsd(report.target.revenue)} ({formatSigned(report.targetGainPct, '%')})</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Optimal schedule · {report.optimal.switches} switch{report.optimal.switches === 1 ? '' : 'es'}</span>
+            <span className="font-mono text-indigo-400">{formatUsd(report.optimal.revenue)} ({formatSigned(report.optimalGainPct, '%')})</span>
+          </div>
+          <p className="text-[10px] text-gray-600">Switching costs in the optimal schedule: {formatUsd(report.optimal.switchingLoss)}</p>
+          <div className="max-h-28 overflow-y-auto space-y-1 pt-2 border-t border-gray-800">
+            {report.optimal.schedule.map(segment => (
+              <div key={segment.start} className="flex justify-between text-[10px] font-mono">
+                <span className="text-gray-500">{formatHour(segment.start)} → {formatHour(segment.end)}</span>
+                <span className="text-gray-300">{segment.algorithm} · {formatUsd(segment.revenue)}</span>
+              </div>
+            ))}
+          </div>
+          {firstOptimal && firstOptimal !== targetAlgo && firstOptimal !== bot.algorithm && (
+            <button onClick={() => onTargetChange(firstOptimal)} className="w-full py-2 bg-indigo-600/20 text-indigo-400 border border-indigo-500/30 rounded-lg text-[10px] font-black uppercase">
+              Target {firstOptimal}, the schedule's first step
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SwitchSimulator;
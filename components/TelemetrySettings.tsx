@@ -0,0 +1,107 @@
+
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import { TelemetryService, TelemetrySourceConfig } from '../services/telemetry';
+import { LoggerService } from '../services/logger';
+import { LogCategory, MiningBot } from '../types';
+
+interface TelemetrySettingsProps {
+  bots: MiningBot[];
+  source: TelemetrySourceConfig;
+  error: string | null;
+  onSourceChange: (config: TelemetrySourceConfig) => void;
+}
+
+const TelemetrySettings: React.FC<TelemetrySettingsProps> = ({ bots, source, error, onSourceChange }) => {
+  const [urlDraft, setUrlDraft] = useState(source.url);
+  const [urlError, setUrlError] = useState<string | null>(null);
+  const [, setRevision] = useState(0);
+
+  // Series live in the service, so re-render as readings land
+  useEffect(() => {
+    const handleRecorded = () => setRevision(r => r + 1);
+    window.addEventListener('telemetry-recorded', handleRecorded);
+    return () => window.removeEventListener('telemetry-recorded', handleRecorded);
+  }, []);
+
+  const handleToggle = () => {
+    onSourceChange({ ...source, enabled: !source.enabled });
+    LoggerService.log(LogCategory.SYSTEM, source.enabled ? "Telemetry ingestion disabled" : "Telemetry ingestion enabled", { url: source.url });
+  };
+
+  const handleSaveUrl = () => {
+    const url = urlDraft.trim();
+    if (!/^wss?:\/\//i.test(url)) {
+      setUrlError('Bridge URL must start with ws:// or wss://');
+      return;
+    }
+    setUrlError(null);
+    onSourceChange({ ...source, url });
+  };
+
+  const now = Date.now();
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-800 space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="font-medium text-gray-200">Rig Telemetry</span>
+          <span className="text-xs text-gray-500 mt-1">Reads hashrate, temperature and share efficiency from the local telemetry bridge (<span className="font-mono">npm run telemetry:bridge</span>). Readings map to bots by id.</span>
+        </div>
+        <button
+          onClick={handleToggle}
+          className={`px-4 py-2 rounded-lg text-sm font-bold border transition-all ${source.enabled ? 'bg-green-600/20 text-green-400 border-green-600/30' : 'bg-gray-800 text-gray-400 border-gray-700'}`}
+        >
+          {source.enabled ? 'Enabled' : 'Disabled'}
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={urlDraft}
+          onChange={(e) => { setUrlDraft(e.target.value); setUrlError(null); }}
+          spellCheck={false}
+          className="flex-1 bg-gray-950 border border-gray-800 rounded-lg px-4 py-2 text-sm font-mono text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button onClick={handleSaveUrl} disabled={urlDraft.trim() === source.url} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold disabled:opacity-30">Save</button>
+      </div>
+      {urlError && <p className="text-xs text-red-500 font-bold">{urlError}</p>}
+      {source.enabled && error && <p className="text-xs text-amber-500 font-bold">{error}</p>}
+
+      <div className="space-y-2">
+        {bots.map(bot => {
+          const series = TelemetryService.getSeries(bot.id);
+          const live = TelemetryService.isLive(bot, now);
+          return (
+            <div key={bot.id} className="flex items-center gap-4 p-3 rounded-lg border border-gray-800 bg-gray-950/50">
+              <div className="w-40 shrink-0">
+                <p className="text-sm font-bold text-white truncate">{bot.name}</p>
+                <p className="text-[10px] text-gray-500 font-mono">id {bot.id}</p>
+              </div>
+              <span className={`text-[9px] font-black uppercase px-2 py-1 rounded-md border ${live ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-gray-800 text-gray-500 border-gray-700'}`}>
+                {live ? 'Live' : bot.lastTelemetryAt ? 'Stale' : 'Manual'}
+              </span>
+              <div className="flex-1 h-8">
+                {series.length > 1 && (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={series}>
+                      <YAxis hide domain={['auto', 'auto']} />
+                      <Line type="monotone" dataKey="hashrate" stroke="#818cf8" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </div>
+              <div className="text-right text-[11px] font-mono text-gray-400 shrink-0">
+                <p>{bot.hashrate.toFixed(1)} MH/s · {bot.temp}°C</p>
+                <p className="text-gray-600">{bot.lastTelemetryAt ? `${Math.round((now - bot.lastTelemetryAt) / 1000)}s ago` : 'no readings'}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TelemetrySettings;
@@ -0,0 +1,70 @@
+
+import React, { useState } from 'react';
+import { TotpService, TOTP_DIGITS } from '../services/totp';
+
+interface TotpChallengeProps {
+  title: string;
+  description: string;
+  /** Audit label for the protected action. */
+  action: string;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+const TotpChallenge: React.FC<TotpChallengeProps> = ({ title, description, action, onVerified, onCancel }) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const enrolled = TotpService.isEnrolled();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    const result = await TotpService.verify(code, action);
+    setIsChecking(false);
+    if (result.ok) {
+      onVerified();
+    } else {
+      setError(result.reason || 'Verification failed.');
+      setCode('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-gray-950/90 backdrop-blur-xl animate-in fade-in" onClick={() => !isChecking && onCancel()}></div>
+      <form onSubmit={handleSubmit} className="relative w-full max-w-md glass-card rounded-[2.5rem] p-10 border border-amber-500/40 shadow-2xl animate-in zoom-in-95">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-amber-500/10 rounded-2xl flex items-center justify-center border border-amber-500/30 mx-auto mb-4">
+            <svg className="w-8 h-8 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+          </div>
+          <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">{title}</h2>
+          <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest mt-1">{description}</p>
+        </div>
+        {enrolled ? (
+          <input
+            type="text"
+            inputMode="numeric"
+            autoFocus
+            maxLength={TOTP_DIGITS}
+            value={code}
+            onChange={(e) => { setCode(e.target.value.replace(/\D/g, '')); setError(null); }}
+            placeholder="XXXXXX"
+            className="w-full bg-gray-950 border border-amber-500/50 rounded-2xl px-6 py-6 text-center focus:outline-none focus:ring-2 focus:ring-amber-500 text-3xl font-black tracking-[0.5em] text-white transition-all shadow-inner"
+          />
+        ) : (
+          <p className="text-xs text-amber-400 text-center font-bold">Two-factor authentication is not enrolled. Open Settings to link an authenticator app.</p>
+        )}
+        {error && <p className="mt-4 text-[10px] text-red-500 font-black uppercase tracking-widest text-center">{error}</p>}
+        <div className="grid grid-cols-2 gap-4 mt-8">
+          <button type="button" disabled={isChecking} onClick={onCancel} className="py-4 px-6 bg-gray-900 text-gray-500 font-black text-[10px] uppercase rounded-2xl border border-gray-800">Cancel</button>
+          <button type="submit" disabled={!enrolled || isChecking || code.length !== TOTP_DIGITS} className="py-4 px-6 bg-amber-600 text-white font-black text-[10px] uppercase rounded-2xl hover:bg-amber-500 shadow-xl shadow-amber-600/30 disabled:opacity-30">
+            {isChecking ? 'Verifying...' : 'Authorize'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TotpChallenge;
@@ -0,0 +1,75 @@
+
+import React, { useState } from 'react';
+import { MiningBot } from '../types';
+import { BotTier, CatalogService } from '../services/catalog';
+
+interface UpgradeDialogProps {
+  bot: MiningBot;
+  balance: number;
+  onConfirm: (botId: string, tierId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const UpgradeDialog: React.FC<UpgradeDialogProps> = ({ bot, balance, onConfirm, onClose }) => {
+  const targets = CatalogService.upgradeTargets(bot);
+  const [targetId, setTargetId] = useState(targets[0]?.tierId ?? '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = targets.find(t => t.tierId === targetId);
+  const price = target ? CatalogService.upgradePrice(bot, target) : 0;
+  const upgraded = target ? CatalogService.upgrade(bot, target) : null;
+
+  const handleConfirm = async () => {
+    if (!target) return;
+    setIsSubmitting(true);
+    setError(null);
+    if (await onConfirm(bot.id, target.tierId)) {
+      onClose();
+    } else {
+      setError(balance < price ? 'Insufficient balance; top up to complete the upgrade.' : 'Ledger posting failed; the bot was left unchanged.');
+      setIsSubmitting(false);
+    }
+  };
+
+  const spec = (tier: BotTier | undefined, label: string) => (
+    <div className="flex-1 p-3 rounded-xl bg-gray-950/50 border border-gray-800 text-xs space-y-1">
+      <span className="text-[9px] font-black uppercase text-gray-500 block">{label}</span>
+      <p className="font-bold text-white">{tier?.name ?? 'Untiered'}</p>
+      {tier && <p className="font-mono text-gray-400">{tier.hashrate} MH/s · {tier.powerWatts} W</p>}
+      {tier && <p className="text-[10px] text-gray-600">{tier.algorithms.join(', ')}</p>}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-md" onClick={isSubmitting ? undefined : onClose}></div>
+      <div className="relative w-full max-w-lg glass-card rounded-3xl p-8 border border-indigo-500/50 shadow-2xl animate-in zoom-in-95 duration-300">
+        <h3 className="text-xl font-black text-white uppercase tracking-tighter mb-2">Upgrade Node</h3>
+        <p className="text-xs text-gray-400 mb-6">{bot.name} keeps its id, balance, labels and metric history.</p>
+        {targets.length > 1 && (
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className="w-full mb-4 bg-gray-950 border border-gray-800 rounded-xl px-4 py-2 text-sm text-white">
+            {targets.map(t => <option key={t.tierId} value={t.tierId}>{t.name}</option>)}
+          </select>
+        )}
+        <div className="flex gap-3 mb-4">
+          {spec(CatalogService.tierFor(bot), 'Current')}
+          {spec(target, 'Upgrade to')}
+        </div>
+        {upgraded && (
+          <div className="bg-gray-950/50 p-4 rounded-2xl border border-gray-800 mb-6 space-y-2 text-xs">
+            <div className="flex justify-between"><span className="text-gray-500">Algorithm after upgrade</span><span className="font-bold text-indigo-400">{upgraded.algorithm}</span></div>
+            <div className="flex justify-between"><span className="text-gray-500">Price difference</span><span className="font-mono font-bold text-white">${price.toFixed(2)}</span></div>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-500 font-bold mb-4">{error}</p>}
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={onClose} disabled={isSubmitting} className="py-3 px-4 bg-gray-800 text-gray-400 font-black text-[10px] uppercase rounded-xl hover:bg-gray-700 transition-all disabled:opacity-30">Abort</button>
+          <button onClick={handleConfirm} disabled={!target || isSubmitting} className="py-3 px-4 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-indigo-500 transition-all shadow-lg shadow-indigo-600/20 disabled:opacity-50">{isSubmitting ? 'Posting...' : `Upgrade for $${price.toFixed(2)}`}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpgradeDialog;
@@ -1,55 +1,83 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { Transaction } from '../App';
 import { LoggerService } from '../services/logger';
-import { LogCategory } from '../types';
+import { AssetService, RateTable, CRYPTO_ASSETS, ASSETS, WITHDRAWAL_LIMITS, LARGE_WITHDRAWAL_USD } from '../services/assets';
+import { TotpService } from '../services/totp';
+import { WhitelistService } from '../services/whitelist';
+import { AddressService } from '../services/address';
+import { AssetSymbol, LogCategory, Transaction, TransactionStatus, WhitelistedAddress } from '../types';
+import TotpChallenge from './TotpChallenge';
+
+// Funds of failed or reversed withdrawals are back in the wallet
+const RELEASED_STATUSES: TransactionStatus[] = ['failed', 'reversed'];
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  requested: 'bg-gray-500/10 text-gray-300 border-gray-500/20',
+  approved: 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20',
+  broadcast: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20 animate-pulse',
+  settled: 'bg-green-500/10 text-green-400 border-green-500/20',
+  confirmed: 'bg-green-500/10 text-green-400 border-green-500/20',
+  pending: 'bg-gray-500/10 text-gray-300 border-gray-500/20',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/20',
+  reversed: 'bg-orange-500/10 text-orange-400 border-orange-500/20'
+};
 
 interface WithdrawalPageProps {
-  balance: number;
-  onWithdraw: (tx: Transaction) => void;
+  balances: Record<AssetSymbol, number>;
+  rates: RateTable;
+  /** Resolves false when the ledger rejected or failed to post the request. */
+  onWithdraw: (tx: Transaction) => Promise<boolean>;
+  onConvert: (from: AssetSymbol, to: AssetSymbol, amount: number) => Promise<boolean>;
   history: Transaction[];
 }
 
-interface WhitelistedAddress {
-  id: string;
-  label: string;
-  address: string;
-  type: string;
-  addedAt: number;
-}
-
 interface ValidationResult {
   isValid: boolean;
   message: string;
   type?: string;
+  asset?: AssetSymbol;
   isWhitelisted: boolean;
-  errorType?: 'format' | 'whitelist' | 'limit';
+  errorType?: 'format' | 'whitelist' | 'quarantine' | 'limit';
   severity: 'none' | 'success' | 'warning' | 'error';
 }
 
-const DAILY_LIMIT = 5000.00;
-const TRANSACTION_LIMIT = 2000.00;
-
-const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, history }) => {
+const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balances, rates, onWithdraw, onConvert, history }) => {
+  const [asset, setAsset] = useState<AssetSymbol>('BTC');
   const [amount, setAmount] = useState('');
   const [walletAddress, setWalletAddress] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [withdrawError, setWithdrawError] = useState<string | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   
-  const [whitelistedAddresses, setWhitelistedAddresses] = useState<WhitelistedAddress[]>(() => {
-    const saved = localStorage.getItem('cloudmine_whitelist');
-    return saved ? JSON.parse(saved) : [
-      { id: '1', label: 'Primary Cold Storage', address: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh', type: 'BTC', addedAt: Date.now() - 1000000 },
-      { id: '2', label: 'MetaMask Vault', address: '0x71C7656EC7ab88b098defB751B7401B5f6d8976F', type: 'ETH', addedAt: Date.now() - 500000 },
-    ];
-  });
+  const [whitelistedAddresses, setWhitelistedAddresses] = useState<WhitelistedAddress[]>(() => WhitelistService.load());
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
-    localStorage.setItem('cloudmine_whitelist', JSON.stringify(whitelistedAddresses));
+    WhitelistService.save(whitelistedAddresses);
   }, [whitelistedAddresses]);
 
+  // Drives the quarantine countdowns; expiries are logged by the service, which this page checks every tick
+  useEffect(() => {
+    const handleExpired = (e: Event) => {
+      const ids = (e as CustomEvent<string[]>).detail;
+      setWhitelistedAddresses(prev => WhitelistService.applyExpiries(prev, ids));
+    };
+    const tick = () => {
+      const time = Date.now();
+      setNow(time);
+      WhitelistService.recordExpiries(time);
+    };
+    window.addEventListener('whitelist-expired', handleExpired);
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => {
+      window.removeEventListener('whitelist-expired', handleExpired);
+      clearInterval(interval);
+    };
+  }, []);
+
   const [showWhitelistModal, setShowWhitelistModal] = useState(false);
   const [newLabel, setNewLabel] = useState('');
   const [newAddress, setNewAddress] = useState('');
@@ -57,71 +85,78 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
   const [showVerificationStep, setShowVerificationStep] = useState(false);
   const [verificationCode, setVerificationCode] = useState('');
   const [isCodeLoading, setIsCodeLoading] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [pendingRemovalId, setPendingRemovalId] = useState<string | null>(null);
+  const [showWithdrawChallenge, setShowWithdrawChallenge] = useState(false);
+
+  const [convertFrom, setConvertFrom] = useState<AssetSymbol>('USD');
+  const [convertTo, setConvertTo] = useState<AssetSymbol>('BTC');
+  const [convertAmount, setConvertAmount] = useState('');
+  const [isConverting, setIsConverting] = useState(false);
+
+  const balance = balances[asset];
+  const limits = WITHDRAWAL_LIMITS[asset];
 
   const dailyUsage = useMemo(() => {
     const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
     return history
-      .filter(tx => tx.timestamp > oneDayAgo && tx.status === 'confirmed')
+      .filter(tx => tx.kind === 'withdrawal' && tx.asset === asset && tx.timestamp > oneDayAgo && !RELEASED_STATUSES.includes(tx.status))
       .reduce((sum, tx) => sum + tx.amount, 0);
-  }, [history]);
+  }, [history, asset]);
 
   const platformFeeRate = 0.05;
   const parsedAmount = parseFloat(amount) || 0;
-  const fee = parsedAmount * platformFeeRate;
-  const netAmount = parsedAmount - fee;
-  const remainingDailyLimit = Math.max(0, DAILY_LIMIT - dailyUsage);
+  const fee = AssetService.round(parsedAmount * platformFeeRate, asset);
+  const netAmount = AssetService.round(parsedAmount - fee, asset);
+  const remainingDailyLimit = Math.max(0, limits.daily - dailyUsage);
+  const requiresSecondFactor = AssetService.requiresSecondFactor(parsedAmount, asset, rates);
+  const parsedConvertAmount = parseFloat(convertAmount) || 0;
+  const convertPreview = AssetService.convert(parsedConvertAmount, convertFrom, convertTo, rates);
 
   const validation: ValidationResult = useMemo(() => {
     const addr = walletAddress.trim();
     if (!addr) return { isValid: false, message: 'Neural validation standby: Enter destination hash.', isWhitelisted: false, severity: 'none' };
 
-    const isWhitelisted = whitelistedAddresses.some(w => w.address.toLowerCase() === addr.toLowerCase());
+    const whitelistEntry = whitelistedAddresses.find(w => w.address.toLowerCase() === addr.toLowerCase());
+    const isWhitelisted = !!whitelistEntry && !WhitelistService.isLocked(whitelistEntry, now);
     
     // Amount limits check
     if (parsedAmount > 0) {
-      if (parsedAmount > TRANSACTION_LIMIT) return { isValid: false, message: `Limit violation. Max payload: $${TRANSACTION_LIMIT}`, isWhitelisted, errorType: 'limit', severity: 'error' };
-      if (dailyUsage + parsedAmount > DAILY_LIMIT) return { isValid: false, message: `Lattice limit reached. Remaining capacity: $${remainingDailyLimit.toFixed(2)}`, isWhitelisted, errorType: 'limit', severity: 'error' };
+      if (parsedAmount > limits.perTransaction) return { isValid: false, message: `Limit violation. Max ${asset} payload: ${AssetService.format(limits.perTransaction, asset)}`, isWhitelisted, errorType: 'limit', severity: 'error' };
+      if (dailyUsage + parsedAmount > limits.daily) return { isValid: false, message: `Lattice limit reached. Remaining ${asset} capacity: ${AssetService.format(remainingDailyLimit, asset)}`, isWhitelisted, errorType: 'limit', severity: 'error' };
     }
 
-    let type = '';
-    let isValidFormat = false;
-
-    // Ethereum Regex
-    if (/^0x[a-fA-F0-9]{40}$/.test(addr)) {
-      isValidFormat = true;
-      type = 'ETH';
-    } 
-    // Bitcoin Bech32 (SegWit) - bc1...
-    else if (/^bc1[a-zA-HJ-NP-Z0-9]{25,62}$/.test(addr)) {
-      isValidFormat = true;
-      type = 'BTC (SegWit)';
-    }
-    // Bitcoin Legacy/P2SH - Starts with 1 or 3
-    else if (/^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(addr)) {
-      isValidFormat = true;
-      type = 'BTC (Legacy)';
-    }
-    // Solana Base58
-    else if (/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(addr)) {
-      isValidFormat = true;
-      type = 'SOL';
-    }
-
-    if (!isValidFormat) {
+    const check = AddressService.validate(addr);
+    if (!check.valid) {
       return { 
         isValid: false, 
-        message: 'Invalid hash format. Protocol rejected.', 
+        message: `Protocol rejected: ${check.reason}`, 
         isWhitelisted: false, 
         errorType: 'format', 
         severity: 'error' 
       };
     }
+    const type = check.type || check.asset || 'UNKNOWN';
+    const detectedAsset = check.asset;
+
+    if (whitelistEntry && !isWhitelisted) {
+      return { 
+        isValid: true, 
+        message: `${type} destination is in its cooling-off period. Unlocks in ${WhitelistService.formatRemaining(whitelistEntry, now)}.`, 
+        type, 
+        asset: detectedAsset,
+        isWhitelisted: false, 
+        errorType: 'quarantine', 
+        severity: 'warning' 
+      };
+    }
 
     if (!isWhitelisted) {
       return { 
         isValid: true, 
-        message: `${type} detected, but NOT in your whitelist.`, 
+        message: `${type} detected, but NOT in your whitelist. ${check.reason}`, 
         type, 
+        asset: detectedAsset,
         isWhitelisted: false, 
         errorType: 'whitelist', 
         severity: 'warning' 
@@ -130,52 +165,74 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
 
     return { 
       isValid: true, 
-      message: `Neural Link Verified: ${type} destination active.`, 
+      message: `Neural Link Verified: ${type} destination active. ${check.reason}`, 
       type, 
+      asset: detectedAsset,
       isWhitelisted: true, 
       severity: 'success' 
     };
-  }, [walletAddress, whitelistedAddresses, parsedAmount, dailyUsage, remainingDailyLimit]);
+  }, [walletAddress, whitelistedAddresses, now, parsedAmount, dailyUsage, remainingDailyLimit, asset, limits]);
 
-  const isInvalid = parsedAmount <= 0 || parsedAmount > balance || !validation.isValid || !validation.isWhitelisted;
+  // The destination chain decides which asset leaves the wallet
+  useEffect(() => {
+    if (validation.asset && validation.asset !== asset) setAsset(validation.asset);
+  }, [validation.asset]);
+
+  const isInvalid = parsedAmount <= 0 || parsedAmount > balance || !validation.isValid || !validation.isWhitelisted || validation.asset !== asset;
+
+  const handleConvert = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsedConvertAmount <= 0 || convertFrom === convertTo || parsedConvertAmount > balances[convertFrom]) return;
+    setIsConverting(true);
+    const ok = await onConvert(convertFrom, convertTo, parsedConvertAmount);
+    setIsConverting(false);
+    if (ok) setConvertAmount('');
+  };
 
   const handleInitiateWithdraw = (e: React.FormEvent) => {
     e.preventDefault();
     if (isInvalid) return;
-    LoggerService.log(LogCategory.FINANCIAL, "Withdrawal process initiated", { amount: parsedAmount, address: walletAddress });
+    setWithdrawError(null);
+    LoggerService.log(LogCategory.FINANCIAL, "Withdrawal process initiated", { asset, amount: parsedAmount, address: walletAddress });
     setShowConfirmModal(true);
   };
 
   const handleConfirmWithdraw = async () => {
     setShowConfirmModal(false);
     setIsProcessing(true);
-    setStatusMessage("Verifying Security Handshake...");
-    await new Promise(r => setTimeout(r, 1200));
-    setStatusMessage(`Validating ${validation.type} Whitelist Integrity...`);
-    await new Promise(r => setTimeout(r, 1000));
-    setStatusMessage("Broadcasting Transaction to Neural Lattice...");
-    await new Promise(r => setTimeout(r, 1500));
-    
+    setStatusMessage("Submitting Withdrawal Request...");
+
     const tx: Transaction = {
       id: `TX-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
       timestamp: Date.now(),
+      kind: 'withdrawal',
+      asset,
       amount: parsedAmount,
       netAmount: netAmount,
+      usdValue: AssetService.isPriced(asset, rates) ? AssetService.toUsd(parsedAmount, asset, rates) : undefined,
       address: walletAddress,
-      status: 'confirmed'
+      status: 'requested'
     };
 
-    onWithdraw(tx);
+    const ok = await onWithdraw(tx);
     setIsProcessing(false);
+    setStatusMessage(null);
+    if (!ok) {
+      // Keep the form filled so the operator can retry; no funds were reserved
+      setWithdrawError('Withdrawal was not submitted: the ledger rejected the posting. No funds left the wallet.');
+      return;
+    }
+    setWithdrawError(null);
     setIsSuccess(true);
     setAmount('');
     setWalletAddress('');
-    setStatusMessage(null);
     setTimeout(() => setIsSuccess(false), 5000);
   };
 
+  const newAddressCheck = useMemo(() => AddressService.validate(newAddress), [newAddress]);
+
   const startWhitelistVerification = async () => {
-    if (!newAddress || !newLabel) return;
+    if (!newAddress || !newLabel || !newAddressCheck.valid) return;
     setIsVerifying(true);
     await new Promise(r => setTimeout(r, 1000));
     setIsVerifying(false);
@@ -186,24 +243,21 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
   const handleFinalizeWhitelist = async () => {
     if (verificationCode.length !== 6) return;
     setIsCodeLoading(true);
-    await new Promise(r => setTimeout(r, 1500));
-    
+    const result = await TotpService.verify(verificationCode, 'whitelist-add');
+    if (!result.ok) {
+      setIsCodeLoading(false);
+      setCodeError(result.reason || 'Verification failed.');
+      setVerificationCode('');
+      return;
+    }
+
     const addr = newAddress.trim();
-    let type = 'UNKNOWN';
-    if (addr.startsWith('0x')) type = 'ETH';
-    else if (addr.startsWith('bc1') || /^[13]/.test(addr)) type = 'BTC';
-    else if (addr.length >= 32 && addr.length <= 44) type = 'SOL';
-
-    const newEntry: WhitelistedAddress = {
-      id: Math.random().toString(36).substr(2, 9),
-      label: newLabel,
-      address: addr,
-      type: type,
-      addedAt: Date.now()
-    };
+    const type = newAddressCheck.asset || 'UNKNOWN';
+
+    const newEntry = WhitelistService.createEntry({ label: newLabel, address: addr, type });
 
     setWhitelistedAddresses(prev => [...prev, newEntry]);
-    LoggerService.log(LogCategory.SECURITY, "New destination hash whitelisted", { label: newLabel, address: addr, type });
+    LoggerService.log(LogCategory.SECURITY, "New destination hash whitelisted", { label: newLabel, address: addr, type, unlocksAt: newEntry.unlocksAt });
     setIsCodeLoading(false);
     setShowWhitelistModal(false);
     setShowVerificationStep(false);
@@ -212,10 +266,24 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
     setNewAddress('');
   };
 
+  // Removal goes through the same 2FA challenge as additions
   const removeWhitelistedAddress = (id: string) => {
+    setPendingRemovalId(id);
+    LoggerService.log(LogCategory.SECURITY, "Whitelist removal challenge issued", { id });
+  };
+
+  const handleRemovalVerified = () => {
+    const addr = whitelistedAddresses.find(w => w.id === pendingRemovalId);
+    setWhitelistedAddresses(prev => prev.filter(w => w.id !== pendingRemovalId));
+    setPendingRemovalId(null);
+    LoggerService.log(LogCategory.SECURITY, "Destination hash removed from whitelist", { label: addr?.label, address: addr?.address });
+  };
+
+  // A pending addition can be withdrawn without 2FA: it only ever reduces access
+  const cancelPendingAddition = (id: string) => {
     const addr = whitelistedAddresses.find(w => w.id === id);
     setWhitelistedAddresses(prev => prev.filter(w => w.id !== id));
-    LoggerService.log(LogCategory.SECURITY, "Destination hash removed from whitelist", { label: addr?.label, address: addr?.address });
+    LoggerService.log(LogCategory.SECURITY, "Pending whitelist addition cancelled", { label: addr?.label, address: addr?.address });
   };
 
   return (
@@ -241,9 +309,16 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
             <form onSubmit={handleInitiateWithdraw} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
-                  <label className="block text-[10px] font-black uppercase tracking-widest text-gray-500 mb-2">Extraction Amount (USD)</label>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="block text-[10px] font-black uppercase tracking-widest text-gray-500">Extraction Amount ({asset})</label>
+                    <div className="flex bg-gray-950 p-0.5 rounded-lg border border-gray-800">
+                      {CRYPTO_ASSETS.map(a => (
+                        <button key={a} type="button" onClick={() => setAsset(a)} className={`px-2 py-0.5 text-[9px] font-black rounded-md transition-all ${asset === a ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{a}</button>
+                      ))}
+                    </div>
+                  </div>
                   <div className="relative">
-                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-indigo-500 font-bold">$</span>
+                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-indigo-500 font-bold text-[10px]">{asset}</span>
                     <input 
                       type="number" 
                       value={amount} 
@@ -253,7 +328,7 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                     />
                   </div>
                   <div className="mt-2 flex justify-between px-1">
-                    <span className="text-[9px] font-black uppercase text-gray-600 tracking-widest">Available: ${balance.toLocaleString()}</span>
+                    <span className="text-[9px] font-black uppercase text-gray-600 tracking-widest">Available: {AssetService.format(balance, asset)} ≈ {AssetService.format(AssetService.toUsd(balance, asset, rates), 'USD')}</span>
                     <button type="button" onClick={() => setAmount(balance.toString())} className="text-[9px] font-black uppercase text-indigo-500 hover:text-indigo-400">Max Out</button>
                   </div>
                 </div>
@@ -320,15 +395,15 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                  <div className="absolute top-0 left-0 w-1 h-full bg-indigo-600 transition-all duration-500 group-hover:w-2"></div>
                  <div className="flex justify-between items-center text-sm">
                     <span className="text-gray-400 font-black uppercase tracking-[0.2em] text-[10px]">Gross Liquidation</span>
-                    <span className="text-white font-mono font-black">${parsedAmount.toFixed(2)}</span>
+                    <span className="text-white font-mono font-black">{AssetService.format(parsedAmount, asset)} <span className="text-gray-500 text-[10px]">≈ {AssetService.format(AssetService.toUsd(parsedAmount, asset, rates), 'USD')}</span></span>
                  </div>
                  <div className="flex justify-between items-center text-sm">
                     <span className="text-gray-400 font-black uppercase tracking-[0.2em] text-[10px]">Neural Processing Fee (5%)</span>
-                    <span className="text-gray-500 font-mono font-bold">-${fee.toFixed(2)}</span>
+                    <span className="text-gray-500 font-mono font-bold">-{AssetService.format(fee, asset)}</span>
                  </div>
                  <div className="flex justify-between items-center text-2xl border-t border-gray-800/50 pt-6">
                     <span className="text-white font-black uppercase tracking-tighter italic text-base">Net Extraction Payload</span>
-                    <span className="text-green-400 font-black font-mono tracking-tighter">${netAmount > 0 ? netAmount.toFixed(2) : '0.00'}</span>
+                    <span className="text-green-400 font-black font-mono tracking-tighter">{AssetService.format(netAmount > 0 ? netAmount : 0, asset)}</span>
                  </div>
               </div>
 
@@ -349,6 +424,8 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                   </>
                 )}
               </button>
+              {withdrawError && <p className="text-xs text-red-500 font-bold">{withdrawError}</p>}
+              {isSuccess && <p className="text-xs text-green-400 font-bold">Withdrawal request submitted. Track its settlement in the transaction history.</p>}
             </form>
           </div>
 
@@ -379,11 +456,16 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                             {tx.address.substring(0, 16)}...{tx.address.substring(tx.address.length - 8)}
                           </span>
                         </td>
-                        <td className="px-6 py-4 font-mono text-sm text-white font-black">${tx.netAmount.toFixed(2)}</td>
+                        <td className="px-6 py-4 font-mono text-sm text-white font-black">
+                          {AssetService.format(tx.netAmount, tx.asset)}
+                          {tx.asset !== 'USD' && tx.usdValue !== undefined && <span className="block text-[9px] text-gray-600">≈ {AssetService.format(tx.usdValue, 'USD')}</span>}
+                        </td>
                         <td className="px-6 py-4 text-right">
-                          <span className="text-[9px] font-black uppercase bg-green-500/10 text-green-400 px-2.5 py-1 rounded-lg border border-green-500/20 shadow-sm">
+                          <span className={`text-[9px] font-black uppercase px-2.5 py-1 rounded-lg border shadow-sm ${STATUS_STYLES[tx.status]}`}>
                             {tx.status}
+                            {tx.status === 'broadcast' && tx.requiredConfirmations !== undefined && ` ${tx.confirmations ?? 0}/${tx.requiredConfirmations}`}
                           </span>
+                          {tx.failureReason && <span className="block mt-1 text-[9px] text-red-400/80">{tx.failureReason}</span>}
                         </td>
                       </tr>
                     ))
@@ -403,18 +485,60 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
             <div className="space-y-6">
               <div>
                 <div className="flex justify-between items-center text-[10px] mb-2">
-                  <span className="text-gray-500 font-black uppercase tracking-widest">24H Lattice Capacity</span>
-                  <span className="text-white font-mono font-black">${dailyUsage.toFixed(0)} / $${DAILY_LIMIT.toFixed(0)}</span>
+                  <span className="text-gray-500 font-black uppercase tracking-widest">24H {asset} Capacity</span>
+                  <span className="text-white font-mono font-black">{AssetService.format(dailyUsage, asset)} / {AssetService.format(limits.daily, asset)}</span>
                 </div>
                 <div className="w-full h-2 bg-gray-900 rounded-full overflow-hidden shadow-inner border border-white/5">
                   <div 
-                    className={`h-full transition-all duration-1000 ease-out ${dailyUsage > DAILY_LIMIT * 0.8 ? 'bg-red-500 shadow-[0_0_10px_rgba(239,68,68,0.5)]' : 'bg-yellow-500 shadow-[0_0_10px_rgba(234,179,8,0.3)]'}`} 
-                    style={{ width: `${Math.min(100, (dailyUsage / DAILY_LIMIT) * 100)}%` }} 
+                    className={`h-full transition-all duration-1000 ease-out ${dailyUsage > limits.daily * 0.8 ? 'bg-red-500 shadow-[0_0_10px_rgba(239,68,68,0.5)]' : 'bg-yellow-500 shadow-[0_0_10px_rgba(234,179,8,0.3)]'}`} 
+                    style={{ width: `${Math.min(100, (dailyUsage / limits.daily) * 100)}%` }} 
                   />
                 </div>
                 <p className="mt-3 text-[9px] text-gray-600 font-black uppercase tracking-widest leading-relaxed">System resets automatically every 24H cycle. Use whitelisted cold-storage for large payload extraction.</p>
               </div>
+              <div className="space-y-2 pt-4 border-t border-yellow-500/10">
+                {CRYPTO_ASSETS.map(a => (
+                  <div key={a} className="flex justify-between text-[9px] font-black uppercase tracking-widest">
+                    <span className={a === asset ? 'text-yellow-500' : 'text-gray-600'}>{a} limits</span>
+                    <span className="text-gray-400 font-mono">{WITHDRAWAL_LIMITS[a].perTransaction} / tx · {WITHDRAWAL_LIMITS[a].daily} / 24h</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="glass-card p-8 rounded-3xl border border-emerald-500/20 bg-emerald-500/5 shadow-2xl">
+            <h3 className="text-[11px] font-black uppercase tracking-[0.2em] text-emerald-400 mb-6">Asset Vault</h3>
+            <div className="space-y-3 mb-6">
+              {ASSETS.map(a => (
+                <div key={a} className="flex justify-between items-center">
+                  <div>
+                    <p className="text-xs font-black text-white font-mono">{AssetService.format(balances[a], a)}</p>
+                    {a !== 'USD' && <p className="text-[8px] text-gray-600 font-mono uppercase">1 {a} = {AssetService.format(rates[a], 'USD')}</p>}
+                  </div>
+                  <span className="text-[10px] text-gray-500 font-mono">≈ {AssetService.format(AssetService.toUsd(balances[a], a, rates), 'USD')}</span>
+                </div>
+              ))}
             </div>
+            <form onSubmit={handleConvert} className="space-y-3 pt-4 border-t border-emerald-500/10">
+              <div className="flex items-center gap-2">
+                <select value={convertFrom} onChange={(e) => setConvertFrom(e.target.value as AssetSymbol)} className="flex-1 bg-gray-950 border border-gray-800 rounded-xl px-3 py-2 text-[10px] font-black text-white focus:outline-none">
+                  {ASSETS.map(a => <option key={a} value={a}>{a}</option>)}
+                </select>
+                <span className="text-gray-600 text-xs">→</span>
+                <select value={convertTo} onChange={(e) => setConvertTo(e.target.value as AssetSymbol)} className="flex-1 bg-gray-950 border border-gray-800 rounded-xl px-3 py-2 text-[10px] font-black text-white focus:outline-none">
+                  {ASSETS.map(a => <option key={a} value={a}>{a}</option>)}
+                </select>
+              </div>
+              <input type="number" value={convertAmount} onChange={(e) => setConvertAmount(e.target.value)} placeholder={`Amount in ${convertFrom}`} className="w-full bg-gray-950 border border-gray-800 rounded-xl px-4 py-2 text-xs font-mono text-white focus:outline-none focus:ring-1 focus:ring-emerald-500" />
+              <div className="flex justify-between text-[9px] font-black uppercase tracking-widest text-gray-500">
+                <span>Receive</span>
+                <span className="text-emerald-400 font-mono">{AssetService.format(convertPreview, convertTo)}</span>
+              </div>
+              <button type="submit" disabled={isConverting || convertFrom === convertTo || parsedConvertAmount <= 0 || parsedConvertAmount > balances[convertFrom]} className="w-full py-3 bg-emerald-600 text-white font-black text-[10px] uppercase rounded-xl hover:bg-emerald-500 transition-all disabled:opacity-30 disabled:cursor-not-allowed">
+                {isConverting ? 'Settling...' : 'Convert'}
+              </button>
+            </form>
           </div>
 
           <div className="glass-card p-8 rounded-3xl border border-indigo-500/20 bg-indigo-600/5 relative group overflow-hidden shadow-2xl">
@@ -428,8 +552,10 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
               </button>
             </h3>
             <div className="space-y-4 max-h-[400px] overflow-y-auto scrollbar-thin scrollbar-thumb-indigo-500/20 pr-1">
-              {whitelistedAddresses.map(addr => (
-                <div key={addr.id} className="p-4 bg-gray-950 border border-gray-800 rounded-2xl flex flex-col space-y-3 group/item hover:border-indigo-500/40 transition-all shadow-lg">
+              {whitelistedAddresses.map(addr => {
+                const locked = WhitelistService.isLocked(addr, now);
+                return (
+                <div key={addr.id} className={`p-4 bg-gray-950 border rounded-2xl flex flex-col space-y-3 group/item transition-all shadow-lg ${locked ? 'border-amber-500/30' : 'border-gray-800 hover:border-indigo-500/40'}`}>
                   <div className="flex justify-between items-start">
                     <div>
                       <p className="text-xs font-black text-white uppercase tracking-tighter italic">{addr.label}</p>
@@ -438,7 +564,7 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                         <span className="text-[8px] text-gray-600 font-mono">ID: {addr.id}</span>
                       </div>
                     </div>
-                    <button onClick={() => removeWhitelistedAddress(addr.id)} className="text-gray-700 hover:text-red-500 transition-colors">
+                    <button onClick={() => locked ? cancelPendingAddition(addr.id) : removeWhitelistedAddress(addr.id)} title={locked ? 'Cancel pending addition' : 'Remove destination'} className="text-gray-700 hover:text-red-500 transition-colors">
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
                     </button>
                   </div>
@@ -446,8 +572,15 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                     <p className="text-[9px] font-mono text-gray-500 break-all leading-relaxed relative z-10 group-hover/hash:text-indigo-300 transition-colors">{addr.address}</p>
                     <div className="absolute top-0 right-0 w-8 h-full bg-gradient-to-l from-black/80 to-transparent pointer-events-none"></div>
                   </div>
+                  {locked && (
+                    <div className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest">
+                      <span className="text-amber-500 animate-pulse">Quarantined</span>
+                      <span className="text-amber-400 font-mono">Unlocks in {WhitelistService.formatRemaining(addr, now)}</span>
+                    </div>
+                  )}
                 </div>
-              ))}
+                );
+              })}
               <button onClick={() => setShowWhitelistModal(true)} className="w-full py-5 border border-dashed border-gray-800 rounded-2xl text-[10px] font-black uppercase text-gray-600 hover:border-indigo-500/50 hover:text-indigo-400 hover:bg-indigo-600/5 transition-all flex items-center justify-center space-x-3 group">
                 <svg className="w-5 h-5 group-hover:rotate-90 transition-transform duration-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" /></svg>
                 <span>Provision New Vault Hash</span>
@@ -478,10 +611,16 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                   <div>
                     <label className="block text-[10px] font-black uppercase tracking-widest text-gray-500 mb-2">Hardware Hash (BTC/ETH/SOL)</label>
                     <input type="text" value={newAddress} onChange={(e) => setNewAddress(e.target.value)} placeholder="Paste address hash..." className="w-full bg-gray-950 border border-gray-800 rounded-2xl px-6 py-4 focus:outline-none focus:ring-2 focus:ring-indigo-500 text-xs font-mono text-white transition-all shadow-inner" />
+                    {newAddress.trim() && (
+                      <p className={`mt-2 text-[10px] font-mono ${newAddressCheck.valid ? 'text-green-500' : 'text-red-500'}`}>
+                        {newAddressCheck.valid ? `${newAddressCheck.type}: ${newAddressCheck.reason}` : newAddressCheck.reason}
+                      </p>
+                    )}
                   </div>
+                  <p className="text-[10px] text-amber-500/80 font-bold">New destinations are quarantined for {WhitelistService.getQuarantineHours()}h before they can receive withdrawals.</p>
                   <div className="grid grid-cols-2 gap-4 pt-4">
                     <button onClick={() => setShowWhitelistModal(false)} className="py-4 px-6 bg-gray-900 text-gray-500 font-black text-[10px] uppercase rounded-2xl border border-gray-800 hover:bg-gray-800 transition-all">Abort</button>
-                    <button disabled={!newAddress || !newLabel} onClick={startWhitelistVerification} className="py-4 px-6 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-2xl hover:bg-indigo-500 transition-all shadow-xl shadow-indigo-600/30 disabled:opacity-30">Verify Link</button>
+                    <button disabled={!newAddress || !newLabel || !newAddressCheck.valid} onClick={startWhitelistVerification} className="py-4 px-6 bg-indigo-600 text-white font-black text-[10px] uppercase rounded-2xl hover:bg-indigo-500 transition-all shadow-xl shadow-indigo-600/30 disabled:opacity-30">Verify Link</button>
                   </div>
                 </div>
               </>
@@ -492,7 +631,7 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                     <svg className="w-8 h-8 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
                   </div>
                   <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Auth Challenge</h2>
-                  <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest mt-1">2FA confirmation required</p>
+                  <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest mt-1">Enter the code from your authenticator app</p>
                 </div>
                 <div className="space-y-6">
                   <div>
@@ -500,10 +639,12 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
                       type="text" 
                       maxLength={6} 
                       value={verificationCode} 
-                      onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, ''))} 
+                      onChange={(e) => { setVerificationCode(e.target.value.replace(/\D/g, '')); setCodeError(null); }} 
                       placeholder="XXXXXX" 
                       className="w-full bg-gray-950 border border-indigo-500/50 rounded-2xl px-6 py-6 text-center focus:outline-none focus:ring-2 focus:ring-indigo-500 text-3xl font-black tracking-[0.5em] text-white transition-all shadow-inner" 
                     />
+                    {!TotpService.isEnrolled() && <p className="mt-3 text-[10px] text-amber-400 font-bold text-center">Enroll an authenticator app in Settings to provision new destinations.</p>}
+                    {codeError && <p className="mt-3 text-[10px] text-red-500 font-black uppercase tracking-widest text-center">{codeError}</p>}
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <button disabled={isCodeLoading} onClick={() => setShowVerificationStep(false)} className="py-4 px-6 bg-gray-900 text-gray-500 font-black text-[10px] uppercase rounded-2xl border border-gray-800">Back</button>
@@ -516,6 +657,26 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
         </div>
       )}
 
+      {pendingRemovalId && (
+        <TotpChallenge
+          title="Remove Destination"
+          description="2FA required to revoke a whitelisted hash"
+          action="whitelist-remove"
+          onVerified={handleRemovalVerified}
+          onCancel={() => setPendingRemovalId(null)}
+        />
+      )}
+
+      {showWithdrawChallenge && (
+        <TotpChallenge
+          title="Large Withdrawal"
+          description={AssetService.isPriced(asset, rates) ? `2FA required above ${AssetService.format(LARGE_WITHDRAWAL_USD, 'USD')}` : `2FA required while no ${asset} price is available`}
+          action="withdrawal"
+          onVerified={() => { setShowWithdrawChallenge(false); handleConfirmWithdraw(); }}
+          onCancel={() => setShowWithdrawChallenge(false)}
+        />
+      )}
+
       {showConfirmModal && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-gray-950/95 backdrop-blur-3xl animate-in fade-in" onClick={() => setShowConfirmModal(false)}></div>
@@ -539,15 +700,15 @@ const WithdrawalPage: React.FC<WithdrawalPageProps> = ({ balance, onWithdraw, hi
               </div>
               <div className="flex justify-between items-center text-3xl pt-8 mt-4 border-t border-gray-800">
                 <span className="text-white font-black uppercase tracking-tighter italic text-xs">Net Payload</span>
-                <span className="text-green-400 font-black font-mono tracking-tighter animate-pulse">${netAmount.toFixed(2)}</span>
+                <span className="text-green-400 font-black font-mono tracking-tighter animate-pulse">{AssetService.format(netAmount, asset)}</span>
               </div>
             </div>
             
             <div className="grid grid-cols-2 gap-4 mt-10">
               <button onClick={() => setShowConfirmModal(false)} className="py-5 px-6 bg-gray-900 text-gray-500 font-black text-[11px] uppercase rounded-[1.5rem] border border-gray-800 hover:bg-gray-800 transition-all">Cancel Trace</button>
-              <button onClick={handleConfirmWithdraw} className="py-5 px-6 bg-green-600 text-white font-black text-[11px] uppercase rounded-[1.5rem] hover:bg-green-500 shadow-2xl shadow-green-600/30 active:scale-95 flex items-center justify-center space-x-3">
+              <button onClick={() => requiresSecondFactor ? setShowWithdrawChallenge(true) : handleConfirmWithdraw()} className="py-5 px-6 bg-green-600 text-white font-black text-[11px] uppercase rounded-[1.5rem] hover:bg-green-500 shadow-2xl shadow-green-600/30 active:scale-95 flex items-center justify-center space-x-3">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
-                <span>Authorize Execution</span>
+                <span>{requiresSecondFactor ? 'Authorize with 2FA' : 'Authorize Execution'}</span>
               </button>
             </div>
             <p className="text-[8px] text-gray-700 text-center mt-6 font-mono uppercase tracking-widest">Signed_via_Lattice_Auth: {new Date().toISOString()}</p>
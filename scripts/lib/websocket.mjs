@@ -0,0 +1,99 @@
+
+// Minimal RFC 6455 server-side WebSocket support for the local dev servers.
+// Handles text frames, ping/pong and close; no extensions or fragmentation.
+import { createHash } from 'node:crypto';
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Completes the upgrade handshake and returns a small connection object:
+ * `{ send(text), close(), onMessage, onClose }`.
+ */
+export const acceptWebSocket = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return null;
+  }
+  const accept = createHash('sha1').update(key + GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+
+  const conn = {
+    open: true,
+    onMessage: () => {},
+    onClose: () => {},
+    send(text) {
+      if (conn.open) socket.write(encodeFrame(0x1, Buffer.from(text)));
+    },
+    close() {
+      if (!conn.open) return;
+      conn.open = false;
+      socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+    }
+  };
+
+  let buffer = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === 0x1) conn.onMessage(payload.toString('utf8'));
+      else if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+      else if (opcode === 0x8) conn.close();
+    }
+  });
+  socket.on('close', () => {
+    conn.open = false;
+    conn.onClose();
+  });
+  socket.on('error', () => socket.destroy());
+
+  return conn;
+};
@@ -0,0 +1,87 @@
+
+// Local mock exchange for the WebSocket market data provider.
+//
+//   npm run mock:exchange -- [--port 8787] [--interval 1000] [--replay public/market/btc-usd-sample.csv]
+//
+// Streams one candle per interval for each symbol. With --replay, BTC-USD is
+// read from a recorded CSV instead of the seeded random walk.
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { acceptWebSocket } from './lib/websocket.mjs';
+
+const args = Object.fromEntries(
+  process.argv.slice(2).reduce((pairs, arg, i, all) => {
+    if (arg.startsWith('--')) pairs.push([arg.slice(2), all[i + 1]]);
+    return pairs;
+  }, [])
+);
+
+const PORT = Number(args.port || 8787);
+const INTERVAL_MS = Number(args.interval || 1000);
+
+// Deterministic PRNG so two runs with the same seed stream the same prices
+let seed = Number(args.seed || 42);
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const walkers = {
+  'BTC-USD': { price: 94500.5, step: 25 },
+  'ETH-USD': { price: 3350.2, step: 2.5 },
+  'SOL-USD': { price: 188.4, step: 0.4 }
+};
+
+let replay = null;
+if (args.replay) {
+  const [header, ...lines] = readFileSync(args.replay, 'utf8').trim().split(/\r?\n/);
+  const cols = header.split(',');
+  replay = lines.map(line => Object.fromEntries(line.split(',').map((v, i) => [cols[i], v])));
+}
+let replayCursor = 0;
+
+const nextCandles = () => {
+  const timestamp = Date.now();
+  return Object.entries(walkers).map(([symbol, w]) => {
+    if (symbol === 'BTC-USD' && replay) {
+      const row = replay[replayCursor++ % replay.length];
+      return { type: 'candle', symbol, timestamp, open: +row.open, high: +row.high, low: +row.low, close: +row.close, volume: +row.volume };
+    }
+    const open = w.price;
+    const close = open + (random() - 0.5) * w.step * 2;
+    w.price = close;
+    return {
+      type: 'candle',
+      symbol,
+      timestamp,
+      open,
+      high: Math.max(open, close) + random() * w.step * 0.5,
+      low: Math.min(open, close) - random() * w.step * 0.5,
+      close,
+      volume: +(random() * 20).toFixed(4)
+    };
+  });
+};
+
+const clients = new Set();
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`CloudMine mock exchange: connect a WebSocket to ws://localhost:${PORT}\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const conn = acceptWebSocket(req, socket);
+  if (!conn) return;
+  clients.add(conn);
+  conn.onClose = () => clients.delete(conn);
+  console.log(`[mock-exchange] client connected (${clients.size} total)`);
+});
+
+setInterval(() => {
+  const payload = JSON.stringify(nextCandles());
+  clients.forEach(conn => conn.send(payload));
+}, INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`[mock-exchange] streaming ${Object.keys(walkers).join(', ')} on ws://localhost:${PORT}`);
+});
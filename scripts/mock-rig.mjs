@@ -0,0 +1,163 @@
+// Simulated mining rig speaking the cgminer TCP API, for testing telemetry.
+//
+//   npm run mock:rig -- [--port 4028] [--mhs 125] [--temp 55] [--boards 3] [--seed 7]
+//   npm run mock:rig -- --push http://localhost:8788/telemetry --bot 1 [--interval 5000]
+//
+// Answers `summary`, `devs`, `version` and joined commands like `summary+devs`
+// so the telemetry bridge can poll it with --rig <botId>=127.0.0.1:<port>.
+// With --push it also POSTs its summary to the bridge on an interval.
+// Type `fault` + Enter to kill a board and `heal` to bring it back.
+import { createServer } from 'node:net';
+
+const args = Object.fromEntries(
+  process.argv.slice(2).reduce((pairs, arg, i, all) => {
+    if (arg.startsWith('--')) pairs.push([arg.slice(2), all[i + 1]]);
+    return pairs;
+  }, [])
+);
+
+const PORT = Number(args.port || 4028);
+const TARGET_MHS = Number(args.mhs || 125);
+const AMBIENT_TEMP = Number(args.temp || 55);
+const BOARD_COUNT = Number(args.boards || 3);
+const PUSH_INTERVAL_MS = Number(args.interval || 5000);
+const startedAt = Date.now();
+
+// Deterministic PRNG so two runs with the same seed report the same curve
+let seed = Number(args.seed || 7);
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const boards = Array.from({ length: BOARD_COUNT }, (_, id) => ({
+  id,
+  status: 'Alive',
+  mhs: TARGET_MHS / BOARD_COUNT,
+  temp: AMBIENT_TEMP + id,
+  accepted: 0,
+  rejected: 0,
+  hwErrors: 0
+}));
+
+// Hashrate wanders around target; temperature follows load with some lag
+const step = () => boards.forEach(board => {
+  if (board.status !== 'Alive') {
+    board.mhs = 0;
+    board.temp += (AMBIENT_TEMP - 20 - board.temp) * 0.1;
+    return;
+  }
+  const target = TARGET_MHS / BOARD_COUNT;
+  board.mhs = Math.max(0, board.mhs + (target - board.mhs) * 0.2 + (random() - 0.5) * target * 0.06);
+  board.temp += (AMBIENT_TEMP + board.id + (board.mhs / target - 1) * 20 - board.temp) * 0.15 + (random() - 0.5) * 0.8;
+  board.accepted += Math.round(board.mhs / 10 * random());
+  if (random() < 0.08) board.rejected += 1;
+  if (random() < 0.03) board.hwErrors += 1;
+});
+setInterval(step, 1000);
+
+const status = (msg, code) => [{ STATUS: 'S', When: Math.floor(Date.now() / 1000), Code: code, Msg: msg, Description: 'mock-rig 1.0' }];
+
+const devs = () => ({
+  STATUS: status(`${boards.length} ASC(s)`, 9),
+  DEVS: boards.map(b => ({
+    ASC: b.id,
+    Name: 'MCK',
+    ID: b.id,
+    Enabled: 'Y',
+    Status: b.status,
+    Temperature: +b.temp.toFixed(1),
+    'MHS av': +b.mhs.toFixed(3),
+    'MHS 5s': +b.mhs.toFixed(3),
+    Accepted: b.accepted,
+    Rejected: b.rejected,
+    'Hardware Errors': b.hwErrors
+  }))
+});
+
+const summary = () => {
+  const total = (field) => boards.reduce((acc, b) => acc + b[field], 0);
+  return {
+    STATUS: status('Summary', 11),
+    SUMMARY: [{
+      Elapsed: Math.floor((Date.now() - startedAt) / 1000),
+      'MHS av': +total('mhs').toFixed(3),
+      'MHS 5s': +total('mhs').toFixed(3),
+      Accepted: total('accepted'),
+      Rejected: total('rejected'),
+      'Hardware Errors': total('hwErrors')
+    }]
+  };
+};
+
+const commands = {
+  summary,
+  devs,
+  version: () => ({ STATUS: status('CGMiner versions', 22), VERSION: [{ CGMiner: '4.11.1', API: '3.7' }] })
+};
+
+const respond = (command) => {
+  const names = String(command || '').split('+');
+  const unknown = names.find(name => !commands[name]);
+  if (unknown) return { STATUS: [{ STATUS: 'E', When: Math.floor(Date.now() / 1000), Code: 14, Msg: 'Invalid command', Description: 'mock-rig 1.0' }] };
+  if (names.length === 1) return { ...commands[names[0]](), id: 1 };
+  return Object.fromEntries(names.map(name => [name, [{ ...commands[name](), id: 1 }]]));
+};
+
+const server = createServer(socket => {
+  socket.setEncoding('utf8');
+  let request = '';
+  socket.on('data', chunk => {
+    request += chunk;
+    const text = request.replace(/\0+$/, '').trim();
+    let command;
+    if (text.startsWith('{')) {
+      try {
+        command = JSON.parse(text).command;
+      } catch {
+        return; // Wait for the rest of the JSON request
+      }
+    } else {
+      // Plain-text form: "summary" or "summary|param"
+      command = text.split('|')[0];
+    }
+    socket.end(JSON.stringify(respond(command)) + '\0');
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+if (args.push) {
+  if (!args.bot) {
+    console.error('[mock-rig] --push needs --bot <botId>');
+    process.exit(1);
+  }
+  setInterval(async () => {
+    try {
+      const res = await fetch(`${args.push}?botId=${encodeURIComponent(args.bot)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(respond('summary+devs'))
+      });
+      if (!res.ok) console.error(`[mock-rig] push rejected: ${res.status}`);
+    } catch (err) {
+      console.error(`[mock-rig] push failed: ${err.message}`);
+    }
+  }, PUSH_INTERVAL_MS);
+}
+
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', line => {
+  const cmd = line.trim();
+  if (cmd === 'fault') {
+    boards[0].status = 'Dead';
+    console.log('[mock-rig] board 0 marked Dead');
+  } else if (cmd === 'heal') {
+    boards.forEach(b => { b.status = 'Alive'; });
+    console.log('[mock-rig] all boards Alive');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-rig] ${BOARD_COUNT} boards at ~${TARGET_MHS} MH/s, cgminer API on tcp://127.0.0.1:${PORT}`);
+  if (args.push) console.log(`[mock-rig] pushing to ${args.push} as bot ${args.bot} every ${PUSH_INTERVAL_MS}ms`);
+});
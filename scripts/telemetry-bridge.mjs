@@ -0,0 +1,175 @@
+// Local telemetry bridge between mining rigs and the browser.
+//
+//   npm run telemetry:bridge -- [--port 8788] [--host 127.0.0.1] [--poll 5000]
+//     [--rig 1=127.0.0.1:4028 --rig 2=10.0.0.12:4028] [--allow-origin http://localhost:3000]
+//
+// Readings reach the bridge three ways and are fanned out to every WebSocket
+// client on ws://localhost:<port>:
+//   - polling: each --rig <botId>=<host>:<port> is queried over the
+//     cgminer/BFGMiner TCP API with `summary+devs` every --poll ms
+//   - HTTP:    POST /telemetry?botId=<id> with a JSON reading or a raw
+//     cgminer API response as the body
+//   - WebSocket: any JSON message a client sends is rebroadcast
+// The browser does the normalisation (services/telemetry.ts); the bridge only
+// tags messages with botId, source and timestamp.
+//
+// Readings can fault bots, so the bridge only listens on loopback unless
+// --host says otherwise, and refuses browser requests and WebSocket upgrades
+// whose Origin is not the app (the Vite dev server by default; add more with
+// --allow-origin). Clients that send no Origin, like rigs and scripts, are
+// accepted.
+import { createServer } from 'node:http';
+import { connect } from 'node:net';
+import { acceptWebSocket } from './lib/websocket.mjs';
+
+const argv = process.argv.slice(2);
+const args = Object.fromEntries(
+  argv.reduce((pairs, arg, i, all) => {
+    if (arg.startsWith('--')) pairs.push([arg.slice(2), all[i + 1]]);
+    return pairs;
+  }, [])
+);
+const rigArgs = argv.filter((arg, i) => argv[i - 1] === '--rig');
+const originArgs = argv.filter((arg, i) => argv[i - 1] === '--allow-origin');
+
+const PORT = Number(args.port || 8788);
+const HOST = args.host || '127.0.0.1';
+const ALLOWED_ORIGINS = new Set(['http://localhost:3000', 'http://127.0.0.1:3000', ...originArgs]);
+const POLL_MS = Number(args.poll || 5000);
+const API_TIMEOUT_MS = 3000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const rigs = rigArgs.map(spec => {
+  const match = /^([^=]+)=([^:]+):(\d+)$/.exec(spec);
+  if (!match) {
+    console.error(`[telemetry-bridge] ignoring --rig ${spec} (expected <botId>=<host>:<port>)`);
+    return null;
+  }
+  return { botId: match[1], host: match[2], port: Number(match[3]) };
+}).filter(Boolean);
+
+const clients = new Set();
+
+const broadcast = (message) => {
+  const payload = JSON.stringify(message);
+  clients.forEach(conn => conn.send(payload));
+};
+
+const tag = (body, botId, source) => ({
+  ...body,
+  type: 'telemetry',
+  botId: body.botId ?? botId,
+  source: body.source ?? source,
+  timestamp: body.timestamp ?? Date.now()
+});
+
+/**
+ * One request/response on the cgminer API: JSON in, JSON out, and the miner
+ * closes the socket after a trailing NUL.
+ */
+const queryMiner = (host, port, command) => new Promise((resolve, reject) => {
+  const socket = connect({ host, port });
+  const chunks = [];
+  socket.setTimeout(API_TIMEOUT_MS, () => socket.destroy(new Error('timed out')));
+  socket.on('connect', () => socket.write(JSON.stringify({ command })));
+  socket.on('data', chunk => chunks.push(chunk));
+  socket.on('error', reject);
+  socket.on('close', () => {
+    const text = Buffer.concat(chunks).toString('utf8').replace(/\0+$/, '');
+    try {
+      resolve(JSON.parse(text));
+    } catch {
+      reject(new Error(`unparseable reply (${text.length} bytes)`));
+    }
+  });
+});
+
+const failing = new Set();
+const pollRigs = () => rigs.forEach(async rig => {
+  const source = `cgminer://${rig.host}:${rig.port}`;
+  try {
+    const response = await queryMiner(rig.host, rig.port, 'summary+devs');
+    if (failing.delete(rig.botId)) console.log(`[telemetry-bridge] ${source} (bot ${rig.botId}) recovered`);
+    broadcast(tag({ cgminer: response }, rig.botId, source));
+  } catch (err) {
+    if (!failing.has(rig.botId)) console.error(`[telemetry-bridge] ${source} (bot ${rig.botId}): ${err.message}`);
+    failing.add(rig.botId);
+  }
+});
+
+const isAllowedOrigin = (origin) => origin === undefined || ALLOWED_ORIGINS.has(origin);
+
+const send = (res, status, body, origin) => {
+  const headers = { 'Content-Type': 'application/json' };
+  if (origin !== undefined) {
+    headers['Access-Control-Allow-Origin'] = origin;
+    headers['Access-Control-Allow-Headers'] = 'Content-Type';
+    headers['Vary'] = 'Origin';
+  }
+  res.writeHead(status, headers);
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const origin = req.headers.origin;
+  if (!isAllowedOrigin(origin)) return send(res, 403, { error: `Origin ${origin} is not allowed` });
+  if (req.method === 'OPTIONS') return send(res, 204, {}, origin);
+  if (req.method === 'GET' && url.pathname === '/') {
+    return send(res, 200, { clients: clients.size, rigs: rigs.map(r => ({ ...r, reachable: !failing.has(r.botId) })) }, origin);
+  }
+  if (req.method !== 'POST' || url.pathname !== '/telemetry') return send(res, 404, { error: 'POST readings to /telemetry' }, origin);
+
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) req.destroy();
+    else chunks.push(chunk);
+  });
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      return send(res, 400, { error: 'Body must be JSON' }, origin);
+    }
+    const readings = (Array.isArray(body) ? body : [body]).map(r => tag(r, url.searchParams.get('botId') ?? undefined, `http:${req.socket.remoteAddress}`));
+    if (readings.some(r => r.botId === undefined)) return send(res, 400, { error: 'Every reading needs a botId (in the body or ?botId=)' }, origin);
+    broadcast(readings);
+    send(res, 202, { accepted: readings.length, clients: clients.size }, origin);
+  });
+});
+
+server.on('upgrade', (req, socket) => {
+  // Browsers always send Origin on upgrades; any page could otherwise connect and inject readings
+  if (!isAllowedOrigin(req.headers.origin)) {
+    console.error(`[telemetry-bridge] refused WebSocket from origin ${req.headers.origin}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  const conn = acceptWebSocket(req, socket);
+  if (!conn) return;
+  clients.add(conn);
+  conn.onClose = () => clients.delete(conn);
+  conn.onMessage = (text) => {
+    try {
+      const body = JSON.parse(text);
+      if (body && typeof body === 'object' && !Array.isArray(body)) broadcast(tag(body, undefined, 'ws'));
+    } catch {
+      // Not JSON; nothing to relay
+    }
+  };
+  console.log(`[telemetry-bridge] client connected (${clients.size} total)`);
+});
+
+if (rigs.length > 0) {
+  setInterval(pollRigs, POLL_MS);
+  pollRigs();
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`[telemetry-bridge] listening on http://${HOST}:${PORT}/telemetry and ws://${HOST}:${PORT}`);
+  console.log(`[telemetry-bridge] accepting browser origins: ${[...ALLOWED_ORIGINS].join(', ')}`);
+  rigs.forEach(r => console.log(`[telemetry-bridge] polling bot ${r.botId} at ${r.host}:${r.port} every ${POLL_MS}ms`));
+});
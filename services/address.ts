@@ -0,0 +1,303 @@
+
+import { AssetSymbol } from "../types";
+
+export type AddressNetwork = 'mainnet' | 'testnet';
+
+export interface AddressCheck {
+  valid: boolean;
+  /** Exact reason the address was rejected, or a short description when accepted. */
+  reason: string;
+  asset?: AssetSymbol;
+  type?: string;
+  network?: AddressNetwork;
+}
+
+// --- Hash primitives (synchronous: validation runs inside render) ---
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const KECCAK_RC = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808An, 0x8000000080008000n,
+  0x000000000000808Bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008An, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000An,
+  0x000000008000808Bn, 0x800000000000008Bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800An, 0x800000008000000An,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+
+const KECCAK_ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+const rotl64 = (v: bigint, n: number) => n === 0 ? v : ((v << BigInt(n)) | (v >> BigInt(64 - n))) & MASK_64;
+
+const keccakF = (a: bigint[]) => {
+  const b = new Array<bigint>(25);
+  const c = new Array<bigint>(5);
+  for (let round = 0; round < 24; round++) {
+    for (let x = 0; x < 5; x++) c[x] = a[x] ^ a[x + 5] ^ a[x + 10] ^ a[x + 15] ^ a[x + 20];
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) a[x + y] ^= d;
+    }
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(a[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+      }
+    }
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) a[x + y] = b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK_64 & b[((x + 2) % 5) + y]);
+    }
+    a[0] ^= KECCAK_RC[round];
+  }
+};
+
+/** Original Keccak-256 (0x01 padding) as used by Ethereum, not NIST SHA3-256. */
+export const keccak256 = (input: Uint8Array): Uint8Array => {
+  const rate = 136;
+  const padded = new Uint8Array(Math.ceil((input.length + 1) / rate) * rate);
+  padded.set(input);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      let lane = 0n;
+      for (let j = 7; j >= 0; j--) lane = (lane << 8n) | BigInt(padded[offset + i * 8 + j]);
+      state[i] ^= lane;
+    }
+    keccakF(state);
+  }
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 8; j++) out[i * 8 + j] = Number((state[i] >> BigInt(8 * j)) & 0xffn);
+  }
+  return out;
+};
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const rotr32 = (v: number, n: number) => (v >>> n) | (v << (32 - n));
+
+export const sha256 = (input: Uint8Array): Uint8Array => {
+  const bitLength = input.length * 8;
+  const padded = new Uint8Array(Math.ceil((input.length + 9) / 64) * 64);
+  padded.set(input);
+  padded[input.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr32(w[i - 15], 7) ^ rotr32(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr32(w[i - 2], 17) ^ rotr32(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr32(e, 6) ^ rotr32(e, 11) ^ rotr32(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr32(a, 2) ^ rotr32(a, 13) ^ rotr32(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word));
+  return out;
+};
+
+// --- Encodings ---
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const base58Decode = (text: string): Uint8Array | null => {
+  let value = 0n;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * 58n + BigInt(digit);
+  }
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  const leadingZeros = text.match(/^1*/)![0].length;
+  return new Uint8Array([...new Array(leadingZeros).fill(0), ...bytes]);
+};
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+const bech32Polymod = (values: number[]) => {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  values.forEach(v => {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    generator.forEach((g, i) => { if ((top >>> i) & 1) chk ^= g; });
+  });
+  return chk >>> 0;
+};
+
+const hrpExpand = (hrp: string) => [
+  ...Array.from(hrp, c => c.charCodeAt(0) >> 5),
+  0,
+  ...Array.from(hrp, c => c.charCodeAt(0) & 31)
+];
+
+const convertBits = (data: number[], from: number, to: number): number[] | null => {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  const maxValue = (1 << to) - 1;
+  const maxAcc = (1 << (from + to - 1)) - 1;
+  for (const value of data) {
+    acc = ((acc << from) | value) & maxAcc;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & maxValue);
+    }
+  }
+  // Segwit programs must not carry a partial group or non-zero padding
+  if (bits >= from || ((acc << (to - bits)) & maxValue)) return null;
+  return out;
+};
+
+const SEGWIT_HRPS: Record<string, AddressNetwork> = { bc: 'mainnet', tb: 'testnet', bcrt: 'testnet' };
+
+const BASE58_VERSIONS: Record<number, { type: string; network: AddressNetwork }> = {
+  0x00: { type: 'BTC (Legacy P2PKH)', network: 'mainnet' },
+  0x05: { type: 'BTC (P2SH)', network: 'mainnet' },
+  0x6f: { type: 'BTC (Legacy P2PKH)', network: 'testnet' },
+  0xc4: { type: 'BTC (P2SH)', network: 'testnet' }
+};
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export class AddressService {
+  /**
+   * Verifies the address checksum for every supported chain and reports the
+   * asset and network it belongs to. Only mainnet destinations are accepted.
+   */
+  static validate(input: string): AddressCheck {
+    const addr = input.trim();
+    if (/^0x/i.test(addr)) return this.requireMainnet(this.validateEthereum(addr));
+    if (/^(bc|tb|bcrt)1/i.test(addr)) {
+      const segwit = this.validateSegwit(addr);
+      // "bc1…" is also valid Base58, so a Solana key can share the prefix
+      const base58 = !segwit.valid && /^[1-9A-HJ-NP-Za-km-z]+$/.test(addr) ? this.validateBase58(addr) : null;
+      return this.requireMainnet(base58?.valid ? base58 : segwit);
+    }
+    if (/^[1-9A-HJ-NP-Za-km-z]+$/.test(addr)) return this.requireMainnet(this.validateBase58(addr));
+    return { valid: false, reason: 'Unrecognised address format: expected 0x…, bc1… or a Base58 address.' };
+  }
+
+  static toChecksumAddress(hex40: string): string {
+    const lower = hex40.toLowerCase();
+    const hash = toHex(keccak256(new TextEncoder().encode(lower)));
+    return '0x' + Array.from(lower, (c, i) => parseInt(hash[i], 16) >= 8 ? c.toUpperCase() : c).join('');
+  }
+
+  private static requireMainnet(check: AddressCheck): AddressCheck {
+    if (check.valid && check.network === 'testnet') {
+      return { ...check, valid: false, reason: `${check.type} is a testnet address and cannot receive mainnet funds.` };
+    }
+    return check;
+  }
+
+  private static validateEthereum(addr: string): AddressCheck {
+    const body = addr.slice(2);
+    if (!addr.startsWith('0x')) return { valid: false, reason: 'Ethereum addresses must start with a lowercase "0x" prefix.' };
+    if (!/^[0-9a-fA-F]*$/.test(body)) return { valid: false, reason: 'Ethereum address contains non-hexadecimal characters.' };
+    if (body.length !== 40) return { valid: false, reason: `Ethereum address must be 40 hex characters, got ${body.length}.` };
+
+    const base = { asset: 'ETH' as AssetSymbol, network: 'mainnet' as AddressNetwork };
+    // Single-case addresses carry no checksum; accept them but say so
+    if (body === body.toLowerCase() || body === body.toUpperCase()) {
+      return { ...base, valid: true, type: 'ETH (no EIP-55 checksum)', reason: 'Ethereum address has no EIP-55 checksum; double-check every character.' };
+    }
+    const expected = this.toChecksumAddress(body);
+    if (expected !== addr) {
+      const position = Array.from(addr).findIndex((c, i) => c !== expected[i]);
+      return { ...base, valid: false, type: 'ETH', reason: `EIP-55 checksum mismatch at character ${position + 1}: expected "${expected[position]}", found "${addr[position]}".` };
+    }
+    return { ...base, valid: true, type: 'ETH (EIP-55)', reason: 'EIP-55 checksum verified.' };
+  }
+
+  private static validateSegwit(addr: string): AddressCheck {
+    if (addr !== addr.toLowerCase() && addr !== addr.toUpperCase()) return { valid: false, reason: 'Bech32 address mixes upper and lower case.' };
+    const lower = addr.toLowerCase();
+    if (lower.length > 90) return { valid: false, reason: `Bech32 address exceeds 90 characters (${lower.length}).` };
+
+    const separator = lower.lastIndexOf('1');
+    const hrp = lower.slice(0, separator);
+    const network = SEGWIT_HRPS[hrp];
+    if (!network) return { valid: false, reason: `Unknown Bech32 prefix "${hrp}".` };
+
+    const dataPart = lower.slice(separator + 1);
+    if (dataPart.length < 6) return { valid: false, reason: 'Bech32 address is too short to contain a checksum.' };
+    const invalidChar = Array.from(dataPart).find(c => !BECH32_CHARSET.includes(c));
+    if (invalidChar) return { valid: false, reason: `Character "${invalidChar}" is not in the Bech32 alphabet.` };
+
+    const data = Array.from(dataPart, c => BECH32_CHARSET.indexOf(c));
+    const version = data[0];
+    const expectedConst = version === 0 ? BECH32_CONST : BECH32M_CONST;
+    const encoding = version === 0 ? 'Bech32' : 'Bech32m';
+    if (bech32Polymod([...hrpExpand(hrp), ...data]) !== expectedConst) {
+      return { valid: false, network, reason: `${encoding} checksum mismatch: the address contains a typo.` };
+    }
+
+    if (version > 16) return { valid: false, network, reason: `Invalid witness version ${version}.` };
+    const program = convertBits(data.slice(1, -6), 5, 8);
+    if (!program || program.length < 2 || program.length > 40) return { valid: false, network, reason: 'Witness program has an invalid length or padding.' };
+    if (version === 0 && program.length !== 20 && program.length !== 32) {
+      return { valid: false, network, reason: `SegWit v0 program must be 20 or 32 bytes, got ${program.length}.` };
+    }
+
+    const type = version === 0
+      ? (program.length === 20 ? 'BTC (SegWit P2WPKH)' : 'BTC (SegWit P2WSH)')
+      : version === 1 ? 'BTC (Taproot)' : `BTC (SegWit v${version})`;
+    return { valid: true, asset: 'BTC', network, type, reason: `${encoding} checksum verified.` };
+  }
+
+  private static validateBase58(addr: string): AddressCheck {
+    const bytes = base58Decode(addr);
+    if (!bytes) return { valid: false, reason: 'Address contains characters outside the Base58 alphabet.' };
+
+    // Solana addresses are raw ed25519 public keys with no checksum
+    if (bytes.length === 32) {
+      return { valid: true, asset: 'SOL', network: 'mainnet', type: 'SOL', reason: '32-byte ed25519 public key.' };
+    }
+
+    if (bytes.length === 25) {
+      const payload = bytes.slice(0, 21);
+      const checksum = toHex(bytes.slice(21));
+      const expected = toHex(sha256(sha256(payload)).slice(0, 4));
+      if (checksum !== expected) return { valid: false, asset: 'BTC', reason: 'Base58Check checksum mismatch: the address contains a typo.' };
+      const version = BASE58_VERSIONS[payload[0]];
+      if (!version) return { valid: false, reason: `Unsupported Base58Check version byte 0x${payload[0].toString(16).padStart(2, '0')}.` };
+      return { valid: true, asset: 'BTC', network: version.network, type: version.type, reason: 'Base58Check checksum verified.' };
+    }
+
+    return { valid: false, reason: `Base58 address decodes to ${bytes.length} bytes; expected 25 (Bitcoin) or 32 (Solana).` };
+  }
+}
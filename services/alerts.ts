@@ -0,0 +1,229 @@
+
+import { AuditLog, LogCategory } from "../types";
+import { LoggerService } from "./logger";
+import { AuditQueryService } from "./auditQuery";
+
+const RULES_STORAGE_KEY = 'cloudmine_alert_rules';
+const SETTINGS_STORAGE_KEY = 'cloudmine_alert_settings';
+const MS_PER_MINUTE = 60 * 1000;
+
+export type AlertActionKind = 'toast' | 'desktop' | 'webhook' | 'pause-bots';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export const ALERT_ACTION_LABELS: Record<AlertActionKind, string> = {
+  'toast': 'In-app toast',
+  'desktop': 'Desktop notification',
+  'webhook': 'Webhook POST',
+  'pause-bots': 'Auto-pause bots'
+};
+
+/**
+ * Fires when `threshold` entries matching `query` (audit query language)
+ * land within `windowMinutes`, then stays quiet for `cooldownMinutes`.
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  query: string;
+  threshold: number;
+  windowMinutes: number;
+  cooldownMinutes: number;
+  severity: AlertSeverity;
+  actions: AlertActionKind[];
+}
+
+export interface AlertSettings {
+  webhookUrl: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  firedAt: number;
+  entries: AuditLog[];
+}
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'RULE-SECURITY-BURST', name: 'Security event burst', enabled: true, query: 'category:SECURITY', threshold: 3, windowMinutes: 5, cooldownMinutes: 10, severity: 'warning', actions: ['toast', 'desktop'] },
+  { id: 'RULE-LARGE-WITHDRAWAL', name: 'Large withdrawal', enabled: true, query: 'action:"Withdrawal requested" usdValue>1000', threshold: 1, windowMinutes: 1, cooldownMinutes: 0, severity: 'warning', actions: ['toast', 'desktop', 'webhook'] },
+  { id: 'RULE-UNPRICED-WITHDRAWAL', name: 'Withdrawal without a USD price', enabled: true, query: 'action:"Withdrawal requested" unpriced:true', threshold: 1, windowMinutes: 1, cooldownMinutes: 0, severity: 'warning', actions: ['toast', 'desktop', 'webhook'] },
+  { id: 'RULE-BOT-ERROR', name: 'Bot entered error state', enabled: true, query: 'action:"Bot status changed" to:error', threshold: 1, windowMinutes: 1, cooldownMinutes: 1, severity: 'critical', actions: ['toast', 'desktop', 'pause-bots'] }
+];
+
+const DEFAULT_SETTINGS: AlertSettings = { webhookUrl: '' };
+
+// Entries the engine writes about itself carry this key and are never evaluated
+const ALERT_META_KEY = 'alertRuleId';
+
+/**
+ * Evaluates alert rules against every new audit entry and runs their actions.
+ * Toasts and bot pauses are requested through window events (`alert-fired`,
+ * `alert-pause-bots`) so the UI and fleet state stay where they live.
+ */
+export class AlertService {
+  private static rules: AlertRule[] | null = null;
+  // Matching entries per rule inside the rule's window
+  private static windows = new Map<string, AuditLog[]>();
+  private static lastFiredAt = new Map<string, number>();
+
+  /**
+   * Subscribes to the audit stream; returns the unsubscribe function.
+   */
+  static start(): () => void {
+    const handler = (e: Event) => this.evaluate((e as CustomEvent<AuditLog>).detail);
+    window.addEventListener('audit-log-updated', handler);
+    return () => window.removeEventListener('audit-log-updated', handler);
+  }
+
+  static evaluate(log: AuditLog, now = Date.now()) {
+    if (!log || log.metadata?.[ALERT_META_KEY]) return;
+    for (const rule of this.getRules()) {
+      if (!rule.enabled) continue;
+      const parsed = AuditQueryService.parse(rule.query, now);
+      if (parsed.errors.length > 0 || !AuditQueryService.test(parsed.query, log)) continue;
+
+      const cutoff = now - rule.windowMinutes * MS_PER_MINUTE;
+      const hits = [...(this.windows.get(rule.id) ?? []).filter(l => l.timestamp >= cutoff), log];
+      const inCooldown = now - (this.lastFiredAt.get(rule.id) ?? 0) < rule.cooldownMinutes * MS_PER_MINUTE;
+      if (hits.length >= rule.threshold && !inCooldown) {
+        this.windows.set(rule.id, []);
+        this.lastFiredAt.set(rule.id, now);
+        this.fire(rule, hits, now);
+      } else {
+        this.windows.set(rule.id, hits);
+      }
+    }
+  }
+
+  static getRules(): AlertRule[] {
+    if (!this.rules) {
+      try {
+        const saved = localStorage.getItem(RULES_STORAGE_KEY);
+        this.rules = saved ? JSON.parse(saved) : DEFAULT_ALERT_RULES;
+      } catch (e) {
+        console.error("Failed to load alert rules:", e);
+        this.rules = DEFAULT_ALERT_RULES;
+      }
+    }
+    return this.rules!;
+  }
+
+  static saveRules(rules: AlertRule[]) {
+    const previous = new Map(this.getRules().map(r => [r.id, r]));
+    this.rules = rules;
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+    // A changed rule starts counting afresh
+    rules.forEach(rule => {
+      if (JSON.stringify(previous.get(rule.id)) !== JSON.stringify(rule)) this.windows.delete(rule.id);
+    });
+  }
+
+  static createRule(): AlertRule {
+    return {
+      id: `RULE-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+      name: 'New rule',
+      enabled: false,
+      query: 'category:SECURITY',
+      threshold: 1,
+      windowMinutes: 5,
+      cooldownMinutes: 5,
+      severity: 'info',
+      actions: ['toast']
+    };
+  }
+
+  static getSettings(): AlertSettings {
+    try {
+      const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+    } catch (e) {
+      console.error("Failed to load alert settings:", e);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  static saveSettings(settings: AlertSettings) {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  /**
+   * Asks for desktop notification permission; must run from a user gesture.
+   */
+  static async requestDesktopPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (typeof Notification === 'undefined') return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+  }
+
+  private static fire(rule: AlertRule, entries: AuditLog[], now: number) {
+    const latest = entries[entries.length - 1];
+    const event: AlertEvent = {
+      id: `ALERT-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      message: entries.length > 1
+        ? `${entries.length} matching events in ${rule.windowMinutes} min. Latest: ${latest.action}`
+        : latest.action,
+      firedAt: now,
+      entries
+    };
+
+    LoggerService.log(LogCategory.SECURITY, "Alert rule triggered", {
+      [ALERT_META_KEY]: rule.id,
+      rule: rule.name,
+      severity: rule.severity,
+      matched: entries.map(e => e.id),
+      actions: rule.actions
+    });
+
+    rule.actions.forEach(action => {
+      switch (action) {
+        case 'toast':
+          window.dispatchEvent(new CustomEvent('alert-fired', { detail: event }));
+          break;
+        case 'desktop':
+          this.notifyDesktop(event);
+          break;
+        case 'webhook':
+          this.postWebhook(event);
+          break;
+        case 'pause-bots': {
+          // Pause only the bots the matched entries name; otherwise the whole fleet
+          const botIds = Array.from(new Set(entries.map(e => e.metadata?.botId).filter(Boolean)));
+          window.dispatchEvent(new CustomEvent('alert-pause-bots', { detail: { ruleId: rule.id, botIds: botIds.length > 0 ? botIds : null } }));
+          break;
+        }
+      }
+    });
+  }
+
+  private static notifyDesktop(event: AlertEvent) {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    try {
+      new Notification(`CloudMine alert: ${event.ruleName}`, { body: event.message, tag: event.ruleId });
+    } catch (e) {
+      console.error("Desktop notification failed:", e);
+    }
+  }
+
+  private static async postWebhook(event: AlertEvent) {
+    const { webhookUrl } = this.getSettings();
+    if (!webhookUrl) return;
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event)
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (err) {
+      console.error("Alert webhook delivery failed:", err);
+      LoggerService.log(LogCategory.SYSTEM, "Alert webhook delivery failed", { [ALERT_META_KEY]: event.ruleId, url: webhookUrl, error: String(err) });
+    }
+  }
+}
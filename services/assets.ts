@@ -0,0 +1,85 @@
+
+import { AssetSymbol, MarketCandle } from "../types";
+
+export const ASSETS: AssetSymbol[] = ['USD', 'BTC', 'ETH', 'SOL'];
+export const CRYPTO_ASSETS: AssetSymbol[] = ['BTC', 'ETH', 'SOL'];
+
+export const ASSET_DECIMALS: Record<AssetSymbol, number> = {
+  USD: 2,
+  BTC: 8,
+  ETH: 8,
+  SOL: 9
+};
+
+/** USD per unit of each asset. */
+export type RateTable = Record<AssetSymbol, number>;
+
+// Cross-rates against BTC used when the feed only carries BTC-USD (e.g. the
+// bundled replay). A live feed with ETH-USD / SOL-USD candles overrides them.
+const FALLBACK_BTC_CROSS: Record<AssetSymbol, number> = {
+  USD: 0,
+  BTC: 1,
+  ETH: 0.0355,
+  SOL: 0.00199
+};
+
+/**
+ * Per-asset withdrawal ceilings, expressed in units of the asset itself.
+ */
+export const WITHDRAWAL_LIMITS: Record<AssetSymbol, { daily: number; perTransaction: number }> = {
+  USD: { daily: 5000, perTransaction: 2000 },
+  BTC: { daily: 0.05, perTransaction: 0.02 },
+  ETH: { daily: 1.5, perTransaction: 0.6 },
+  SOL: { daily: 25, perTransaction: 10 }
+};
+
+/** Withdrawals worth at least this much (USD) need a second factor. */
+export const LARGE_WITHDRAWAL_USD = 1000;
+
+export class AssetService {
+  static round(amount: number, asset: AssetSymbol): number {
+    const scale = 10 ** ASSET_DECIMALS[asset];
+    return Math.round(amount * scale) / scale;
+  }
+
+  static format(amount: number, asset: AssetSymbol): string {
+    if (asset === 'USD') return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    return `${amount.toLocaleString(undefined, { maximumFractionDigits: Math.min(ASSET_DECIMALS[asset], 8) })} ${asset}`;
+  }
+
+  /**
+   * Builds the conversion table from the latest candle per `<ASSET>-USD` symbol.
+   */
+  static buildRateTable(latest: Record<string, MarketCandle>): RateTable {
+    const btc = latest['BTC-USD']?.close ?? 0;
+    const rates = { USD: 1 } as RateTable;
+    CRYPTO_ASSETS.forEach(asset => {
+      const direct = latest[`${asset}-USD`]?.close;
+      rates[asset] = direct ?? btc * FALLBACK_BTC_CROSS[asset];
+    });
+    return rates;
+  }
+
+  static toUsd(amount: number, asset: AssetSymbol, rates: RateTable): number {
+    return amount * (rates[asset] || 0);
+  }
+
+  static isPriced(asset: AssetSymbol, rates: RateTable): boolean {
+    return (rates[asset] || 0) > 0;
+  }
+
+  /**
+   * Whether a withdrawal needs a second factor. Fails closed: with no price
+   * for the asset (feed down, or a symbol it does not carry) the USD value is
+   * unknown, so any amount needs one.
+   */
+  static requiresSecondFactor(amount: number, asset: AssetSymbol, rates: RateTable): boolean {
+    if (amount <= 0) return false;
+    return !this.isPriced(asset, rates) || this.toUsd(amount, asset, rates) >= LARGE_WITHDRAWAL_USD;
+  }
+
+  static convert(amount: number, from: AssetSymbol, to: AssetSymbol, rates: RateTable): number {
+    if (!rates[to]) return 0;
+    return this.round(this.toUsd(amount, from, rates) / rates[to], to);
+  }
+}
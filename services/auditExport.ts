@@ -0,0 +1,214 @@
+
+import { AuditLog } from "../types";
+import { LoggerService, AuditImportResult, ChainLink, canonicalize, sha256Hex } from "./logger";
+import { KeyStore } from "./keystore";
+import { toBase64, fromBase64 } from "./base64";
+import { LogCategory } from "../types";
+
+const AUDIT_KEY_ID = 'audit-export';
+const TRUSTED_KEYS_STORAGE_KEY = 'cloudmine_trusted_audit_keys';
+
+export const AUDIT_EXPORT_SCHEMA = 'cloudmine.audit-log';
+export const AUDIT_EXPORT_SCHEMA_VERSION = 1;
+const BUNDLE_FORMAT = 'cloudmine.audit-bundle';
+
+const SIGNING_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export type AuditExportFormat = 'csv' | 'jsonl' | 'ndjson' | 'bundle';
+
+export interface AuditExportFile {
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+export interface AuditBundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  entryCount: number;
+  /** Head of the exporting ledger's chain when the bundle was cut. */
+  chainHead: ChainLink;
+  /** SHA-256 over the canonical form of `entries`. */
+  entriesDigest: string;
+  publicKey: JsonWebKey;
+  keyFingerprint: string;
+  /** Filters the entries were selected with, for reference only. */
+  query?: Record<string, any>;
+}
+
+export interface AuditBundle {
+  manifest: AuditBundleManifest;
+  /** Base64 ECDSA P-256 / SHA-256 signature over the canonical manifest. */
+  signature: string;
+  entries: AuditLog[];
+}
+
+export interface AuditBundleCheck {
+  signatureValid: boolean;
+  digestValid: boolean;
+  /** Signed by this browser's own export key. */
+  signedLocally: boolean;
+  /** Fingerprint of the key embedded in the bundle. */
+  keyFingerprint: string;
+  /**
+   * Signed by this browser or a key the operator has trusted. A valid
+   * signature alone proves nothing: anyone can re-sign with a fresh key.
+   */
+  trusted: boolean;
+}
+
+export interface AuditBundleImport extends AuditImportResult {
+  check: AuditBundleCheck;
+}
+
+const csvCell = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+const fingerprint = async ({ crv, kty, x, y }: JsonWebKey) => (await sha256Hex(canonicalize({ crv, kty, x, y }))).slice(0, 16);
+
+/**
+ * Serialises audit entries for download and re-import. Signed bundles carry
+ * the chain head and an ECDSA signature from a per-browser key kept in
+ * IndexedDB, so a bundle can later be checked for tampering before merging.
+ */
+export class AuditExportService {
+  static async export(format: AuditExportFormat, entries: AuditLog[], query?: Record<string, any>): Promise<AuditExportFile> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const base = `cloudmine_audit_export_${stamp}`;
+    switch (format) {
+      case 'csv':
+        return { content: this.toCSV(entries), filename: `${base}.csv`, mimeType: 'text/csv;charset=utf-8;' };
+      case 'jsonl':
+        return { content: this.toJSONLines(entries), filename: `${base}.jsonl`, mimeType: 'application/jsonl' };
+      case 'ndjson':
+        return { content: this.toNDJSON(entries), filename: `${base}.ndjson`, mimeType: 'application/x-ndjson' };
+      case 'bundle': {
+        const bundle = await this.createBundle(entries, query);
+        return { content: JSON.stringify(bundle, null, 2), filename: `${base}.bundle.json`, mimeType: 'application/json' };
+      }
+    }
+  }
+
+  static toCSV(entries: AuditLog[]): string {
+    const headers = ['ID', 'Timestamp_Unix', 'UTC_Date', 'Category', 'Action', 'Metadata_JSON'];
+    const rows = entries.map(log => [log.id, log.timestamp, new Date(log.timestamp).toISOString(), log.category, csvCell(log.action), csvCell(JSON.stringify(log.metadata || {}))]);
+    return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
+  }
+
+  /**
+   * One entry per line, exactly as stored.
+   */
+  static toJSONLines(entries: AuditLog[]): string {
+    return entries.map(e => JSON.stringify(e)).join('\n') + '\n';
+  }
+
+  /**
+   * A header record naming the schema and its version, then one entry per line.
+   */
+  static toNDJSON(entries: AuditLog[]): string {
+    const header = {
+      type: 'header',
+      schema: AUDIT_EXPORT_SCHEMA,
+      schemaVersion: AUDIT_EXPORT_SCHEMA_VERSION,
+      exportedAt: Date.now(),
+      count: entries.length
+    };
+    return [header, ...entries.map(e => ({ type: 'entry', ...e }))].map(r => JSON.stringify(r)).join('\n') + '\n';
+  }
+
+  static async createBundle(entries: AuditLog[], query?: Record<string, any>): Promise<AuditBundle> {
+    const keys = await this.getSigningKey();
+    const publicKey = await crypto.subtle.exportKey('jwk', keys.publicKey);
+    const manifest: AuditBundleManifest = {
+      format: BUNDLE_FORMAT,
+      schemaVersion: AUDIT_EXPORT_SCHEMA_VERSION,
+      exportedAt: Date.now(),
+      entryCount: entries.length,
+      chainHead: await LoggerService.getHead(),
+      entriesDigest: await sha256Hex(canonicalize(entries)),
+      publicKey,
+      keyFingerprint: await fingerprint(publicKey),
+      query
+    };
+    const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, keys.privateKey, new TextEncoder().encode(canonicalize(manifest)));
+    return { manifest, signature: toBase64(signature), entries };
+  }
+
+  /**
+   * Parses a bundle file and checks its signature against the embedded key
+   * and its entries against the signed digest.
+   */
+  static async readBundle(text: string): Promise<{ bundle: AuditBundle; check: AuditBundleCheck }> {
+    let bundle: AuditBundle;
+    try {
+      bundle = JSON.parse(text);
+    } catch {
+      throw new Error("File is not valid JSON.");
+    }
+    const manifest = bundle?.manifest;
+    if (manifest?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.entries) || typeof bundle.signature !== 'string') {
+      throw new Error("File is not a signed audit bundle.");
+    }
+    if (manifest.schemaVersion > AUDIT_EXPORT_SCHEMA_VERSION) {
+      throw new Error(`Bundle schema v${manifest.schemaVersion} is newer than this app supports (v${AUDIT_EXPORT_SCHEMA_VERSION}).`);
+    }
+
+    let signatureValid = false;
+    try {
+      const key = await crypto.subtle.importKey('jwk', manifest.publicKey, SIGNING_ALGORITHM, false, ['verify']);
+      signatureValid = await crypto.subtle.verify(SIGNATURE_PARAMS, key, fromBase64(bundle.signature), new TextEncoder().encode(canonicalize(manifest)));
+    } catch (e) {
+      console.error("Bundle signature check failed:", e);
+    }
+    const digestValid = await sha256Hex(canonicalize(bundle.entries)) === manifest.entriesDigest && bundle.entries.length === manifest.entryCount;
+    const keyFingerprint = await fingerprint(manifest.publicKey ?? {});
+    const localKey = await crypto.subtle.exportKey('jwk', (await this.getSigningKey()).publicKey);
+    const signedLocally = await fingerprint(localKey) === keyFingerprint;
+    const trusted = signedLocally || this.getTrustedKeys().includes(keyFingerprint);
+
+    return { bundle, check: { signatureValid, digestValid, signedLocally, keyFingerprint, trusted } };
+  }
+
+  /**
+   * Verifies a bundle and merges its entries into the local ledger. Bundles
+   * that fail either check are rejected outright, as are bundles signed by an
+   * untrusted key unless `trustFingerprint` names that key, which the caller
+   * passes only after the operator has confirmed it.
+   */
+  static async importBundle(text: string, trustFingerprint?: string): Promise<AuditBundleImport> {
+    const { bundle, check } = await this.readBundle(text);
+    if (!check.signatureValid) throw new Error("Bundle signature does not verify; the manifest was altered or signed with another key.");
+    if (!check.digestValid) throw new Error("Bundle entries do not match the signed digest; entries were added, removed or edited.");
+    if (!check.trusted) {
+      if (trustFingerprint !== check.keyFingerprint) throw new Error(`Bundle is signed by untrusted key ${check.keyFingerprint}.`);
+      this.trustKey(check.keyFingerprint);
+    }
+    const result = await LoggerService.importEntries(bundle.entries, bundle.manifest.chainHead.hash);
+    return { ...result, check };
+  }
+
+  /**
+   * Fingerprints of external signing keys whose bundles may be imported.
+   */
+  static getTrustedKeys(): string[] {
+    try {
+      const saved = localStorage.getItem(TRUSTED_KEYS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static trustKey(keyFingerprint: string) {
+    const keys = this.getTrustedKeys();
+    if (keys.includes(keyFingerprint)) return;
+    localStorage.setItem(TRUSTED_KEYS_STORAGE_KEY, JSON.stringify([...keys, keyFingerprint]));
+    LoggerService.log(LogCategory.SECURITY, "Audit signing key trusted", { keyFingerprint });
+  }
+
+  private static getSigningKey(): Promise<CryptoKeyPair> {
+    // The private key is non-extractable; only its handle is persisted
+    return KeyStore.getOrCreate(AUDIT_KEY_ID, () => crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']));
+  }
+}
@@ -0,0 +1,319 @@
+
+import { AuditLog, LogCategory } from "../types";
+import { AuditQuery, tokenize } from "./logger";
+
+const SAVED_SEARCHES_KEY = 'cloudmine_audit_saved_searches';
+export const DEFAULT_SEARCH_OWNER = 'operator';
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+const COMPARISONS: QueryOperator[] = ['>', '>=', '<', '<='];
+
+export interface QueryClause {
+  /** Character span in the source text. */
+  start: number;
+  end: number;
+  negated: boolean;
+  /** Absent for bare words, which match free text. */
+  field?: string;
+  operator?: QueryOperator;
+  value: string;
+}
+
+export interface QueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedAuditQuery {
+  clauses: QueryClause[];
+  errors: QueryError[];
+  /** Only meaningful when `errors` is empty. */
+  query: AuditQuery;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+}
+
+type Predicate = (log: AuditLog) => boolean;
+
+const CLAUSE_PATTERN = /^(-?)([A-Za-z_][\w.]*)(!=|>=|<=|:|=|>|<)(.*)$/s;
+
+const unquote = (value: string) => value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+
+const globToRegExp = (glob: string) =>
+  new RegExp(`^${glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const asNumber = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value.replace(/[,_]/g, ''));
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+};
+
+/** Resolves a dotted metadata path, matching keys case-insensitively. */
+const lookup = (metadata: Record<string, any> | undefined, path: string): any => {
+  let current: any = metadata;
+  for (const segment of path.replace(/^metadata\./i, '').split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    const key = Object.keys(current).find(k => k.toLowerCase() === segment.toLowerCase());
+    if (key === undefined) return undefined;
+    current = current[key];
+  }
+  return current;
+};
+
+/** Relative (`7d`, `12h`, `30m`, `2w`) or absolute (`2024-05-01`) times. */
+const parseTime = (value: string, now: number): number | null => {
+  const relative = value.match(/^(\d+)([mhdw])$/i);
+  if (relative) return now - Number(relative[1]) * DURATION_UNITS[relative[2].toLowerCase()];
+  const absolute = Date.parse(value);
+  return Number.isNaN(absolute) ? null : absolute;
+};
+
+const compare = (actual: any, operator: QueryOperator, expected: string): boolean => {
+  if (actual === undefined || actual === null) return false;
+  if (COMPARISONS.includes(operator)) {
+    const a = asNumber(actual);
+    const b = Number(expected);
+    if (a === null) return false;
+    return operator === '>' ? a > b : operator === '>=' ? a >= b : operator === '<' ? a < b : a <= b;
+  }
+  const a = asNumber(actual);
+  const b = asNumber(expected);
+  const equal = a !== null && b !== null
+    ? a === b
+    : typeof actual === 'object'
+      ? JSON.stringify(actual).toLowerCase().includes(expected.toLowerCase())
+      : globToRegExp(expected).test(String(actual));
+  return operator === '!=' ? !equal : equal;
+};
+
+/**
+ * Splits the input on whitespace, keeping double-quoted runs together, and
+ * records where each term sits so errors can be highlighted in place.
+ */
+const scan = (input: string): { terms: { text: string; start: number; end: number }[]; errors: QueryError[] } => {
+  const terms: { text: string; start: number; end: number }[] = [];
+  const errors: QueryError[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) { i++; continue; }
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close < 0) {
+          errors.push({ start: i, end: input.length, message: 'Unterminated quote.' });
+          i = input.length;
+          break;
+        }
+        i = close + 1;
+      } else {
+        i++;
+      }
+    }
+    terms.push({ text: input.slice(start, i), start, end: i });
+  }
+  return { terms, errors };
+};
+
+/**
+ * A small query language for the audit ledger:
+ *
+ *   category:FINANCIAL amount>500 botId:BOT-* since:7d -"heartbeat"
+ *
+ * `category`, `action`, `id`, `since` and `until` are built in; any other
+ * field is looked up in the entry metadata (dotted paths allowed). `*` is a
+ * wildcard, a leading `-` negates a term, and bare words match free text.
+ */
+export class AuditQueryService {
+  static parse(input: string, now = Date.now()): ParsedAuditQuery {
+    const { terms, errors } = scan(input);
+    const clauses: QueryClause[] = [];
+    const predicates: Predicate[] = [];
+    const textWords: string[] = [];
+    const query: AuditQuery = {};
+    const categories = new Set<LogCategory>();
+
+    const fail = (start: number, end: number, message: string) => errors.push({ start, end, message });
+
+    for (const term of terms) {
+      const match = term.text.match(CLAUSE_PATTERN);
+
+      if (!match) {
+        const negated = term.text.startsWith('-') && term.text.length > 1;
+        const value = unquote(negated ? term.text.slice(1) : term.text);
+        if (!value) continue;
+        clauses.push({ start: term.start, end: term.end, negated, value });
+        if (negated) {
+          const needle = value.toLowerCase();
+          predicates.push(log => !`${log.action} ${JSON.stringify(log.metadata ?? {})}`.toLowerCase().includes(needle));
+        } else {
+          textWords.push(value);
+        }
+        continue;
+      }
+
+      const [, minus, rawField, op, rawValue] = match;
+      const negated = minus === '-';
+      const field = rawField.toLowerCase();
+      const operator = op as QueryOperator;
+      const value = unquote(rawValue);
+      const valueStart = term.start + minus.length + rawField.length + op.length;
+      clauses.push({ start: term.start, end: term.end, negated, field: rawField, operator, value });
+
+      if (!value) {
+        fail(valueStart - op.length, term.end, `Missing value for "${rawField}".`);
+        continue;
+      }
+
+      let predicate: Predicate | null = null;
+      switch (field) {
+        case 'category': {
+          const category = Object.values(LogCategory).find(c => c === value.toUpperCase());
+          if (!category) {
+            fail(valueStart, term.end, `Unknown category "${value}". Use one of ${Object.values(LogCategory).join(', ')}.`);
+            continue;
+          }
+          if (COMPARISONS.includes(operator)) {
+            fail(term.start, term.end, 'Categories can only be matched with ":" or "!=".');
+            continue;
+          }
+          if (!negated && operator !== '!=') categories.add(category);
+          predicate = log => (log.category === category) === (operator !== '!=');
+          break;
+        }
+        case 'since':
+        case 'until': {
+          const time = parseTime(value, now);
+          if (operator !== ':' || negated) {
+            fail(term.start, term.end, `Use "${field}:<time>", e.g. ${field}:7d or ${field}:2024-05-01.`);
+            continue;
+          }
+          if (time === null) {
+            fail(valueStart, term.end, `Cannot read "${value}" as a time. Try 30m, 12h, 7d, 2w or a date.`);
+            continue;
+          }
+          if (field === 'since') query.since = Math.max(query.since ?? -Infinity, time);
+          else query.until = Math.min(query.until ?? Infinity, time);
+          continue;
+        }
+        case 'action': {
+          if (COMPARISONS.includes(operator)) {
+            fail(term.start, term.end, 'Actions can only be matched with ":" or "!=".');
+            continue;
+          }
+          const pattern = value.includes('*') ? globToRegExp(value) : null;
+          const needle = value.toLowerCase();
+          predicate = log => {
+            const hit = pattern ? pattern.test(log.action) : log.action.toLowerCase().includes(needle);
+            return operator === '!=' ? !hit : hit;
+          };
+          break;
+        }
+        case 'id':
+          predicate = log => compare(log.id, operator, value);
+          break;
+        default:
+          if (COMPARISONS.includes(operator) && asNumber(value) === null) {
+            fail(valueStart, term.end, `"${rawField}${op}" needs a number, got "${value}".`);
+            continue;
+          }
+          predicate = log => compare(lookup(log.metadata, rawField), operator, value);
+      }
+
+      predicates.push(negated ? (log => !predicate!(log)) : predicate);
+    }
+
+    // A single positive category narrows the index scan; the predicate covers the rest
+    if (categories.size === 1) query.category = [...categories][0];
+    if (textWords.length > 0) query.text = textWords.join(' ');
+    if (predicates.length > 0) query.predicate = log => predicates.every(p => p(log));
+
+    return { clauses, errors: errors.sort((a, b) => a.start - b.start), query };
+  }
+
+  /**
+   * Checks a single entry against a query without touching storage, for
+   * consumers of live `audit-log-updated` events.
+   */
+  static test(query: AuditQuery, log: AuditLog): boolean {
+    if (query.category && log.category !== query.category) return false;
+    if (query.since !== undefined && log.timestamp < query.since) return false;
+    if (query.until !== undefined && log.timestamp > query.until) return false;
+    if (query.text) {
+      const words = tokenize(`${log.action} ${log.category} ${JSON.stringify(log.metadata ?? {})}`);
+      if (!tokenize(query.text).every(term => words.some(w => w.startsWith(term)))) return false;
+    }
+    return !query.predicate || query.predicate(log);
+  }
+
+  /**
+   * Combines two queries so entries must satisfy both.
+   */
+  static merge(a: AuditQuery, b: AuditQuery): AuditQuery {
+    const merged: AuditQuery = { ...a, ...b };
+    if (a.category && b.category && a.category !== b.category) {
+      merged.predicate = () => false;
+      return merged;
+    }
+    merged.category = a.category ?? b.category;
+    if (a.since !== undefined || b.since !== undefined) merged.since = Math.max(a.since ?? -Infinity, b.since ?? -Infinity);
+    if (a.until !== undefined || b.until !== undefined) merged.until = Math.min(a.until ?? Infinity, b.until ?? Infinity);
+    const text = [a.text, b.text].filter(Boolean).join(' ');
+    merged.text = text || undefined;
+    if (a.predicate && b.predicate) merged.predicate = log => a.predicate!(log) && b.predicate!(log);
+    return merged;
+  }
+
+  static getSavedSearches(owner = DEFAULT_SEARCH_OWNER): SavedSearch[] {
+    return this.loadAll()[owner] ?? [];
+  }
+
+  /**
+   * Saves under `name`, replacing any existing search with the same name.
+   */
+  static saveSearch(name: string, query: string, owner = DEFAULT_SEARCH_OWNER): SavedSearch[] {
+    const all = this.loadAll();
+    const search: SavedSearch = { id: `SRCH-${Date.now().toString(36).toUpperCase()}`, name: name.trim(), query: query.trim(), createdAt: Date.now() };
+    all[owner] = [...(all[owner] ?? []).filter(s => s.name.toLowerCase() !== search.name.toLowerCase()), search];
+    this.saveAll(all);
+    return all[owner];
+  }
+
+  static deleteSearch(id: string, owner = DEFAULT_SEARCH_OWNER): SavedSearch[] {
+    const all = this.loadAll();
+    all[owner] = (all[owner] ?? []).filter(s => s.id !== id);
+    this.saveAll(all);
+    return all[owner];
+  }
+
+  private static loadAll(): Record<string, SavedSearch[]> {
+    try {
+      const saved = localStorage.getItem(SAVED_SEARCHES_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      console.error("Failed to load saved searches:", e);
+      return {};
+    }
+  }
+
+  private static saveAll(all: Record<string, SavedSearch[]>) {
+    localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(all));
+  }
+}
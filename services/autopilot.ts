@@ -0,0 +1,234 @@
+
+import { AuditLog, LogCategory, MiningBot } from "../types";
+import { LoggerService } from "./logger";
+import { BotEventBus } from "./botEvents";
+import { MiningService } from "./mining";
+import { CatalogService } from "./catalog";
+import { TelemetryService } from "./telemetry";
+
+const POLICY_STORAGE_KEY = 'cloudmine_autopilot_policy';
+const MS_PER_MINUTE = 60 * 1000;
+
+// Degrees below the limit a throttled bot must cool to before hashrate is restored
+const THROTTLE_HYSTERESIS_C = 5;
+
+export type AutopilotPolicyKind = 'switch-algorithm' | 'throttle' | 'restore' | 'pause-on-errors';
+
+export interface AutopilotPolicy {
+  switchEnabled: boolean;
+  /** Another algorithm must project at least this much more daily yield. */
+  switchMarginPct: number;
+  /** Minimum time on an algorithm before the autopilot moves it again. */
+  minDwellMinutes: number;
+  throttleEnabled: boolean;
+  tempLimit: number;
+  throttleStepPct: number;
+  /** Throttling never sheds more than this share of the pre-throttle hashrate. */
+  maxThrottlePct: number;
+  pauseEnabled: boolean;
+  errorThreshold: number;
+  errorWindowMinutes: number;
+}
+
+export const DEFAULT_AUTOPILOT_POLICY: AutopilotPolicy = {
+  switchEnabled: true,
+  switchMarginPct: 10,
+  minDwellMinutes: 30,
+  throttleEnabled: true,
+  tempLimit: 80,
+  throttleStepPct: 10,
+  maxThrottlePct: 50,
+  pauseEnabled: true,
+  errorThreshold: 3,
+  errorWindowMinutes: 60
+};
+
+export interface AutopilotDecision {
+  botId: string;
+  botName: string;
+  policy: AutopilotPolicyKind;
+  /** Short form written to `MiningBot.lastAction`. */
+  summary: string;
+  reasoning: string;
+  updates: Partial<MiningBot>;
+  details: Record<string, any>;
+}
+
+const AUTOPILOT_ACTIONS: Record<AutopilotPolicyKind, string> = {
+  'switch-algorithm': "Autopilot switched algorithm",
+  'throttle': "Autopilot throttled bot",
+  'restore': "Autopilot restored hashrate",
+  'pause-on-errors': "Autopilot paused bot"
+};
+
+const round = (value: number, digits = 2) => parseFloat(value.toFixed(digits));
+
+/**
+ * Runs the policies for bots with `isAutoPilot` set. `evaluate` is pure over
+ * the fleet it is given apart from the engine's own memory of recent errors
+ * and algorithm switches, which it learns from the audit stream.
+ */
+export class AutopilotService {
+  private static policy: AutopilotPolicy | null = null;
+  private static errorsByBot = new Map<string, number[]>();
+  private static lastSwitchAt = new Map<string, number>();
+
+  /**
+   * Watches the audit stream for error transitions and algorithm changes;
+   * returns the unsubscribe function.
+   */
+  static start(): () => void {
+    const handler = (e: Event) => this.observe((e as CustomEvent<AuditLog>).detail);
+    window.addEventListener('audit-log-updated', handler);
+    return () => window.removeEventListener('audit-log-updated', handler);
+  }
+
+  static observe(log: AuditLog) {
+    const botId = log?.metadata?.botId;
+    if (!botId) return;
+    if (log.action === "Bot status changed" && log.metadata!.to === 'error') {
+      this.errorsByBot.set(botId, [...(this.errorsByBot.get(botId) ?? []), log.timestamp]);
+    } else if (log.action === "Bot algorithm reconfigured" || log.action === AUTOPILOT_ACTIONS['switch-algorithm']) {
+      this.lastSwitchAt.set(botId, log.timestamp);
+    }
+  }
+
+  /**
+   * At most one decision per bot per pass, in priority order: pause on
+   * repeated errors, thermal throttle or restore, then algorithm switch.
+   */
+  static evaluate(bots: MiningBot[], priceFactor = 1, now = Date.now(), policy = this.getPolicy()): AutopilotDecision[] {
+    return bots
+      .filter(bot => bot.isAutoPilot)
+      .map(bot => this.pauseOnErrors(bot, policy, now) ?? this.thermal(bot, policy, now) ?? this.switchAlgorithm(bot, policy, priceFactor, now))
+      .filter((d): d is AutopilotDecision => d !== null);
+  }
+
+  /**
+   * Merges decisions into the current fleet.
+   */
+  static apply(bots: MiningBot[], decisions: AutopilotDecision[]): MiningBot[] {
+    const byBot = new Map(decisions.map(d => [d.botId, d]));
+    return bots.map(bot => {
+      const decision = byBot.get(bot.id);
+      return decision ? { ...bot, ...decision.updates, lastAction: decision.summary } : bot;
+    });
+  }
+
+  /**
+   * Writes a decision to the audit ledger with its reasoning and announces it
+   * on the bot event bus.
+   */
+  static record(decision: AutopilotDecision) {
+    if (decision.policy === 'switch-algorithm') this.lastSwitchAt.set(decision.botId, Date.now());
+    if (decision.policy === 'pause-on-errors') this.errorsByBot.delete(decision.botId);
+    BotEventBus.emit('autopilot', decision.botName, decision.summary, { botId: decision.botId, metadata: { policy: decision.policy, reasoning: decision.reasoning } });
+    LoggerService.log(LogCategory.OPERATION, AUTOPILOT_ACTIONS[decision.policy], {
+      botId: decision.botId,
+      botName: decision.botName,
+      policy: decision.policy,
+      reasoning: decision.reasoning,
+      ...decision.details
+    });
+  }
+
+  static getPolicy(): AutopilotPolicy {
+    if (!this.policy) {
+      try {
+        const saved = localStorage.getItem(POLICY_STORAGE_KEY);
+        this.policy = saved ? { ...DEFAULT_AUTOPILOT_POLICY, ...JSON.parse(saved) } : DEFAULT_AUTOPILOT_POLICY;
+      } catch (e) {
+        console.error("Failed to load autopilot policy:", e);
+        this.policy = DEFAULT_AUTOPILOT_POLICY;
+      }
+    }
+    return this.policy!;
+  }
+
+  static savePolicy(policy: AutopilotPolicy) {
+    this.policy = policy;
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy));
+  }
+
+  private static pauseOnErrors(bot: MiningBot, policy: AutopilotPolicy, now: number): AutopilotDecision | null {
+    const cutoff = now - policy.errorWindowMinutes * MS_PER_MINUTE;
+    const errors = (this.errorsByBot.get(bot.id) ?? []).filter(t => t >= cutoff);
+    this.errorsByBot.set(bot.id, errors);
+    if (!policy.pauseEnabled || bot.status === 'paused' || errors.length < policy.errorThreshold) return null;
+    return {
+      botId: bot.id,
+      botName: bot.name,
+      policy: 'pause-on-errors',
+      summary: `Autopilot paused after ${errors.length} errors`,
+      reasoning: `Entered the error state ${errors.length} times in the last ${policy.errorWindowMinutes} min (limit ${policy.errorThreshold}); paused until someone investigates.`,
+      updates: { status: 'paused' },
+      details: { errorCount: errors.length, windowMinutes: policy.errorWindowMinutes, threshold: policy.errorThreshold }
+    };
+  }
+
+  private static thermal(bot: MiningBot, policy: AutopilotPolicy, now: number): AutopilotDecision | null {
+    if (!policy.throttleEnabled || bot.status !== 'active') return null;
+    // A live rig reports its own hashrate on every reading, so throttling or
+    // restoring the configured value would change nothing but the audit trail
+    if (TelemetryService.isLive(bot, now)) return null;
+    const ratedHashrate = bot.throttledFrom ?? bot.hashrate;
+
+    if (bot.temp > policy.tempLimit) {
+      const floor = ratedHashrate * (1 - policy.maxThrottlePct / 100);
+      const next = Math.max(floor, bot.hashrate * (1 - policy.throttleStepPct / 100));
+      if (next >= bot.hashrate) return null;
+      return {
+        botId: bot.id,
+        botName: bot.name,
+        policy: 'throttle',
+        summary: `Autopilot throttled to ${next.toFixed(1)} MH/s at ${bot.temp}°C`,
+        reasoning: `Temperature ${bot.temp}°C is above the ${policy.tempLimit}°C limit; shed ${policy.throttleStepPct}% of hashrate${next === floor ? `, reaching the ${policy.maxThrottlePct}% throttle floor` : ''}.`,
+        updates: { hashrate: round(next), throttledFrom: ratedHashrate },
+        details: { temp: bot.temp, tempLimit: policy.tempLimit, fromHashrate: round(bot.hashrate), toHashrate: round(next), ratedHashrate: round(ratedHashrate) }
+      };
+    }
+
+    if (bot.throttledFrom !== undefined && bot.temp <= policy.tempLimit - THROTTLE_HYSTERESIS_C) {
+      return {
+        botId: bot.id,
+        botName: bot.name,
+        policy: 'restore',
+        summary: `Autopilot restored ${bot.throttledFrom.toFixed(1)} MH/s`,
+        reasoning: `Temperature ${bot.temp}°C is back at least ${THROTTLE_HYSTERESIS_C}°C under the ${policy.tempLimit}°C limit; restored the pre-throttle hashrate.`,
+        updates: { hashrate: bot.throttledFrom, throttledFrom: undefined },
+        details: { temp: bot.temp, tempLimit: policy.tempLimit, fromHashrate: round(bot.hashrate), toHashrate: round(bot.throttledFrom) }
+      };
+    }
+    return null;
+  }
+
+  private static switchAlgorithm(bot: MiningBot, policy: AutopilotPolicy, priceFactor: number, now: number): AutopilotDecision | null {
+    if (!policy.switchEnabled || bot.status !== 'active') return null;
+    // Never move a bot that is over its thermal limit onto a heavier workload
+    if (policy.throttleEnabled && bot.temp > policy.tempLimit) return null;
+    const lastSwitch = this.lastSwitchAt.get(bot.id);
+    if (lastSwitch !== undefined && now - lastSwitch < policy.minDwellMinutes * MS_PER_MINUTE) return null;
+
+    const currentYield = MiningService.getDailyYield(bot, priceFactor);
+    const best = CatalogService.allowedAlgorithms(bot)
+      .filter(algo => algo !== bot.algorithm)
+      .map(algo => {
+        const candidate = MiningService.switchAlgorithm(bot, algo);
+        return { algo, candidate, dailyYield: MiningService.getDailyYield(candidate, priceFactor) };
+      })
+      .sort((a, b) => b.dailyYield - a.dailyYield)[0];
+    if (!best || currentYield <= 0) return null;
+
+    const gainPct = ((best.dailyYield - currentYield) / currentYield) * 100;
+    if (gainPct < policy.switchMarginPct) return null;
+    return {
+      botId: bot.id,
+      botName: bot.name,
+      policy: 'switch-algorithm',
+      summary: `Autopilot switched ${bot.algorithm} → ${best.algo} (+${gainPct.toFixed(1)}%)`,
+      reasoning: `${best.algo} projects $${best.dailyYield.toFixed(2)}/day against $${currentYield.toFixed(2)}/day on ${bot.algorithm}, ${gainPct.toFixed(1)}% better and over the ${policy.switchMarginPct}% switch margin.`,
+      updates: { algorithm: best.algo, hashrate: round(best.candidate.hashrate), throttledFrom: bot.throttledFrom && round(bot.throttledFrom * (best.candidate.hashrate / bot.hashrate)) },
+      details: { oldAlgo: bot.algorithm, newAlgo: best.algo, currentYield: round(currentYield), projectedYield: round(best.dailyYield), gainPct: round(gainPct, 1), marginPct: policy.switchMarginPct }
+    };
+  }
+}
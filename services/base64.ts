@@ -0,0 +1,19 @@
+
+/**
+ * Base64 encoding for binary crypto output (sealed values, signatures),
+ * shared by the services that store or export it as text.
+ */
+
+// Spreading a large buffer into fromCharCode overflows the call stack, so encode in slices
+const BASE64_CHUNK = 0x8000;
+
+export const toBase64 = (data: ArrayBuffer | Uint8Array): string => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
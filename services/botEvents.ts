@@ -0,0 +1,37 @@
+
+import { BotEvent, BotEventType } from "../types";
+
+// Events kept in memory so a freshly mounted feed has recent history to show
+const HISTORY_LIMIT = 200;
+
+export const BOT_EVENT_TYPES: BotEventType[] = ['status', 'algorithm', 'tuning', 'autopilot', 'diagnostics', 'provisioning'];
+
+/**
+ * In-page bus for bot activity. Producers call `emit`; listeners receive
+ * each event as a `bot-event` window event and can read back recent history.
+ */
+export class BotEventBus {
+  private static history: BotEvent[] = [];
+
+  static emit(type: BotEventType, botName: string, message: string, options: { botId?: string; metadata?: Record<string, any> } = {}): BotEvent {
+    const event: BotEvent = {
+      id: `EVT-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
+      timestamp: Date.now(),
+      type,
+      botId: options.botId,
+      botName,
+      message,
+      metadata: options.metadata
+    };
+    this.history = [event, ...this.history].slice(0, HISTORY_LIMIT);
+    window.dispatchEvent(new CustomEvent('bot-event', { detail: event }));
+    return event;
+  }
+
+  /**
+   * Newest first.
+   */
+  static recent(limit = HISTORY_LIMIT): BotEvent[] {
+    return this.history.slice(0, limit);
+  }
+}
@@ -0,0 +1,158 @@
+
+import { BotEventType, LogCategory, MiningBot } from "../types";
+import { LoggerService } from "./logger";
+import { BotEventBus } from "./botEvents";
+import { MiningService } from "./mining";
+import { CatalogService } from "./catalog";
+
+export type TuningPresetId = 'eco' | 'performance' | 'max';
+
+export interface TuningPreset {
+  label: string;
+  hashrateScale: number;
+  efficiencyDelta: number;
+}
+
+export const TUNING_PRESETS: Record<TuningPresetId, TuningPreset> = {
+  eco: { label: 'Eco (-20% hash, +5% eff.)', hashrateScale: 0.8, efficiencyDelta: 0.05 },
+  performance: { label: 'Performance (+15% hash, -5% eff.)', hashrateScale: 1.15, efficiencyDelta: -0.05 },
+  max: { label: 'Max (+30% hash, -12% eff.)', hashrateScale: 1.3, efficiencyDelta: -0.12 }
+};
+
+// Same bounds as the per-bot tuning sliders
+const HASHRATE_RANGE = { min: 10, max: 5000 };
+const MIN_EFFICIENCY = 0.5;
+
+export type BulkOperation =
+  | { kind: 'pause' }
+  | { kind: 'resume' }
+  | { kind: 'switch-algorithm'; algorithm: string }
+  | { kind: 'autopilot'; enabled: boolean }
+  | { kind: 'tuning'; preset: TuningPresetId };
+
+export interface BulkChange {
+  bot: MiningBot;
+  /** Fields to merge into the bot; empty when the bot is skipped. */
+  updates: Partial<MiningBot>;
+  skipped?: string;
+  hashrateDelta: number;
+  yieldDelta: number;
+}
+
+export interface BulkPreview {
+  operation: BulkOperation;
+  label: string;
+  changes: BulkChange[];
+  hashrateDelta: number;
+  yieldDelta: number;
+}
+
+const BULK_EVENT_TYPES: Record<BulkOperation['kind'], BotEventType> = {
+  'pause': 'status',
+  'resume': 'status',
+  'switch-algorithm': 'algorithm',
+  'autopilot': 'autopilot',
+  'tuning': 'tuning'
+};
+
+const round = (value: number, digits = 2) => parseFloat(value.toFixed(digits));
+
+const describe = (operation: BulkOperation): string => {
+  switch (operation.kind) {
+    case 'pause': return 'Pause';
+    case 'resume': return 'Resume';
+    case 'switch-algorithm': return `Switch to ${operation.algorithm}`;
+    case 'autopilot': return `Autopilot ${operation.enabled ? 'on' : 'off'}`;
+    case 'tuning': return `Tuning preset: ${TUNING_PRESETS[operation.preset].label}`;
+  }
+};
+
+/**
+ * Applies one operation across a selection of bots. The preview holds the
+ * exact updates that will be merged, so confirming never re-rolls anything
+ * the user was shown.
+ */
+export class BulkOperationService {
+  static preview(bots: MiningBot[], operation: BulkOperation, priceFactor = 1): BulkPreview {
+    const changes = bots.map((bot): BulkChange => {
+      const result = this.change(bot, operation);
+      if (typeof result === 'string') return { bot, updates: {}, skipped: result, hashrateDelta: 0, yieldDelta: 0 };
+      const next = { ...bot, ...result };
+      const effectiveHashrate = (b: MiningBot) => b.status === 'active' ? b.hashrate : 0;
+      return {
+        bot,
+        updates: result,
+        hashrateDelta: effectiveHashrate(next) - effectiveHashrate(bot),
+        yieldDelta: MiningService.getDailyYield(next, priceFactor) - MiningService.getDailyYield(bot, priceFactor)
+      };
+    });
+    return {
+      operation,
+      label: describe(operation),
+      changes,
+      hashrateDelta: changes.reduce((sum, c) => sum + c.hashrateDelta, 0),
+      yieldDelta: changes.reduce((sum, c) => sum + c.yieldDelta, 0)
+    };
+  }
+
+  /**
+   * Merges a confirmed preview into the current fleet.
+   */
+  static apply(bots: MiningBot[], preview: BulkPreview): MiningBot[] {
+    const byBot = new Map(preview.changes.filter(c => !c.skipped).map(c => [c.bot.id, c.updates]));
+    return bots.map(bot => byBot.has(bot.id) ? { ...bot, ...byBot.get(bot.id) } : bot);
+  }
+
+  /**
+   * One audit entry for the whole operation, referencing every affected bot.
+   */
+  static record(preview: BulkPreview) {
+    const applied = preview.changes.filter(c => !c.skipped);
+    if (applied.length === 0) return;
+    BotEventBus.emit(BULK_EVENT_TYPES[preview.operation.kind], `${applied.length} bots`, `Bulk ${preview.label.toLowerCase()}`, {
+      metadata: { botIds: applied.map(c => c.bot.id) }
+    });
+    LoggerService.log(LogCategory.OPERATION, "Bulk operation applied", {
+      operation: preview.operation,
+      label: preview.label,
+      botIds: applied.map(c => c.bot.id),
+      skippedBotIds: preview.changes.filter(c => c.skipped).map(c => c.bot.id),
+      hashrateDelta: round(preview.hashrateDelta),
+      yieldDelta: round(preview.yieldDelta),
+      changes: applied.map(c => ({ botId: c.bot.id, botName: c.bot.name, updates: c.updates }))
+    });
+  }
+
+  /**
+   * Updates for one bot, or the reason it is left alone.
+   */
+  private static change(bot: MiningBot, operation: BulkOperation): Partial<MiningBot> | string {
+    switch (operation.kind) {
+      case 'pause':
+        if (bot.status !== 'active') return `already ${bot.status}`;
+        return { status: 'paused', hashrate: 0 };
+      case 'resume':
+        if (bot.status === 'active') return 'already active';
+        // Matches a single-bot resume, which restarts at a fresh warm-up rate
+        return { status: 'active', hashrate: round(Math.random() * 40 + 20) };
+      case 'switch-algorithm': {
+        if (bot.algorithm === operation.algorithm) return `already on ${operation.algorithm}`;
+        if (!CatalogService.allowedAlgorithms(bot).includes(operation.algorithm)) return `hardware cannot run ${operation.algorithm}`;
+        const next = MiningService.switchAlgorithm(bot, operation.algorithm);
+        const ratio = bot.hashrate > 0 ? next.hashrate / bot.hashrate : 1;
+        return { algorithm: next.algorithm, hashrate: round(next.hashrate), throttledFrom: bot.throttledFrom && round(bot.throttledFrom * ratio) };
+      }
+      case 'autopilot':
+        if (!!bot.isAutoPilot === operation.enabled) return `autopilot already ${operation.enabled ? 'on' : 'off'}`;
+        return { isAutoPilot: operation.enabled };
+      case 'tuning': {
+        if (bot.status === 'paused') return 'paused';
+        const preset = TUNING_PRESETS[operation.preset];
+        const hashrate = Math.min(HASHRATE_RANGE.max, Math.max(HASHRATE_RANGE.min, bot.hashrate * preset.hashrateScale));
+        const efficiency = Math.min(Math.max(1, bot.efficiency), Math.max(MIN_EFFICIENCY, bot.efficiency + preset.efficiencyDelta));
+        // A hand-set hashrate becomes the new baseline for thermal throttling
+        return { hashrate: round(hashrate), efficiency: round(efficiency), throttledFrom: undefined };
+      }
+    }
+  }
+}
@@ -0,0 +1,209 @@
+
+import { MiningBot } from "../types";
+import { MiningService, MINING_ALGORITHMS } from "./mining";
+
+export const CATALOG_URL = '/catalog/bot-tiers.json';
+
+// Catalog files with a different major version are rejected rather than misread
+export const CATALOG_VERSION = 1;
+
+export interface BotTier {
+  tierId: string;
+  name: string;
+  basePrice: number;
+  /** Rated hashrate on `defaultAlgorithm`. */
+  hashrate: number;
+  efficiency: number;
+  description: string;
+  icon: string;
+  color: string;
+  colorClass: string;
+  algorithms: string[];
+  defaultAlgorithm: string;
+  powerWatts: number;
+  lifetimeDays: number;
+  /** Temperature a freshly provisioned bot reports before load. */
+  idleTemp: number;
+  /** Tier ids this tier can be upgraded to in place. */
+  upgradesTo: string[];
+}
+
+export interface BotCatalog {
+  version: number;
+  updatedAt?: string;
+  tiers: BotTier[];
+}
+
+type NumberField = 'basePrice' | 'hashrate' | 'efficiency' | 'powerWatts' | 'lifetimeDays' | 'idleTemp';
+type StringField = 'name' | 'description' | 'icon' | 'color' | 'colorClass' | 'defaultAlgorithm';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Narrows one catalog entry into a fresh tier, or throws naming the field.
+ */
+const parseTier = (raw: unknown, i: number): BotTier => {
+  if (!isRecord(raw)) throw new Error(`Tier ${i} must be an object`);
+  const { tierId, algorithms } = raw;
+  if (typeof tierId !== 'string' || !tierId) throw new Error(`Tier ${i} has no tierId`);
+  const where = `Tier ${tierId}`;
+  const num = (key: NumberField): number => {
+    const value = raw[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${where}: ${key} must be a number`);
+    return value;
+  };
+  const str = (key: StringField): string => {
+    const value = raw[key];
+    if (typeof value !== 'string') throw new Error(`${where}: ${key} must be a string`);
+    return value;
+  };
+
+  if (!isStringList(algorithms) || algorithms.length === 0) throw new Error(`${where}: algorithms must be a non-empty list`);
+  const unknown = algorithms.find(algo => !MINING_ALGORITHMS.includes(algo));
+  if (unknown) throw new Error(`${where}: unknown algorithm ${unknown}`);
+  const defaultAlgorithm = str('defaultAlgorithm');
+  if (!algorithms.includes(defaultAlgorithm)) throw new Error(`${where}: defaultAlgorithm must be one of its algorithms`);
+  const upgradesTo = raw.upgradesTo ?? [];
+  if (!isStringList(upgradesTo)) throw new Error(`${where}: upgradesTo must be a list of tier ids`);
+
+  return {
+    tierId,
+    name: str('name'),
+    basePrice: num('basePrice'),
+    hashrate: num('hashrate'),
+    efficiency: num('efficiency'),
+    description: str('description'),
+    icon: str('icon'),
+    color: str('color'),
+    colorClass: str('colorClass'),
+    algorithms: [...algorithms],
+    defaultAlgorithm,
+    powerWatts: num('powerWatts'),
+    lifetimeDays: num('lifetimeDays'),
+    idleTemp: num('idleTemp'),
+    upgradesTo: [...upgradesTo]
+  };
+};
+
+/**
+ * Checks a parsed catalog file and returns a typed copy, or throws naming
+ * the first problem found. The input is never modified.
+ */
+export const parseCatalog = (raw: unknown): BotCatalog => {
+  if (!isRecord(raw) || !Array.isArray(raw.tiers)) throw new Error("Catalog must be an object with a `tiers` array");
+  const { version, updatedAt } = raw;
+  if (typeof version !== 'number' || Math.floor(version) !== CATALOG_VERSION) throw new Error(`Unsupported catalog version ${version}; expected ${CATALOG_VERSION}.x`);
+  if (updatedAt !== undefined && typeof updatedAt !== 'string') throw new Error("Catalog updatedAt must be a string");
+
+  const tiers = raw.tiers.map(parseTier);
+  const ids = new Set<string>();
+  tiers.forEach(tier => {
+    if (ids.has(tier.tierId)) throw new Error(`Tier ${tier.tierId} is listed twice`);
+    ids.add(tier.tierId);
+  });
+  tiers.forEach(tier => {
+    const missing = tier.upgradesTo.find(id => !ids.has(id));
+    if (missing) throw new Error(`Tier ${tier.tierId}: upgrade target ${missing} is not in the catalog`);
+  });
+  return { version, updatedAt: typeof updatedAt === 'string' ? updatedAt : undefined, tiers };
+};
+
+/**
+ * The marketplace tier catalog, loaded from a versioned JSON file so tiers
+ * can be added without a code change. Lookups made before the catalog has
+ * loaded fall back to treating the bot as untiered.
+ */
+export class CatalogService {
+  private static loadPromise: Promise<BotCatalog> | null = null;
+  private static catalog: BotCatalog | null = null;
+
+  static load(url = CATALOG_URL): Promise<BotCatalog> {
+    if (!this.loadPromise) {
+      this.loadPromise = fetch(url)
+        .then(res => {
+          if (!res.ok) throw new Error(`Failed to fetch tier catalog: ${res.status}`);
+          return res.json();
+        })
+        .then(raw => {
+          this.catalog = parseCatalog(raw);
+          return this.catalog;
+        });
+      this.loadPromise.catch(() => { this.loadPromise = null; });
+    }
+    return this.loadPromise;
+  }
+
+  static getTier(tierId?: string): BotTier | undefined {
+    return tierId ? this.catalog?.tiers.find(t => t.tierId === tierId) : undefined;
+  }
+
+  static tierFor(bot: MiningBot): BotTier | undefined {
+    return this.getTier(bot.tierId);
+  }
+
+  /**
+   * Algorithms the bot's hardware can run; untiered bots can run all of them.
+   */
+  static allowedAlgorithms(bot: MiningBot): string[] {
+    return this.tierFor(bot)?.algorithms ?? MINING_ALGORITHMS;
+  }
+
+  static upgradeTargets(bot: MiningBot): BotTier[] {
+    return (this.tierFor(bot)?.upgradesTo ?? [])
+      .map(id => this.getTier(id))
+      .filter((t): t is BotTier => !!t);
+  }
+
+  /**
+   * A freshly provisioned bot of this tier, on its default algorithm.
+   */
+  static provision(tier: BotTier, profit24h: number, now = Date.now()): MiningBot {
+    return {
+      id: `BOT-${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+      name: tier.name,
+      status: 'active',
+      hashrate: tier.hashrate,
+      efficiency: tier.efficiency,
+      temp: tier.idleTemp,
+      profit24h,
+      balance: 0,
+      algorithm: tier.defaultAlgorithm,
+      isAutoPilot: false,
+      tierId: tier.tierId,
+      purchasedAt: now,
+      purchasePrice: tier.basePrice
+    };
+  }
+
+  /**
+   * Price of moving a bot up to `target`: the difference between the two
+   * tiers' list prices.
+   */
+  static upgradePrice(bot: MiningBot, target: BotTier): number {
+    const current = this.tierFor(bot);
+    return Math.max(0, target.basePrice - (current?.basePrice ?? 0));
+  }
+
+  /**
+   * The bot re-specced as `target`, keeping its id, balance, labels and
+   * history. It stays on its algorithm if the new tier supports it.
+   */
+  static upgrade(bot: MiningBot, target: BotTier): MiningBot {
+    const algorithm = target.algorithms.includes(bot.algorithm) ? bot.algorithm : target.defaultAlgorithm;
+    const rated = MiningService.switchAlgorithm({ ...bot, algorithm: target.defaultAlgorithm, hashrate: target.hashrate }, algorithm);
+    return {
+      ...bot,
+      name: bot.name === this.tierFor(bot)?.name ? target.name : bot.name,
+      tierId: target.tierId,
+      algorithm,
+      hashrate: bot.status === 'active' ? parseFloat(rated.hashrate.toFixed(2)) : bot.hashrate,
+      efficiency: target.efficiency,
+      throttledFrom: undefined,
+      purchasePrice: (bot.purchasePrice ?? 0) + this.upgradePrice(bot, target)
+    };
+  }
+}
@@ -0,0 +1,96 @@
+
+import { MiningBot } from "../types";
+
+export const BOT_REGIONS: { id: string; label: string }[] = [
+  { id: 'us-east', label: 'US East' },
+  { id: 'us-west', label: 'US West' },
+  { id: 'eu-central', label: 'EU Central' },
+  { id: 'ap-southeast', label: 'Asia Pacific' }
+];
+
+export const UNGROUPED = 'Ungrouped';
+export const UNASSIGNED_REGION = 'Unassigned';
+
+export type GroupDimension = 'group' | 'region';
+
+/**
+ * Narrows a fleet to one group, region and/or tag; unset fields match every bot.
+ */
+export interface BotFilter {
+  group?: string;
+  region?: string;
+  tag?: string;
+}
+
+export interface GroupSummary {
+  key: string;
+  label: string;
+  botCount: number;
+  activeCount: number;
+  /** Hashrate of active bots only. */
+  hashrate: number;
+  profit24h: number;
+  avgTemp: number;
+}
+
+export const regionLabel = (regionId?: string) =>
+  BOT_REGIONS.find(r => r.id === regionId)?.label ?? regionId ?? UNASSIGNED_REGION;
+
+/**
+ * Group, region and tag bookkeeping for the fleet. Groups are whatever names
+ * the user has assigned, so they come and go with the bots that carry them.
+ */
+export class FleetGroupService {
+  static groupsOf(bots: MiningBot[]): string[] {
+    return [...new Set(bots.map(b => b.group).filter((g): g is string => !!g))].sort();
+  }
+
+  static regionsOf(bots: MiningBot[]): string[] {
+    return [...new Set(bots.map(b => b.region).filter((r): r is string => !!r))].sort();
+  }
+
+  static tagsOf(bots: MiningBot[]): string[] {
+    return [...new Set(bots.flatMap(b => b.tags ?? []))].sort();
+  }
+
+  static matches(bot: MiningBot, filter: BotFilter): boolean {
+    if (filter.group && (bot.group || UNGROUPED) !== filter.group) return false;
+    if (filter.region && (bot.region || UNASSIGNED_REGION) !== filter.region) return false;
+    if (filter.tag && !(bot.tags ?? []).includes(filter.tag)) return false;
+    return true;
+  }
+
+  static filter(bots: MiningBot[], filter: BotFilter): MiningBot[] {
+    return bots.filter(bot => this.matches(bot, filter));
+  }
+
+  /**
+   * Hashrate, profit run-rate and average temperature per group or region,
+   * largest hashrate first. Bots without one are summarised together.
+   */
+  static aggregate(bots: MiningBot[], dimension: GroupDimension): GroupSummary[] {
+    const buckets = new Map<string, MiningBot[]>();
+    bots.forEach(bot => {
+      const key = dimension === 'group' ? bot.group || UNGROUPED : bot.region || UNASSIGNED_REGION;
+      buckets.set(key, [...(buckets.get(key) ?? []), bot]);
+    });
+    return [...buckets.entries()]
+      .map(([key, members]) => ({
+        key,
+        label: dimension === 'region' ? regionLabel(key) : key,
+        botCount: members.length,
+        activeCount: members.filter(b => b.status === 'active').length,
+        hashrate: members.filter(b => b.status === 'active').reduce((sum, b) => sum + b.hashrate, 0),
+        profit24h: members.reduce((sum, b) => sum + b.profit24h, 0),
+        avgTemp: members.reduce((sum, b) => sum + b.temp, 0) / members.length
+      }))
+      .sort((a, b) => b.hashrate - a.hashrate);
+  }
+
+  /**
+   * Splits free-text tag input on commas, trimming and de-duplicating.
+   */
+  static parseTags(input: string): string[] {
+    return [...new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
+  }
+}
@@ -0,0 +1,44 @@
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+const DB_NAME = 'cloudmine_signing';
+const DB_VERSION = 1;
+const KEY_STORE = 'keys';
+
+/**
+ * Persists Web Crypto keys in IndexedDB. Keys are stored as CryptoKey handles,
+ * so non-extractable private material never exists as bytes in page memory.
+ */
+export class KeyStore {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static pending = new Map<string, Promise<any>>();
+
+  /**
+   * Returns the key stored under `id`, creating and storing it on first use.
+   */
+  static getOrCreate<T extends CryptoKey | CryptoKeyPair>(id: string, create: () => Promise<T>): Promise<T> {
+    if (!this.pending.has(id)) {
+      const promise = (async () => {
+        const db = await this.getDB();
+        const saved: T | undefined = await requestToPromise(db.transaction(KEY_STORE).objectStore(KEY_STORE).get(id));
+        if (saved) return saved;
+        const key = await create();
+        const tx = db.transaction(KEY_STORE, 'readwrite');
+        tx.objectStore(KEY_STORE).put(key, id);
+        await transactionDone(tx);
+        return key;
+      })();
+      promise.catch(() => this.pending.delete(id));
+      this.pending.set(id, promise);
+    }
+    return this.pending.get(id)!;
+  }
+
+  private static getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(KEY_STORE);
+      });
+    }
+    return this.dbPromise;
+  }
+}
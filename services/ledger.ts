@@ -0,0 +1,285 @@
+
+import { AssetSymbol, LedgerAccount, LedgerEntry, Transaction, TransactionKind } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { ASSETS, AssetService } from "./assets";
+
+const DB_NAME = 'cloudmine_ledger';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const TRANSACTION_STORE = 'transactions';
+
+const OPENING_BALANCE = 5420.55;
+const OPENING_TX_ID = 'OPEN-000000';
+
+// Amounts are compared with a tolerance so float drift never unbalances a journal.
+const BALANCE_EPSILON = 1e-9;
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  asset?: AssetSymbol; // defaults to the transaction asset
+  debit?: number;
+  credit?: number;
+}
+
+export interface LedgerSnapshot {
+  entries: LedgerEntry[];
+  transactions: Transaction[];
+}
+
+export class LedgerService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static seedPromise: Promise<void> | null = null;
+
+  private static getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        entries.createIndex('txId', 'txId');
+        entries.createIndex('account', 'account');
+        const transactions = db.createObjectStore(TRANSACTION_STORE, { keyPath: 'id' });
+        transactions.createIndex('timestamp', 'timestamp');
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Opens the ledger and seeds the opening balance on first run.
+   */
+  static async init(): Promise<LedgerSnapshot> {
+    if (!this.seedPromise) this.seedPromise = this.seedOpeningBalance();
+    await this.seedPromise;
+    return this.getSnapshot();
+  }
+
+  private static async seedOpeningBalance() {
+    const db = await this.getDB();
+    const count = await requestToPromise(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).count());
+    if (count === 0) {
+      const opening: Transaction = {
+        id: OPENING_TX_ID,
+        timestamp: Date.now(),
+        kind: 'opening',
+        asset: 'USD',
+        amount: OPENING_BALANCE,
+        netAmount: OPENING_BALANCE,
+        address: 'LEDGER_OPENING_BALANCE',
+        status: 'confirmed'
+      };
+      await this.post(opening, [
+        { account: LedgerAccount.WALLET, debit: OPENING_BALANCE },
+        { account: LedgerAccount.OPENING_EQUITY, credit: OPENING_BALANCE }
+      ], "Opening balance carried forward");
+    }
+  }
+
+  static async getSnapshot(): Promise<LedgerSnapshot> {
+    const db = await this.getDB();
+    const tx = db.transaction([ENTRY_STORE, TRANSACTION_STORE]);
+    const [entries, transactions] = await Promise.all([
+      requestToPromise(tx.objectStore(ENTRY_STORE).getAll() as IDBRequest<LedgerEntry[]>),
+      requestToPromise(tx.objectStore(TRANSACTION_STORE).getAll() as IDBRequest<Transaction[]>)
+    ]);
+    // Records written before multi-asset support are USD-denominated
+    return {
+      entries: entries
+        .map(e => ({ ...e, asset: e.asset ?? 'USD' }))
+        .sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id)),
+      transactions: transactions
+        .filter(t => t.id !== OPENING_TX_ID)
+        .map(t => ({ ...t, asset: t.asset ?? 'USD', kind: t.kind ?? this.inferKind(t.id) }))
+        .sort((a, b) => b.timestamp - a.timestamp)
+    };
+  }
+
+  private static inferKind(txId: string): TransactionKind {
+    if (txId.startsWith('DEP-')) return 'deposit';
+    if (txId.startsWith('PURCHASE-')) return 'purchase';
+    if (txId.startsWith('SWEEP-')) return 'sweep';
+    if (txId.startsWith('FX-')) return 'conversion';
+    if (txId.startsWith('RESALE-')) return 'resale';
+    return 'withdrawal';
+  }
+
+  /**
+   * Derives an account balance (debits minus credits) in one asset from the journal.
+   */
+  static getBalance(entries: LedgerEntry[], account: LedgerAccount = LedgerAccount.WALLET, asset: AssetSymbol = 'USD'): number {
+    const raw = entries
+      .filter(e => e.account === account && e.asset === asset)
+      .reduce((sum, e) => sum + e.debit - e.credit, 0);
+    return AssetService.round(raw, asset);
+  }
+
+  static getBalances(entries: LedgerEntry[], account: LedgerAccount = LedgerAccount.WALLET): Record<AssetSymbol, number> {
+    return ASSETS.reduce((acc, asset) => {
+      acc[asset] = this.getBalance(entries, account, asset);
+      return acc;
+    }, {} as Record<AssetSymbol, number>);
+  }
+
+  static recordDeposit(tx: Transaction) {
+    return this.post(tx, [
+      { account: LedgerAccount.WALLET, debit: tx.amount },
+      { account: LedgerAccount.DEPOSITS, credit: tx.amount }
+    ], "Stripe deposit");
+  }
+
+  static recordPurchase(tx: Transaction, botId: string) {
+    return this.post(tx, [
+      { account: LedgerAccount.BOT_FLEET, debit: tx.amount },
+      { account: LedgerAccount.WALLET, credit: tx.amount }
+    ], `Bot provision ${botId}`);
+  }
+
+  /**
+   * Upgrades a bot in place; only the price difference moves into the fleet account.
+   */
+  static recordUpgrade(tx: Transaction, botId: string, fromTierId: string | undefined, toTierId: string) {
+    return this.post(tx, [
+      { account: LedgerAccount.BOT_FLEET, debit: tx.amount },
+      { account: LedgerAccount.WALLET, credit: tx.amount }
+    ], `Bot upgrade ${botId} ${fromTierId ?? 'untiered'} -> ${toTierId}`);
+  }
+
+  /**
+   * Reserves a withdrawal: funds leave the wallet into the pending clearing
+   * account until the settlement backend reports the outcome.
+   */
+  static recordWithdrawalRequest(tx: Transaction) {
+    return this.post(tx, [
+      { account: LedgerAccount.PENDING_WITHDRAWALS, debit: tx.amount },
+      { account: LedgerAccount.WALLET, credit: tx.amount }
+    ], `Withdrawal requested to ${tx.address}`, 'REQ');
+  }
+
+  static recordWithdrawalSettlement(tx: Transaction) {
+    return this.post(tx, this.settlementLines(tx), `Withdrawal settled ${tx.txHash || ''}`.trim(), 'SET');
+  }
+
+  /**
+   * Returns reserved funds to the wallet for a withdrawal that never settled.
+   */
+  static recordWithdrawalRefund(tx: Transaction) {
+    return this.post(tx, [
+      { account: LedgerAccount.WALLET, debit: tx.amount },
+      { account: LedgerAccount.PENDING_WITHDRAWALS, credit: tx.amount }
+    ], `Withdrawal refunded: ${tx.failureReason || 'failed'}`, 'REF');
+  }
+
+  /**
+   * Unwinds a settled withdrawal (e.g. after a chain reorganisation).
+   */
+  static recordWithdrawalReversal(tx: Transaction) {
+    const lines = this.settlementLines(tx).map(l => ({ ...l, debit: l.credit, credit: l.debit }));
+    const restored = lines.map(l => l.account === LedgerAccount.PENDING_WITHDRAWALS ? { ...l, account: LedgerAccount.WALLET } : l);
+    return this.post(tx, restored, `Withdrawal reversed: ${tx.failureReason || 'reversed'}`, 'REV');
+  }
+
+  private static settlementLines(tx: Transaction): LedgerLine[] {
+    const fee = tx.amount - tx.netAmount;
+    const lines: LedgerLine[] = [
+      { account: LedgerAccount.WITHDRAWALS, debit: tx.netAmount },
+      { account: LedgerAccount.PENDING_WITHDRAWALS, credit: tx.amount }
+    ];
+    if (fee > 0) lines.push({ account: LedgerAccount.FEES, debit: fee });
+    return lines;
+  }
+
+  /**
+   * Persists a status change that moves no funds.
+   */
+  static async updateTransaction(tx: Transaction) {
+    const db = await this.getDB();
+    const dbTx = db.transaction(TRANSACTION_STORE, 'readwrite');
+    dbTx.objectStore(TRANSACTION_STORE).put(tx);
+    await transactionDone(dbTx);
+    window.dispatchEvent(new CustomEvent('ledger-updated', { detail: { txId: tx.id, entries: [] } }));
+  }
+
+  static recordSweep(tx: Transaction, botIds: string[]) {
+    return this.post(tx, [
+      { account: LedgerAccount.WALLET, debit: tx.amount },
+      { account: LedgerAccount.MINING_REVENUE, credit: tx.amount }
+    ], `Bot balance sweep ${botIds.join(',')}`);
+  }
+
+  /**
+   * Sells a bot back: the resale value returns to the wallet, the bot leaves
+   * the fleet account at cost and the shortfall is booked as depreciation.
+   */
+  static recordResale(tx: Transaction, botId: string, cost: number) {
+    const lines: LedgerLine[] = [
+      { account: LedgerAccount.WALLET, debit: tx.amount },
+      { account: LedgerAccount.BOT_FLEET, credit: cost }
+    ];
+    if (cost > tx.amount) lines.push({ account: LedgerAccount.DEPRECIATION, debit: cost - tx.amount });
+    return this.post(tx, lines, `Bot resale ${botId}`);
+  }
+
+  /**
+   * Exchanges one wallet asset for another through the FX clearing account,
+   * which keeps each asset's journal balanced on its own.
+   */
+  static recordConversion(tx: Transaction, from: { asset: AssetSymbol; amount: number }, to: { asset: AssetSymbol; amount: number }) {
+    return this.post(tx, [
+      { account: LedgerAccount.WALLET, asset: from.asset, credit: from.amount },
+      { account: LedgerAccount.FX_CONVERSION, asset: from.asset, debit: from.amount },
+      { account: LedgerAccount.FX_CONVERSION, asset: to.asset, credit: to.amount },
+      { account: LedgerAccount.WALLET, asset: to.asset, debit: to.amount }
+    ], `Conversion ${from.asset} -> ${to.asset}`);
+  }
+
+  /**
+   * Writes a balanced journal and its transaction record atomically. Multi-step
+   * transactions (withdrawals) tag each journal with a phase to keep entry ids unique.
+   */
+  private static async post(tx: Transaction, lines: LedgerLine[], memo: string, phase?: string): Promise<LedgerEntry[]> {
+    ASSETS.forEach(asset => {
+      const assetLines = lines.filter(l => (l.asset ?? tx.asset) === asset);
+      const totalDebit = assetLines.reduce((sum, l) => sum + (l.debit || 0), 0);
+      const totalCredit = assetLines.reduce((sum, l) => sum + (l.credit || 0), 0);
+      if (Math.abs(totalDebit - totalCredit) > BALANCE_EPSILON) {
+        throw new Error(`Unbalanced ${asset} journal for ${tx.id}: debits ${totalDebit} != credits ${totalCredit}`);
+      }
+    });
+
+    const entries: LedgerEntry[] = lines.map((line, i) => ({
+      id: phase ? `${tx.id}-${phase}-${i + 1}` : `${tx.id}-${i + 1}`,
+      txId: tx.id,
+      timestamp: phase ? Date.now() : tx.timestamp,
+      account: line.account,
+      asset: line.asset ?? tx.asset,
+      debit: line.debit || 0,
+      credit: line.credit || 0,
+      memo
+    }));
+
+    const db = await this.getDB();
+    const dbTx = db.transaction([ENTRY_STORE, TRANSACTION_STORE], 'readwrite');
+    const entryStore = dbTx.objectStore(ENTRY_STORE);
+
+    // Read-write transactions on these stores run one at a time, so checking the
+    // wallet here keeps two concurrent postings from spending the same funds
+    const walletChange = (asset: AssetSymbol) => entries
+      .filter(e => e.account === LedgerAccount.WALLET && e.asset === asset)
+      .reduce((sum, e) => sum + e.debit - e.credit, 0);
+    const outflows = ASSETS.filter(asset => walletChange(asset) < 0);
+    if (outflows.length > 0) {
+      const wallet = await requestToPromise(entryStore.index('account').getAll(LedgerAccount.WALLET) as IDBRequest<LedgerEntry[]>);
+      const stored = wallet.map(e => ({ ...e, asset: e.asset ?? 'USD' }));
+      const overdrawn = outflows.find(asset => this.getBalance(stored, LedgerAccount.WALLET, asset) + walletChange(asset) < -BALANCE_EPSILON);
+      if (overdrawn) {
+        dbTx.abort();
+        throw new Error(`Insufficient ${overdrawn} wallet balance for ${tx.id}`);
+      }
+    }
+
+    entries.forEach(entry => entryStore.add(entry));
+    dbTx.objectStore(TRANSACTION_STORE).put(tx);
+    await transactionDone(dbTx);
+
+    window.dispatchEvent(new CustomEvent('ledger-updated', { detail: { txId: tx.id, entries } }));
+    return entries;
+  }
+}
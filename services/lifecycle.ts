@@ -0,0 +1,101 @@
+
+import { MiningBot } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { MetricsService, MetricPoint } from "./metrics";
+import { CatalogService } from "./catalog";
+
+const DB_NAME = 'cloudmine_fleet_archive';
+const DB_VERSION = 1;
+const ARCHIVE_STORE = 'bots';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Straight-line depreciation down to a salvage floor, less the buyback spread.
+// Bots whose tier is unknown depreciate over the default lifetime.
+export const DEFAULT_LIFETIME_DAYS = 730;
+const SALVAGE_FLOOR = 0.1;
+const BUYBACK_SPREAD = 0.15;
+
+export interface ResaleQuote {
+  /** What the bot was provisioned for; 0 for bots not bought from the marketplace. */
+  cost: number;
+  ageDays: number;
+  depreciation: number;
+  resaleValue: number;
+  /** Accrued balance swept to the wallet on decommission, rounded down to the cent. */
+  sweepAmount: number;
+}
+
+/**
+ * A decommissioned bot as it stood on its last day, with its daily metrics.
+ */
+export interface ArchivedBot {
+  bot: MiningBot;
+  decommissionedAt: number;
+  quote: ResaleQuote;
+  txIds: string[];
+  history: MetricPoint[];
+}
+
+const floorCents = (value: number) => Math.floor(value * 100) / 100;
+
+/**
+ * Decommissioning: resale pricing and the archive of retired bots.
+ */
+export class BotLifecycleService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  private static getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        const archive = db.createObjectStore(ARCHIVE_STORE, { keyPath: 'bot.id' });
+        archive.createIndex('decommissionedAt', 'decommissionedAt');
+      });
+    }
+    return this.dbPromise;
+  }
+
+  static quote(bot: MiningBot, now = Date.now(), lifetimeDays = CatalogService.tierFor(bot)?.lifetimeDays ?? DEFAULT_LIFETIME_DAYS): ResaleQuote {
+    const cost = bot.purchasePrice ?? 0;
+    const ageDays = bot.purchasedAt ? Math.max(0, (now - bot.purchasedAt) / MS_PER_DAY) : 0;
+    const remaining = Math.max(SALVAGE_FLOOR, 1 - ageDays / lifetimeDays);
+    const resaleValue = floorCents(cost * remaining * (1 - BUYBACK_SPREAD));
+    return {
+      cost,
+      ageDays,
+      depreciation: cost - resaleValue,
+      resaleValue,
+      sweepAmount: floorCents(bot.balance || 0)
+    };
+  }
+
+  /**
+   * Stores the retired bot with its daily metric history since provisioning.
+   */
+  static async archive(bot: MiningBot, quote: ResaleQuote, txIds: string[], decommissionedAt = Date.now()): Promise<ArchivedBot> {
+    const history = await MetricsService.getSeries(bot.id, {
+      since: bot.purchasedAt ?? decommissionedAt - 365 * MS_PER_DAY,
+      until: decommissionedAt,
+      intervalMs: MS_PER_DAY
+    }).catch(err => {
+      console.error("Failed to read bot metrics for archive:", err);
+      return [];
+    });
+    const record: ArchivedBot = { bot, decommissionedAt, quote, txIds, history };
+    const db = await this.getDB();
+    const tx = db.transaction(ARCHIVE_STORE, 'readwrite');
+    tx.objectStore(ARCHIVE_STORE).put(record);
+    await transactionDone(tx);
+    window.dispatchEvent(new CustomEvent('fleet-archive-updated', { detail: { botId: bot.id } }));
+    return record;
+  }
+
+  /**
+   * Archived bots, most recently retired first.
+   */
+  static async listArchive(): Promise<ArchivedBot[]> {
+    const db = await this.getDB();
+    const records: ArchivedBot[] = await requestToPromise(db.transaction(ARCHIVE_STORE).objectStore(ARCHIVE_STORE).getAll());
+    return records.sort((a, b) => b.decommissionedAt - a.decommissionedAt);
+  }
+}
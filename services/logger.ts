@@ -1,42 +1,815 @@
 
 import { AuditLog, LogCategory } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { RedactionService, SealedValues } from "./redaction";
 
-const STORAGE_KEY = 'cloudmine_audit_ledger';
+const DB_NAME = 'cloudmine_audit';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const META_STORE = 'meta';
+const CHAIN_START_KEY = 'chainStart';
+const LEGACY_TOMBSTONES_KEY = 'legacyTombstonesListed';
+
+/**
+ * Every batch of tombstones is announced by a chain entry listing the seqs it
+ * covers. Manifests are never pruned, so the verifier can tell retention from
+ * an entry swapped for a forged tombstone.
+ */
+export const PRUNE_MANIFEST_ACTION = "Audit entries pruned";
+
+// Pre-IndexedDB storage, migrated on first open
+const LEGACY_STORAGE_KEY = 'cloudmine_audit_ledger';
+const LEGACY_ANCHOR_KEY = 'cloudmine_audit_anchor';
+
+const RETENTION_STORAGE_KEY = 'cloudmine_audit_retention';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Bucket widths for summaries, narrowest first; the first giving at most
+// SUMMARY_MAX_BUCKETS buckets over the span wins
+const SUMMARY_BUCKET_SIZES = [1, 5, 15, 60, 360, 1440, 10080].map(m => m * MS_PER_MINUTE);
+const SUMMARY_MAX_BUCKETS = 60;
+const SUMMARY_TOP_N = 8;
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** Days to keep each category; null keeps entries forever. */
+export type RetentionPolicy = Record<LogCategory, number | null>;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  [LogCategory.SYSTEM]: 30,
+  [LogCategory.FINANCIAL]: null,
+  [LogCategory.SECURITY]: 365,
+  [LogCategory.OPERATION]: 90,
+  [LogCategory.AI]: 30,
+  [LogCategory.MARKETPLACE]: 180
+};
+
+/**
+ * The link the oldest stored record must continue from. Only differs from
+ * genesis for ledgers migrated after the old 500-entry cap pruned them.
+ */
+export interface ChainLink {
+  seq: number;
+  hash: string;
+}
+
+interface StoredEntry extends AuditLog {
+  seq: number;
+  prevHash: string;
+  hash: string;
+  /** Lower-cased words of the action and metadata, for the `terms` index. */
+  terms: string[];
+  /** Encrypted originals of redacted fields; never leaves this service. */
+  sealed?: SealedValues;
+}
+
+/**
+ * What remains of an entry after retention or a purge: just enough to keep
+ * the chain verifiable. Lacking `timestamp`/`category`, it drops out of every index.
+ */
+interface Tombstone {
+  seq: number;
+  id: string;
+  prevHash: string;
+  hash: string;
+  pruned: true;
+}
+
+type StoredRecord = StoredEntry | Tombstone;
+
+export type ChainBreakReason = 'sequence-gap' | 'link-mismatch' | 'hash-mismatch' | 'unsealed' | 'unlisted-tombstone';
+
+export type PruneReason = 'retention' | 'purge' | 'legacy';
+
+export interface ChainVerification {
+  valid: boolean;
+  /** Number of entries checked before stopping. */
+  checked: number;
+  headHash: string | null;
+  /** Sequence number of `headHash`, where an incremental check resumes. */
+  headSeq?: number;
+  verifiedAt: number;
+  brokenAt?: {
+    id: string;
+    seq?: number;
+    reason: ChainBreakReason;
+  };
+}
+
+export type AuditSortKey = 'timestamp' | 'category' | 'action';
+
+export interface AuditQuery {
+  category?: LogCategory;
+  since?: number;
+  until?: number;
+  /** Every word must prefix-match a word of the action or metadata. */
+  text?: string;
+  /** Checked per entry after the index scan, e.g. for metadata comparisons. */
+  predicate?: (entry: AuditLog) => boolean;
+  sortKey?: AuditSortKey;
+  direction?: 'asc' | 'desc';
+  limit?: number;
+  /** Resume after the last entry of the previous page. */
+  after?: AuditCursor | null;
+}
+
+export interface AuditCursor {
+  key: IDBValidKey;
+  seq: number;
+}
+
+export interface AuditPage {
+  entries: AuditLog[];
+  nextCursor: AuditCursor | null;
+}
+
+export interface AuditBucket {
+  start: number;
+  total: number;
+  counts: Record<LogCategory, number>;
+}
+
+export interface AuditSummary {
+  bucketMs: number;
+  buckets: AuditBucket[];
+  total: number;
+  topActions: { name: string; count: number }[];
+  topMetadataKeys: { name: string; count: number }[];
+}
+
+export interface AuditImportResult {
+  imported: number;
+  /** Ids already present with identical content (or pruned locally). */
+  duplicates: string[];
+  /** Ids already present with different content; the local entry is kept. */
+  conflicts: string[];
+}
+
+// Stable key order so the same entry always hashes to the same digest
+export const canonicalize = (value: any): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+  return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalize(value[k])}`).join(',')}}`;
+};
+
+export const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const tokenize = (text: string): string[] =>
+  Array.from(new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)));
+
+const collectTerms = (entry: AuditLog): string[] => {
+  const parts: string[] = [entry.action, entry.category];
+  const walk = (value: any) => {
+    if (value === null || value === undefined) return;
+    if (typeof value === 'object') {
+      Object.entries(value).forEach(([k, v]) => { parts.push(k); walk(v); });
+    } else {
+      parts.push(String(value));
+    }
+  };
+  walk(entry.metadata);
+  return tokenize(parts.join(' '));
+};
+
+const emptyCounts = (): Record<LogCategory, number> =>
+  Object.fromEntries(Object.values(LogCategory).map(c => [c, 0])) as Record<LogCategory, number>;
+
+const topN = (counts: Map<string, number>) =>
+  Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, SUMMARY_TOP_N);
+
+const isTombstone = (record: StoredRecord): record is Tombstone => 'pruned' in record;
+
+// Manifests imported from another ledger describe that ledger's seqs, not ours
+const isPruneManifest = (record: StoredRecord): record is StoredEntry =>
+  !isTombstone(record) && record.category === LogCategory.SECURITY && record.action === PRUNE_MANIFEST_ACTION && !record.importedFrom;
+
+/** Collapses ascending seqs into inclusive `[from, to]` ranges. */
+const toRanges = (seqs: number[]): [number, number][] =>
+  seqs.reduce<[number, number][]>((ranges, seq) => {
+    const last = ranges[ranges.length - 1];
+    if (last && seq === last[1] + 1) last[1] = seq;
+    else ranges.push([seq, seq]);
+    return ranges;
+  }, []);
+
+const toAuditLog = ({ terms, sealed, ...entry }: StoredEntry): AuditLog => entry;
+
+// What an entry says, independent of where it sits in a chain
+const contentOf = ({ id, timestamp, category, action, metadata }: AuditLog) =>
+  canonicalize({ id, timestamp, category, action, metadata });
 
 export class LoggerService {
-  static getLogs(): AuditLog[] {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-      console.error("Failed to load audit ledger:", e);
-      return [];
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static readyPromise: Promise<void> | null = null;
+  private static head: ChainLink | null = null;
+  // Appends are serialised so every entry links to the one written before it
+  private static writeQueue: Promise<void> = Promise.resolve();
+
+  private static getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'seq' });
+        entries.createIndex('id', 'id', { unique: true });
+        entries.createIndex('timestamp', 'timestamp');
+        entries.createIndex('category_timestamp', ['category', 'timestamp']);
+        entries.createIndex('action', 'action');
+        entries.createIndex('terms', 'terms', { multiEntry: true });
+        db.createObjectStore(META_STORE);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Opens the store, migrates the legacy localStorage ledger once, applies
+   * retention and loads the chain head.
+   */
+  private static ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = (async () => {
+        await this.migrateLegacyStorage();
+        this.head = await this.loadHead();
+        await this.listLegacyTombstones();
+        await this.pruneExpired();
+      })();
     }
+    return this.readyPromise;
   }
 
   static log(category: LogCategory, action: string, metadata?: Record<string, any>) {
-    const newLog: AuditLog = {
+    // Round-trip through JSON so the hashed content matches what is stored
+    const newLog: AuditLog = JSON.parse(JSON.stringify({
       id: `LOG-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
       timestamp: Date.now(),
       category,
       action,
       metadata
+    }));
+    return this.enqueue(() => this.append(newLog));
+  }
+
+  /**
+   * Redacts, seals and links one entry onto the chain head. Callers must
+   * already hold the write queue (or be running inside `ready`).
+   */
+  private static async append(newLog: AuditLog) {
+    const redaction = await RedactionService.apply(newLog.metadata);
+    const head = this.head!;
+    const entry = { ...newLog, metadata: redaction.metadata, seq: head.seq + 1, prevHash: head.hash } as StoredEntry;
+    if (redaction.paths.length > 0) {
+      entry.redactions = redaction.paths;
+      entry.sealed = redaction.sealed;
+    }
+    entry.hash = await this.hashEntry(entry);
+    entry.terms = collectTerms(entry);
+
+    const db = await this.getDB();
+    const tx = db.transaction(ENTRY_STORE, 'readwrite');
+    tx.objectStore(ENTRY_STORE).add(entry);
+    await transactionDone(tx);
+    this.head = { seq: entry.seq, hash: entry.hash };
+
+    // Dispatch event for UI updates if needed
+    window.dispatchEvent(new CustomEvent('audit-log-updated', { detail: toAuditLog(entry) }));
+  }
+
+  /**
+   * Reads one page of entries through the index that matches the sort key,
+   * narrowing by category and time with key ranges where the index allows.
+   */
+  static async query(query: AuditQuery = {}): Promise<AuditPage> {
+    await this.ready();
+    const db = await this.getDB();
+    const limit = query.limit ?? 50;
+    const matchingSeqs = query.text && tokenize(query.text).length > 0 ? await this.matchTerms(db, query.text) : null;
+    if (matchingSeqs && matchingSeqs.size === 0) return { entries: [], nextCursor: null };
+
+    const { indexName, range } = this.planQuery(query);
+    const index = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index(indexName);
+    const request = index.openCursor(range, query.direction === 'asc' ? 'next' : 'prev');
+    const after = query.after;
+
+    return new Promise((resolve, reject) => {
+      const entries: AuditLog[] = [];
+      let lastCursor: AuditCursor | null = null;
+      let positioned = !after;
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ entries, nextCursor: null });
+          return;
+        }
+        const isAfterKey = after && indexedDB.cmp(cursor.key, after.key) === 0 && cursor.primaryKey === after.seq;
+        if (!positioned) {
+          positioned = true;
+          if (!isAfterKey) {
+            cursor.continuePrimaryKey(after!.key, after!.seq);
+            return;
+          }
+        }
+        if (isAfterKey) {
+          cursor.continue();
+          return;
+        }
+
+        const entry = cursor.value as StoredEntry;
+        if (this.matches(entry, query, matchingSeqs)) {
+          // One extra match tells us whether another page exists
+          if (entries.length === limit) {
+            resolve({ entries, nextCursor: lastCursor });
+            return;
+          }
+          entries.push(toAuditLog(entry));
+          lastCursor = { key: cursor.key, seq: entry.seq };
+        }
+        cursor.continue();
+      };
+    });
+  }
+
+  /**
+   * Streams every matching entry in pages, e.g. for exports.
+   */
+  static async queryAll(query: Omit<AuditQuery, 'limit' | 'after'> = {}): Promise<AuditLog[]> {
+    const all: AuditLog[] = [];
+    let after: AuditCursor | null = null;
+    do {
+      const page = await this.query({ ...query, limit: 500, after });
+      all.push(...page.entries);
+      after = page.nextCursor;
+    } while (after);
+    return all;
+  }
+
+  /**
+   * Buckets matching entries by time and category and tallies the most common
+   * actions and metadata keys, paging through the store without holding it.
+   */
+  static async summarize(query: Omit<AuditQuery, 'limit' | 'after' | 'sortKey' | 'direction'> = {}): Promise<AuditSummary> {
+    const perMinute = new Map<number, Record<LogCategory, number>>();
+    const actions = new Map<string, number>();
+    const metadataKeys = new Map<string, number>();
+    let total = 0;
+    let first = Infinity;
+    let last = -Infinity;
+
+    let after: AuditCursor | null = null;
+    do {
+      const page = await this.query({ ...query, sortKey: 'timestamp', direction: 'asc', limit: 500, after });
+      page.entries.forEach(entry => {
+        const minute = Math.floor(entry.timestamp / MS_PER_MINUTE) * MS_PER_MINUTE;
+        const counts = perMinute.get(minute) ?? emptyCounts();
+        counts[entry.category]++;
+        perMinute.set(minute, counts);
+        actions.set(entry.action, (actions.get(entry.action) ?? 0) + 1);
+        Object.keys(entry.metadata ?? {}).forEach(k => metadataKeys.set(k, (metadataKeys.get(k) ?? 0) + 1));
+        first = Math.min(first, entry.timestamp);
+        last = Math.max(last, entry.timestamp);
+        total++;
+      });
+      after = page.nextCursor;
+    } while (after);
+
+    const start = query.since ?? first;
+    const end = query.until ?? Math.max(last, Date.now());
+    const span = Number.isFinite(start) ? end - start : 0;
+    const bucketMs = SUMMARY_BUCKET_SIZES.find(size => span / size <= SUMMARY_MAX_BUCKETS) ?? SUMMARY_BUCKET_SIZES[SUMMARY_BUCKET_SIZES.length - 1];
+
+    const buckets: AuditBucket[] = [];
+    if (total > 0) {
+      const firstBucket = Math.floor(start / bucketMs) * bucketMs;
+      for (let t = firstBucket; t <= end; t += bucketMs) buckets.push({ start: t, total: 0, counts: emptyCounts() });
+      perMinute.forEach((counts, minute) => {
+        const bucket = buckets[Math.floor((minute - firstBucket) / bucketMs)];
+        if (!bucket) return;
+        Object.values(LogCategory).forEach(c => { bucket.counts[c] += counts[c]; bucket.total += counts[c]; });
+      });
+    }
+
+    return {
+      bucketMs,
+      buckets,
+      total,
+      topActions: topN(actions),
+      topMetadataKeys: topN(metadataKeys)
     };
+  }
+
+  /**
+   * Counts stored entries using index key ranges only (no text filter).
+   */
+  static async count(category?: LogCategory, since?: number): Promise<number> {
+    await this.ready();
+    const db = await this.getDB();
+    const store = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE);
+    const lower = since ?? -Infinity;
+    const request = category
+      ? store.index('category_timestamp').count(IDBKeyRange.bound([category, lower], [category, Infinity]))
+      : store.index('timestamp').count(IDBKeyRange.lowerBound(lower));
+    return requestToPromise(request);
+  }
+
+  /**
+   * Returns an entry's metadata with redacted fields restored from the sealed
+   * originals. Callers must re-authenticate the operator first; every reveal
+   * is itself audited.
+   */
+  static async reveal(id: string): Promise<Record<string, any> | null> {
+    await this.ready();
+    const db = await this.getDB();
+    const record: StoredRecord | undefined = await requestToPromise(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index('id').get(id));
+    if (!record || isTombstone(record) || !record.sealed || !record.metadata) return null;
+    const metadata = await RedactionService.restore(record.metadata, record.sealed);
+    await this.log(LogCategory.SECURITY, "Unredacted audit entry viewed", { entryId: id, fields: record.redactions });
+    return metadata;
+  }
+
+  /**
+   * Current chain head, after any pending appends have landed.
+   */
+  static async getHead(): Promise<ChainLink> {
+    await this.ready();
+    await this.writeQueue;
+    return { ...this.head! };
+  }
+
+  /**
+   * Appends entries from another ledger as new links of this chain, keeping
+   * their original ids and timestamps. Incoming metadata passes through the
+   * local redaction rules before it is hashed. Entries whose id is already
+   * stored are skipped and reported as duplicates or conflicts. A failed
+   * write rejects instead of reporting an empty import.
+   */
+  static async importEntries(entries: AuditLog[], source: string): Promise<AuditImportResult> {
+    const result: AuditImportResult = { imported: 0, duplicates: [], conflicts: [] };
+    const ordered = [...entries].sort((a, b) => a.timestamp - b.timestamp || (a.seq ?? 0) - (b.seq ?? 0));
+
+    await this.schedule(async () => {
+      const db = await this.getDB();
+      const idIndex = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index('id');
+      const existing = await Promise.all(ordered.map(e => requestToPromise(idIndex.get(e.id) as IDBRequest<StoredRecord | undefined>)));
 
+      const seen = new Set<string>();
+      const additions: StoredEntry[] = [];
+      let head = this.head!;
+      for (let i = 0; i < ordered.length; i++) {
+        const incoming = ordered[i];
+        const local = existing[i];
+        const redaction = await RedactionService.apply(incoming.metadata);
+        const redacted = { ...incoming, metadata: redaction.metadata };
+        if (seen.has(incoming.id) || (local && (isTombstone(local) || contentOf(local) === contentOf(incoming) || contentOf(local) === contentOf(redacted)))) {
+          result.duplicates.push(incoming.id);
+        } else if (local) {
+          result.conflicts.push(incoming.id);
+        } else {
+          const { id, timestamp, category, action, redactions } = incoming;
+          const entry = { id, timestamp, category, action, metadata: redaction.metadata, redactions, importedFrom: source, seq: head.seq + 1, prevHash: head.hash } as StoredEntry;
+          if (redaction.paths.length > 0) {
+            entry.redactions = [...new Set([...(redactions ?? []), ...redaction.paths])];
+            entry.sealed = redaction.sealed;
+          }
+          entry.hash = await this.hashEntry(entry);
+          entry.terms = collectTerms(entry);
+          additions.push(entry);
+          head = { seq: entry.seq, hash: entry.hash };
+        }
+        seen.add(incoming.id);
+      }
+
+      if (additions.length === 0) return;
+      const tx = db.transaction(ENTRY_STORE, 'readwrite');
+      additions.forEach(entry => tx.objectStore(ENTRY_STORE).add(entry));
+      await transactionDone(tx);
+      this.head = head;
+      result.imported = additions.length;
+    });
+
+    await this.log(LogCategory.SECURITY, "Audit bundle imported", {
+      source,
+      imported: result.imported,
+      duplicates: result.duplicates.length,
+      conflicts: result.conflicts.length
+    });
+    return result;
+  }
+
+  /**
+   * Purges every entry's content but keeps the chain: purged entries become
+   * tombstones, and the purge itself is logged as the next link.
+   */
+  static async clearLogs() {
+    let purged = 0;
+    await this.enqueue(async () => {
+      purged = await this.tombstone(IDBKeyRange.lowerBound(-Infinity), 'timestamp', 'purge');
+    });
+    await this.log(LogCategory.SECURITY, "Manual ledger purge executed", { purgedEntries: purged, purgedHeadHash: this.head?.hash });
+  }
+
+  static getRetentionPolicy(): RetentionPolicy {
     try {
-      const logs = this.getLogs();
-      const updatedLogs = [newLog, ...logs].slice(0, 500); // Keep last 500 entries
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedLogs));
-      
-      // Dispatch event for UI updates if needed
-      window.dispatchEvent(new CustomEvent('audit-log-updated', { detail: newLog }));
+      const saved = localStorage.getItem(RETENTION_STORAGE_KEY);
+      return saved ? { ...DEFAULT_RETENTION, ...JSON.parse(saved) } : DEFAULT_RETENTION;
     } catch (e) {
-      console.error("Failed to save audit log:", e);
+      console.error("Failed to load audit retention policy:", e);
+      return DEFAULT_RETENTION;
+    }
+  }
+
+  static async setRetentionPolicy(policy: RetentionPolicy) {
+    localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(policy));
+    await this.log(LogCategory.SECURITY, "Audit retention policy changed", { policy });
+    await this.enqueue(() => this.pruneExpired().then(() => undefined));
+  }
+
+  /**
+   * Walks the chain from the oldest stored record and stops at the first one
+   * whose sequence, back-link or content hash does not match. Tombstones are
+   * checked for continuity, since their content is gone, and must be listed
+   * by a prune manifest.
+   *
+   * Given an earlier intact result, only records appended after its head are
+   * checked, provided that head is still stored unchanged; otherwise the
+   * whole chain is walked again.
+   */
+  static async verifyChain(from?: ChainVerification): Promise<ChainVerification> {
+    await this.ready();
+    await this.writeQueue;
+    const db = await this.getDB();
+    const start: ChainLink | undefined = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(CHAIN_START_KEY));
+
+    let expectedSeq = start ? start.seq + 1 : 0;
+    let expectedPrev = start?.hash ?? GENESIS_HASH;
+    let checked = 0;
+    let headHash: string | null = null;
+    let headSeq: number | undefined;
+    const tombstones: { id: string; seq: number }[] = [];
+    const listed: [number, number][] = [];
+
+    if (from?.valid && from.headHash && from.headSeq !== undefined) {
+      const resumeAt: StoredRecord | undefined = await requestToPromise(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).get(from.headSeq));
+      if (resumeAt?.hash === from.headHash) {
+        expectedSeq = from.headSeq + 1;
+        expectedPrev = from.headHash;
+        checked = from.checked;
+        headHash = from.headHash;
+        headSeq = from.headSeq;
+      }
+    }
+
+    const brokenAt = await this.walkChain(db, headSeq ?? null, async (record) => {
+      if (!record.hash || record.prevHash === undefined || record.seq === undefined) return 'unsealed';
+      if (record.seq !== expectedSeq) return 'sequence-gap';
+      if (record.prevHash !== expectedPrev) return 'link-mismatch';
+      if (!isTombstone(record) && await this.hashEntry(record) !== record.hash) return 'hash-mismatch';
+      if (isTombstone(record)) tombstones.push({ id: record.id, seq: record.seq });
+      else if (isPruneManifest(record)) listed.push(...(record.metadata?.seqRanges ?? []));
+      checked++;
+      expectedSeq = record.seq + 1;
+      expectedPrev = record.hash;
+      headHash = record.hash;
+      headSeq = record.seq;
+      return null;
+    });
+
+    const unlisted = brokenAt ? undefined : tombstones.find(t => !listed.some(([lo, hi]) => t.seq >= lo && t.seq <= hi));
+    if (brokenAt || unlisted) {
+      return {
+        valid: false,
+        checked,
+        headHash: this.head?.hash ?? null,
+        verifiedAt: Date.now(),
+        brokenAt: brokenAt ?? { id: unlisted!.id, seq: unlisted!.seq, reason: 'unlisted-tombstone' }
+      };
+    }
+    return { valid: true, checked, headHash, headSeq, verifiedAt: Date.now() };
+  }
+
+  /**
+   * Feeds stored records after `afterSeq` (all of them when null) to `check`
+   * in sequence order, in batches so hashing (async) never runs inside a live
+   * IndexedDB transaction.
+   */
+  private static async walkChain(
+    db: IDBDatabase,
+    afterSeq: number | null,
+    check: (record: StoredRecord) => Promise<ChainBreakReason | null>
+  ): Promise<ChainVerification['brokenAt'] | null> {
+    const BATCH = 200;
+    let lowerSeq: number | null = afterSeq;
+    while (true) {
+      const range = lowerSeq === null ? undefined : IDBKeyRange.lowerBound(lowerSeq, true);
+      const store = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE);
+      const batch = await requestToPromise(store.getAll(range, BATCH) as IDBRequest<StoredRecord[]>);
+      for (const record of batch) {
+        const reason = await check(record);
+        if (reason) return { id: record.id, seq: record.seq, reason };
+      }
+      if (batch.length < BATCH) return null;
+      lowerSeq = batch[batch.length - 1].seq;
+    }
+  }
+
+  private static planQuery(query: AuditQuery): { indexName: string; range?: IDBKeyRange } {
+    const lower = query.since ?? -Infinity;
+    const upper = query.until ?? Infinity;
+    const sortKey = query.sortKey ?? 'timestamp';
+
+    if (sortKey === 'timestamp' && !query.category) {
+      return { indexName: 'timestamp', range: IDBKeyRange.bound(lower, upper) };
+    }
+    if (sortKey === 'timestamp' || sortKey === 'category') {
+      return {
+        indexName: 'category_timestamp',
+        range: query.category ? IDBKeyRange.bound([query.category, lower], [query.category, upper]) : undefined
+      };
     }
+    return { indexName: 'action' };
+  }
+
+  private static matches(entry: StoredEntry, query: AuditQuery, matchingSeqs: Set<number> | null) {
+    if (query.category && entry.category !== query.category) return false;
+    if (query.since !== undefined && entry.timestamp < query.since) return false;
+    if (query.until !== undefined && entry.timestamp > query.until) return false;
+    if (matchingSeqs && !matchingSeqs.has(entry.seq)) return false;
+    return !query.predicate || query.predicate(entry);
+  }
+
+  /**
+   * Resolves a text query to entry sequence numbers via prefix scans of the
+   * `terms` index, intersected across words.
+   */
+  private static async matchTerms(db: IDBDatabase, text: string): Promise<Set<number>> {
+    const index = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index('terms');
+    let result: Set<number> | null = null;
+    for (const word of tokenize(text)) {
+      const seqs = new Set<number>();
+      await new Promise<void>((resolve, reject) => {
+        const request = index.openKeyCursor(IDBKeyRange.bound(word, word + '\uffff'));
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return resolve();
+          if (!result || result.has(cursor.primaryKey as number)) seqs.add(cursor.primaryKey as number);
+          cursor.continue();
+        };
+      });
+      result = seqs;
+      if (seqs.size === 0) break;
+    }
+    return result ?? new Set();
+  }
+
+  /**
+   * Replaces every entry within `range` of the given index with a tombstone,
+   * after appending a manifest that lists them. Manifests themselves are kept.
+   */
+  private static async tombstone(range: IDBKeyRange, indexName: string, reason: PruneReason): Promise<number> {
+    const db = await this.getDB();
+    const doomed: Tombstone[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).index(indexName).openCursor(range);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const record = cursor.value as StoredRecord;
+        if (!isPruneManifest(record)) doomed.push({ seq: record.seq, id: record.id, prevHash: record.prevHash, hash: record.hash, pruned: true });
+        cursor.continue();
+      };
+    });
+    if (doomed.length === 0) return 0;
+
+    // Manifest first: a crash in between leaves listed entries intact, never unlisted tombstones
+    await this.appendPruneManifest(doomed.map(t => t.seq), reason);
+    const tx = db.transaction(ENTRY_STORE, 'readwrite');
+    doomed.forEach(tombstone => tx.objectStore(ENTRY_STORE).put(tombstone));
+    await transactionDone(tx);
+    return doomed.length;
+  }
+
+  private static appendPruneManifest(seqs: number[], reason: PruneReason) {
+    const sorted = [...seqs].sort((a, b) => a - b);
+    return this.append({
+      id: `LOG-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
+      timestamp: Date.now(),
+      category: LogCategory.SECURITY,
+      action: PRUNE_MANIFEST_ACTION,
+      metadata: { reason, count: sorted.length, seqRanges: toRanges(sorted) }
+    });
+  }
+
+  /**
+   * Tombstones written before manifests existed are listed by one manifest,
+   * once, so existing ledgers keep verifying.
+   */
+  private static async listLegacyTombstones() {
+    const db = await this.getDB();
+    const done = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(LEGACY_TOMBSTONES_KEY));
+    if (done) return;
+    const seqs: number[] = [];
+    await this.walkChain(db, null, async (record) => {
+      if (isTombstone(record)) seqs.push(record.seq);
+      return null;
+    });
+    if (seqs.length > 0) await this.appendPruneManifest(seqs, 'legacy');
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(true, LEGACY_TOMBSTONES_KEY);
+    await transactionDone(tx);
+  }
+
+  private static async pruneExpired() {
+    const policy = this.getRetentionPolicy();
+    const now = Date.now();
+    let pruned = 0;
+    for (const category of Object.values(LogCategory)) {
+      const days = policy[category];
+      if (days === null || days === undefined) continue;
+      pruned += await this.tombstone(IDBKeyRange.bound([category, -Infinity], [category, now - days * MS_PER_DAY]), 'category_timestamp', 'retention');
+    }
+    return pruned;
+  }
+
+  private static async loadHead(): Promise<ChainLink> {
+    const db = await this.getDB();
+    const tx = db.transaction([ENTRY_STORE, META_STORE]);
+    const cursor = await requestToPromise(tx.objectStore(ENTRY_STORE).openCursor(null, 'prev'));
+    if (cursor) {
+      const last = cursor.value as StoredRecord;
+      return { seq: last.seq, hash: last.hash };
+    }
+    const start: ChainLink | undefined = await requestToPromise(tx.objectStore(META_STORE).get(CHAIN_START_KEY));
+    return start ?? { seq: -1, hash: GENESIS_HASH };
+  }
+
+  /**
+   * Moves the capped localStorage ledger into IndexedDB, sealing it first if
+   * it predates hashing. Runs only while the store is still empty.
+   */
+  private static async migrateLegacyStorage() {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return;
+    const db = await this.getDB();
+    const existing = await requestToPromise(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).count());
+    if (existing > 0) return;
+
+    try {
+      const anchorJson = localStorage.getItem(LEGACY_ANCHOR_KEY);
+      const anchor: ChainLink | null = anchorJson ? JSON.parse(anchorJson) : null;
+      const logs = await this.sealLegacyLogs(JSON.parse(saved) as AuditLog[], anchor);
+      const tx = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+      logs.forEach(log => tx.objectStore(ENTRY_STORE).put({ ...log, terms: collectTerms(log) }));
+      if (anchor) tx.objectStore(META_STORE).put(anchor, CHAIN_START_KEY);
+      await transactionDone(tx);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      localStorage.removeItem(LEGACY_ANCHOR_KEY);
+    } catch (e) {
+      console.error("Failed to migrate legacy audit ledger:", e);
+    }
+  }
+
+  /**
+   * Seals a ledger written before hashing existed. Only applies when nothing
+   * has been chained yet, so stripping hashes later cannot re-seal entries.
+   */
+  private static async sealLegacyLogs(logs: AuditLog[], anchor: ChainLink | null): Promise<AuditLog[]> {
+    if (logs.length === 0 || anchor || logs.some(l => l.hash)) return logs;
+    let prevHash = GENESIS_HASH;
+    const sealed: AuditLog[] = [];
+    for (let i = logs.length - 1; i >= 0; i--) {
+      const entry: AuditLog = { ...logs[i], seq: logs.length - 1 - i, prevHash };
+      entry.hash = await this.hashEntry(entry);
+      prevHash = entry.hash;
+      sealed.unshift(entry);
+    }
+    return sealed;
+  }
+
+  private static hashEntry({ id, timestamp, category, action, metadata, importedFrom, redactions, seq, prevHash }: AuditLog) {
+    return sha256Hex(canonicalize({ id, timestamp, category, action, metadata, importedFrom, redactions, seq, prevHash }));
+  }
+
+  private static enqueue(task: () => Promise<void>) {
+    return this.schedule(task).catch(e => {
+      console.error("Failed to save audit log:", e);
+    });
   }
 
-  static clearLogs() {
-    this.log(LogCategory.SECURITY, "Manual ledger purge initiated");
-    localStorage.removeItem(STORAGE_KEY);
+  /**
+   * Runs a task on the write queue and hands its outcome to the caller; the
+   * queue itself carries on past a failure.
+   */
+  private static schedule<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(() => this.ready()).then(task);
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
   }
 }
@@ -0,0 +1,223 @@
+
+import { MarketCandle } from "../types";
+
+const SOURCE_STORAGE_KEY = 'cloudmine_market_source';
+
+export const DEFAULT_SYMBOL = 'BTC-USD';
+export const MARKET_WINDOW = 60;
+
+// Price the yield model was calibrated against; projections scale by close / reference.
+export const REFERENCE_PRICE = 94500.50;
+
+export type MarketSourceConfig =
+  | { kind: 'replay'; url: string; label: string; intervalMs: number }
+  | { kind: 'websocket'; url: string };
+
+export const DEFAULT_MARKET_SOURCE: MarketSourceConfig = {
+  kind: 'replay',
+  url: '/market/btc-usd-sample.csv',
+  label: 'BTC-USD sample session',
+  intervalMs: 1000
+};
+
+/**
+ * A source of OHLCV candles. Providers push candles in chronological order
+ * and may backfill a window of history as soon as they start.
+ */
+export interface MarketDataProvider {
+  readonly label: string;
+  start(onCandle: (candle: MarketCandle) => void, onError?: (err: Error) => void): void;
+  stop(): void;
+}
+
+const parseTimestamp = (raw: unknown): number => {
+  if (typeof raw === 'number') return raw < 1e12 ? raw * 1000 : raw;
+  const str = String(raw).trim();
+  if (/^\d+(\.\d+)?$/.test(str)) return parseTimestamp(Number(str));
+  const parsed = Date.parse(str);
+  if (Number.isNaN(parsed)) throw new Error(`Unrecognised timestamp "${str}"`);
+  return parsed;
+};
+
+const toCandle = (row: Record<string, unknown>, fallbackSymbol: string): MarketCandle => {
+  const close = Number(row.close ?? row.price);
+  if (!Number.isFinite(close)) throw new Error("Candle is missing a close price");
+  return {
+    symbol: String(row.symbol ?? fallbackSymbol),
+    timestamp: parseTimestamp(row.timestamp ?? row.time ?? row.date),
+    open: Number(row.open ?? close),
+    high: Number(row.high ?? close),
+    low: Number(row.low ?? close),
+    close,
+    volume: Number(row.volume ?? 0)
+  };
+};
+
+/**
+ * Parses recorded candles from CSV (header row required) or JSON (an array of
+ * objects, or exchange-style `[t, o, h, l, c, v]` rows).
+ */
+export const parseRecordedCandles = (text: string, symbol = DEFAULT_SYMBOL): MarketCandle[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  let candles: MarketCandle[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const rows: unknown[] = Array.isArray(parsed) ? parsed : parsed.candles;
+    if (!Array.isArray(rows)) throw new Error("JSON recording must be an array or contain a `candles` array");
+    candles = rows.map(row => Array.isArray(row)
+      ? toCandle({ timestamp: row[0], open: row[1], high: row[2], low: row[3], close: row[4], volume: row[5] }, symbol)
+      : toCandle(row as Record<string, unknown>, symbol));
+  } else {
+    const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+    const headers = headerLine.split(',').map(h => h.trim().toLowerCase());
+    candles = lines
+      .filter(line => line.trim())
+      .map((line, i) => {
+        const cells = line.split(',');
+        const row: Record<string, unknown> = {};
+        headers.forEach((h, col) => { row[h] = cells[col]?.trim(); });
+        try {
+          return toCandle(row, symbol);
+        } catch (e) {
+          throw new Error(`Line ${i + 2}: ${(e as Error).message}`);
+        }
+      });
+  }
+  return candles.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Replays a recorded session deterministically: the same file always yields
+ * the same sequence, one candle per interval, looping at the end.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  private timer: number | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly source: { url?: string; text?: string },
+    readonly label: string,
+    private readonly intervalMs = 1000
+  ) {}
+
+  start(onCandle: (candle: MarketCandle) => void, onError?: (err: Error) => void) {
+    this.stopped = false;
+    this.load()
+      .then(candles => {
+        if (this.stopped) return;
+        if (candles.length === 0) throw new Error("Recording contains no candles");
+        const backfill = Math.min(MARKET_WINDOW, candles.length);
+        candles.slice(0, backfill).forEach(onCandle);
+        let cursor = backfill % candles.length;
+        this.timer = window.setInterval(() => {
+          onCandle(candles[cursor]);
+          cursor = (cursor + 1) % candles.length;
+        }, this.intervalMs);
+      })
+      .catch(err => onError?.(err instanceof Error ? err : new Error(String(err))));
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async load(): Promise<MarketCandle[]> {
+    if (this.source.text !== undefined) return parseRecordedCandles(this.source.text);
+    const res = await fetch(this.source.url!);
+    if (!res.ok) throw new Error(`Failed to fetch recording ${this.source.url}: ${res.status}`);
+    return parseRecordedCandles(await res.text());
+  }
+}
+
+/**
+ * Streams candles from an exchange-style WebSocket feed. Messages are JSON
+ * objects `{ type: 'candle', symbol, timestamp, open, high, low, close, volume }`
+ * (or arrays of them); see `scripts/mock-exchange.mjs` for a local server.
+ */
+export class WebSocketMarketDataProvider implements MarketDataProvider {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private retries = 0;
+  private stopped = false;
+
+  constructor(private readonly url: string) {}
+
+  get label() {
+    return `Live feed ${this.url}`;
+  }
+
+  start(onCandle: (candle: MarketCandle) => void, onError?: (err: Error) => void) {
+    this.stopped = false;
+    const connect = () => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(this.url);
+      } catch (e) {
+        // A malformed URL will not fix itself, so report it without retrying
+        onError?.(new Error(`Cannot connect to market feed ${this.url}: ${(e as Error).message}`));
+        return;
+      }
+      this.socket = socket;
+      socket.onopen = () => { this.retries = 0; };
+      socket.onmessage = (event) => {
+        try {
+          const payload = JSON.parse(String(event.data));
+          const messages: Record<string, unknown>[] = Array.isArray(payload) ? payload : [payload];
+          messages
+            .filter(m => m.type === undefined || m.type === 'candle')
+            .forEach(m => onCandle(toCandle(m, DEFAULT_SYMBOL)));
+        } catch (e) {
+          onError?.(new Error(`Malformed market message: ${(e as Error).message}`));
+        }
+      };
+      socket.onclose = () => {
+        if (this.stopped) return;
+        const delay = Math.min(30000, 1000 * 2 ** this.retries++);
+        onError?.(new Error(`Market feed disconnected, retrying in ${delay / 1000}s`));
+        this.reconnectTimer = window.setTimeout(connect, delay);
+      };
+    };
+    connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+export class MarketDataService {
+  static createProvider(config: MarketSourceConfig): MarketDataProvider {
+    if (config.kind === 'websocket') return new WebSocketMarketDataProvider(config.url);
+    return new ReplayMarketDataProvider({ url: config.url }, config.label, config.intervalMs);
+  }
+
+  static loadSource(): MarketSourceConfig {
+    try {
+      const saved = localStorage.getItem(SOURCE_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : DEFAULT_MARKET_SOURCE;
+    } catch {
+      return DEFAULT_MARKET_SOURCE;
+    }
+  }
+
+  static saveSource(config: MarketSourceConfig) {
+    // Object URLs for uploaded recordings die with the page, so never persist them
+    if (config.kind === 'replay' && config.url.startsWith('blob:')) return;
+    localStorage.setItem(SOURCE_STORAGE_KEY, JSON.stringify(config));
+  }
+
+  /**
+   * Ratio of the latest close to the calibration price, used to scale USD yield.
+   */
+  static getPriceFactor(history: MarketCandle[]): number {
+    const last = history[history.length - 1];
+    return last ? last.close / REFERENCE_PRICE : 1;
+  }
+}
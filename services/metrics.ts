@@ -0,0 +1,229 @@
+
+import { MiningBot } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+const DB_NAME = 'cloudmine_metrics';
+const DB_VERSION = 1;
+const BUCKET_STORE = 'buckets';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Fleet state changes on every telemetry reading; samples are taken at most this often
+const SAMPLE_INTERVAL_MS = 5000;
+const PRUNE_INTERVAL_MS = HOUR_MS;
+
+/** Series id for fleet-wide totals, alongside one series per bot id. */
+export const FLEET_SERIES_ID = 'fleet';
+
+export type MetricResolution = '1m' | '5m' | '1h' | '1d';
+
+export type MetricName = 'hashrate' | 'temp' | 'efficiency' | 'profit';
+
+/**
+ * Every sample is rolled into all four resolutions as it is written; finer
+ * rollups are dropped once they age past their retention.
+ */
+export const METRIC_RESOLUTIONS: { id: MetricResolution; ms: number; retentionMs: number }[] = [
+  { id: '1m', ms: MINUTE_MS, retentionMs: 2 * DAY_MS },
+  { id: '5m', ms: 5 * MINUTE_MS, retentionMs: 30 * DAY_MS },
+  { id: '1h', ms: HOUR_MS, retentionMs: 365 * DAY_MS },
+  { id: '1d', ms: DAY_MS, retentionMs: Infinity }
+];
+
+const METRIC_NAMES: MetricName[] = ['hashrate', 'temp', 'efficiency', 'profit'];
+
+type MetricSample = Record<MetricName, number>;
+
+interface StoredBucket {
+  resolution: MetricResolution;
+  seriesId: string;
+  start: number;
+  count: number;
+  sums: MetricSample;
+  peaks: MetricSample;
+}
+
+/**
+ * One bucket of a series: averages over the samples that fell into it, plus
+ * the highest temperature seen.
+ */
+export interface MetricPoint extends MetricSample {
+  timestamp: number;
+  peakTemp: number;
+  samples: number;
+}
+
+export interface MetricRange {
+  since: number;
+  until?: number;
+  /** Width of each returned point; 10m, 30m and similar are regrouped from the nearest rollup. */
+  intervalMs: number;
+}
+
+/**
+ * What a bot contributes to its series. Paused and faulted bots hash nothing,
+ * whatever their configured rate.
+ */
+const sampleBot = (bot: MiningBot): MetricSample => ({
+  hashrate: bot.status === 'active' ? bot.hashrate : 0,
+  temp: bot.temp,
+  efficiency: bot.efficiency,
+  profit: bot.profit24h
+});
+
+const sampleFleet = (bots: MiningBot[]): MetricSample => {
+  const samples = bots.map(sampleBot);
+  const total = (name: MetricName) => samples.reduce((acc, s) => acc + s[name], 0);
+  return {
+    hashrate: total('hashrate'),
+    temp: samples.length > 0 ? total('temp') / samples.length : 0,
+    efficiency: samples.length > 0 ? total('efficiency') / samples.length : 0,
+    profit: total('profit')
+  };
+};
+
+const emptyBucket = (resolution: MetricResolution, seriesId: string, start: number): StoredBucket => ({
+  resolution,
+  seriesId,
+  start,
+  count: 0,
+  sums: { hashrate: 0, temp: 0, efficiency: 0, profit: 0 },
+  peaks: { hashrate: -Infinity, temp: -Infinity, efficiency: -Infinity, profit: -Infinity }
+});
+
+const mergeInto = (target: StoredBucket, count: number, sums: MetricSample, peaks: MetricSample) => {
+  target.count += count;
+  METRIC_NAMES.forEach(name => {
+    target.sums[name] += sums[name];
+    target.peaks[name] = Math.max(target.peaks[name], peaks[name]);
+  });
+};
+
+/**
+ * Per-bot and fleet time-series of hashrate, temperature, efficiency and
+ * profit run-rate, kept in IndexedDB as pre-aggregated 1m/5m/1h/1d rollups.
+ */
+export class MetricsService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  // Buckets currently being filled, so each sample is a put rather than a read-modify-write
+  private static openBuckets = new Map<string, StoredBucket>();
+  private static writeQueue: Promise<void> = Promise.resolve();
+  private static lastSampleAt = 0;
+  private static lastPrunedAt = 0;
+
+  private static getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        const buckets = db.createObjectStore(BUCKET_STORE, { keyPath: ['resolution', 'seriesId', 'start'] });
+        buckets.createIndex('resolution_start', ['resolution', 'start']);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Samples every bot and the fleet total. Calls closer together than the
+   * sample interval are ignored.
+   */
+  static record(bots: MiningBot[], timestamp = Date.now()): Promise<void> {
+    if (timestamp - this.lastSampleAt < SAMPLE_INTERVAL_MS) return this.writeQueue;
+    this.lastSampleAt = timestamp;
+    const samples: [string, MetricSample][] = [
+      [FLEET_SERIES_ID, sampleFleet(bots)],
+      ...bots.map(bot => [bot.id, sampleBot(bot)] as [string, MetricSample])
+    ];
+    this.writeQueue = this.writeQueue
+      .then(() => this.write(samples, timestamp))
+      .catch(err => console.error("Failed to record metrics:", err));
+    return this.writeQueue;
+  }
+
+  static async getSeries(seriesId: string, range: MetricRange): Promise<MetricPoint[]> {
+    const until = range.until ?? Date.now();
+    const resolution = this.resolutionFor(range.intervalMs);
+    const db = await this.getDB();
+    const stored: StoredBucket[] = await requestToPromise(
+      db.transaction(BUCKET_STORE).objectStore(BUCKET_STORE).getAll(
+        IDBKeyRange.bound([resolution.id, seriesId, Math.floor(range.since / resolution.ms) * resolution.ms], [resolution.id, seriesId, until])
+      )
+    );
+
+    const grouped = new Map<number, StoredBucket>();
+    stored.forEach(bucket => {
+      const start = Math.floor(bucket.start / range.intervalMs) * range.intervalMs;
+      if (!grouped.has(start)) grouped.set(start, emptyBucket(resolution.id, seriesId, start));
+      mergeInto(grouped.get(start)!, bucket.count, bucket.sums, bucket.peaks);
+    });
+
+    return [...grouped.values()]
+      .filter(b => b.count > 0)
+      .sort((a, b) => a.start - b.start)
+      .map(b => ({
+        timestamp: b.start,
+        hashrate: b.sums.hashrate / b.count,
+        temp: b.sums.temp / b.count,
+        efficiency: b.sums.efficiency / b.count,
+        profit: b.sums.profit / b.count,
+        peakTemp: b.peaks.temp,
+        samples: b.count
+      }));
+  }
+
+  /**
+   * Coarsest stored rollup that divides the interval evenly, which is also
+   * the one retained longest.
+   */
+  static resolutionFor(intervalMs: number) {
+    const fits = METRIC_RESOLUTIONS.filter(r => r.ms <= intervalMs && intervalMs % r.ms === 0);
+    return fits[fits.length - 1] ?? METRIC_RESOLUTIONS[0];
+  }
+
+  private static async write(samples: [string, MetricSample][], timestamp: number) {
+    const db = await this.getDB();
+    const touched: StoredBucket[] = [];
+    for (const [seriesId, sample] of samples) {
+      for (const resolution of METRIC_RESOLUTIONS) {
+        const start = Math.floor(timestamp / resolution.ms) * resolution.ms;
+        const key = `${resolution.id}|${seriesId}`;
+        let bucket = this.openBuckets.get(key);
+        if (!bucket || bucket.start !== start) {
+          // Resume a bucket left half-filled by a previous session
+          bucket = await requestToPromise<StoredBucket | undefined>(
+            db.transaction(BUCKET_STORE).objectStore(BUCKET_STORE).get([resolution.id, seriesId, start])
+          ) ?? emptyBucket(resolution.id, seriesId, start);
+          this.openBuckets.set(key, bucket);
+        }
+        mergeInto(bucket, 1, sample, sample);
+        touched.push(bucket);
+      }
+    }
+
+    const tx = db.transaction(BUCKET_STORE, 'readwrite');
+    const store = tx.objectStore(BUCKET_STORE);
+    touched.forEach(bucket => store.put(bucket));
+    await transactionDone(tx);
+
+    if (timestamp - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = timestamp;
+      await this.prune(db, timestamp);
+    }
+    window.dispatchEvent(new CustomEvent('metrics-recorded', { detail: { timestamp } }));
+  }
+
+  private static async prune(db: IDBDatabase, now: number) {
+    const tx = db.transaction(BUCKET_STORE, 'readwrite');
+    const index = tx.objectStore(BUCKET_STORE).index('resolution_start');
+    METRIC_RESOLUTIONS.filter(r => Number.isFinite(r.retentionMs)).forEach(resolution => {
+      const request = index.openCursor(IDBKeyRange.bound([resolution.id, 0], [resolution.id, now - resolution.retentionMs]));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    });
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,92 @@
+
+import { MiningBot } from "../types";
+
+export const MINING_ALGORITHMS = ['SHA-256', 'Ethash', 'KawPow', 'Scrypt', 'Etchash', 'Autolykos2'];
+
+export const ALGO_MULTIPLIERS: Record<string, number> = {
+  'SHA-256': 1.2,
+  'Ethash': 1.0,
+  'KawPow': 0.6,
+  'Scrypt': 0.8,
+  'Etchash': 0.95,
+  'Autolykos2': 1.1
+};
+
+const FLEET_STORAGE_KEY = 'cloudmine_fleet';
+const CLOCK_STORAGE_KEY = 'cloudmine_accrual_clock';
+
+const YIELD_BASE_FACTOR = 0.25;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class MiningService {
+  static calculateProjectedValue(hashrate: number, efficiency: number, variance = 1): number {
+    return hashrate * efficiency * YIELD_BASE_FACTOR * variance;
+  }
+
+  /**
+   * Current USD yield per day for a bot. Paused and faulted bots earn nothing.
+   * `priceFactor` scales the calibrated yield by the live market price. The
+   * algorithm is already reflected in the hashrate (see `switchAlgorithm`),
+   * so it is not applied again here; provisioning uses the same formula.
+   */
+  static getDailyYield(bot: MiningBot, priceFactor = 1): number {
+    if (bot.status !== 'active') return 0;
+    return this.calculateProjectedValue(bot.hashrate, bot.efficiency, priceFactor);
+  }
+
+  /**
+   * The bot as reconfigured for another algorithm; hashrate scales with the
+   * ratio of the two algorithms' multipliers.
+   */
+  static switchAlgorithm(bot: MiningBot, nextAlgo: string): MiningBot {
+    const currentMult = ALGO_MULTIPLIERS[bot.algorithm] || 1;
+    const nextMult = ALGO_MULTIPLIERS[nextAlgo] || 1;
+    return { ...bot, algorithm: nextAlgo, hashrate: bot.hashrate * (nextMult / currentMult) };
+  }
+
+  /**
+   * Credits each active bot for the elapsed wall-clock time and refreshes its
+   * 24h run-rate.
+   */
+  static accrue(bots: MiningBot[], elapsedMs: number, priceFactor = 1): MiningBot[] {
+    if (elapsedMs <= 0) return bots;
+    return bots.map(bot => {
+      const dailyYield = this.getDailyYield(bot, priceFactor);
+      return {
+        ...bot,
+        profit24h: dailyYield,
+        balance: (bot.balance || 0) + dailyYield * (elapsedMs / MS_PER_DAY)
+      };
+    });
+  }
+
+  static loadFleet(fallback: MiningBot[]): MiningBot[] {
+    try {
+      const saved = localStorage.getItem(FLEET_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : fallback;
+    } catch (e) {
+      console.error("Failed to load fleet state:", e);
+      return fallback;
+    }
+  }
+
+  static saveFleet(bots: MiningBot[]) {
+    try {
+      localStorage.setItem(FLEET_STORAGE_KEY, JSON.stringify(bots));
+    } catch (e) {
+      console.error("Failed to save fleet state:", e);
+    }
+  }
+
+  /**
+   * Timestamp of the last accrual tick, or null on a fresh install.
+   */
+  static getLastAccrualAt(): number | null {
+    const saved = localStorage.getItem(CLOCK_STORAGE_KEY);
+    return saved ? Number(saved) : null;
+  }
+
+  static setLastAccrualAt(timestamp: number) {
+    localStorage.setItem(CLOCK_STORAGE_KEY, String(timestamp));
+  }
+}
@@ -0,0 +1,211 @@
+
+import { MiningBot } from "../types";
+import { MiningService } from "./mining";
+import { CatalogService } from "./catalog";
+
+export const DEFAULT_REVENUE_SERIES = {
+  url: '/market/algo-revenue-sample.csv',
+  label: 'Algorithm revenue sample week'
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Recorded revenue per algorithm in USD per MH/s per day, on a fixed step.
+ */
+export interface RevenueSeries {
+  label: string;
+  stepMs: number;
+  timestamps: number[];
+  byAlgorithm: Record<string, number[]>;
+}
+
+export interface SwitchingCosts {
+  /** Minutes with no output while the bot reconfigures. */
+  downtimeMinutes: number;
+  /** Minutes after downtime at reduced output while the new job warms up. */
+  warmupMinutes: number;
+  /** Share of normal output produced during warm-up, 0-1. */
+  warmupEfficiency: number;
+}
+
+export const DEFAULT_SWITCHING_COSTS: SwitchingCosts = {
+  downtimeMinutes: 10,
+  warmupMinutes: 20,
+  warmupEfficiency: 0.5
+};
+
+export interface ScheduleSegment {
+  algorithm: string;
+  start: number;
+  end: number;
+  revenue: number;
+}
+
+export interface SwitchingPlan {
+  schedule: ScheduleSegment[];
+  revenue: number;
+  switches: number;
+  /** Revenue given up to downtime and warm-up. */
+  switchingLoss: number;
+}
+
+export interface SwitchingReport {
+  seriesLabel: string;
+  horizonMs: number;
+  stay: SwitchingPlan;
+  /** Switching to the requested algorithm now and staying there. */
+  target: SwitchingPlan | null;
+  optimal: SwitchingPlan;
+  optimalGain: number;
+  optimalGainPct: number;
+  targetGain: number | null;
+  targetGainPct: number | null;
+}
+
+/**
+ * Parses a wide CSV: a `timestamp` column followed by one column per
+ * algorithm, with rows on a uniform step.
+ */
+export const parseRevenueSeries = (text: string, label: string): RevenueSeries => {
+  const [headerLine, ...lines] = text.trim().split(/\r?\n/).filter(line => line.trim());
+  const headers = headerLine.split(',').map(h => h.trim());
+  if (headers[0].toLowerCase() !== 'timestamp' || headers.length < 2) {
+    throw new Error("Revenue series needs a `timestamp` column followed by one column per algorithm");
+  }
+  const algorithms = headers.slice(1);
+  const byAlgorithm: Record<string, number[]> = Object.fromEntries(algorithms.map(a => [a, []]));
+  const timestamps = lines.map((line, i) => {
+    const cells = line.split(',');
+    const raw = cells[0].trim();
+    const timestamp = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (Number.isNaN(timestamp)) throw new Error(`Line ${i + 2}: unrecognised timestamp "${raw}"`);
+    algorithms.forEach((algo, col) => {
+      const value = Number(cells[col + 1]);
+      if (!Number.isFinite(value)) throw new Error(`Line ${i + 2}: ${algo} revenue is not a number`);
+      byAlgorithm[algo].push(value);
+    });
+    return timestamp;
+  });
+  if (timestamps.length < 2) throw new Error("Revenue series needs at least two rows");
+
+  const stepMs = timestamps[1] - timestamps[0];
+  if (stepMs <= 0 || timestamps.some((t, i) => i > 0 && t - timestamps[i - 1] !== stepMs)) {
+    throw new Error("Revenue series rows must be in order on a uniform step");
+  }
+  return { label, stepMs, timestamps, byAlgorithm };
+};
+
+/**
+ * Plans when a bot should change algorithm over a recorded revenue series,
+ * charging each switch its downtime and warm-up, and compares the best
+ * schedule with staying on the current algorithm.
+ */
+export class ProfitSwitchingService {
+  private static cache = new Map<string, Promise<RevenueSeries>>();
+
+  static loadSeries(url = DEFAULT_REVENUE_SERIES.url, label = DEFAULT_REVENUE_SERIES.label): Promise<RevenueSeries> {
+    if (!this.cache.has(url)) {
+      const promise = fetch(url).then(async res => {
+        if (!res.ok) throw new Error(`Failed to fetch revenue series ${url}: ${res.status}`);
+        return parseRevenueSeries(await res.text(), label);
+      });
+      promise.catch(() => this.cache.delete(url));
+      this.cache.set(url, promise);
+    }
+    return this.cache.get(url)!;
+  }
+
+  static simulate(bot: MiningBot, series: RevenueSeries, costs: SwitchingCosts = DEFAULT_SWITCHING_COSTS, targetAlgo?: string): SwitchingReport {
+    // Only algorithms the bot's hardware can run are candidates
+    const allowed = CatalogService.allowedAlgorithms(bot);
+    const algorithms = Object.keys(series.byAlgorithm).filter(algo => allowed.includes(algo) || algo === bot.algorithm);
+    if (!algorithms.includes(bot.algorithm)) throw new Error(`The revenue series has no data for ${bot.algorithm}`);
+    if (targetAlgo && !algorithms.includes(targetAlgo)) throw new Error(`No revenue data for ${targetAlgo}, or this bot's hardware cannot run it`);
+
+    const steps = series.timestamps.length;
+    const stepDays = series.stepMs / MS_PER_DAY;
+    // Hashrate profile: what this bot delivers on each algorithm
+    const hashrates = Object.fromEntries(algorithms.map(algo => [algo, MiningService.switchAlgorithm(bot, algo).hashrate]));
+    const revenueAt = (algo: string, t: number) => series.byAlgorithm[algo][t] * hashrates[algo] * bot.efficiency * stepDays;
+
+    // Share of a step still produced in the step a switch happens; costs longer than a step are clamped
+    const lostMinutes = costs.downtimeMinutes + costs.warmupMinutes * (1 - costs.warmupEfficiency);
+    const switchFactor = Math.max(0, 1 - (lostMinutes * MS_PER_MINUTE) / series.stepMs);
+
+    const stay = this.plan(Array(steps).fill(bot.algorithm), bot.algorithm, series, revenueAt, switchFactor);
+    const target = targetAlgo ? this.plan(Array(steps).fill(targetAlgo), bot.algorithm, series, revenueAt, switchFactor) : null;
+
+    // Viterbi-style pass: best[t][algo] is the most revenue ending step t on algo
+    let best = Object.fromEntries(algorithms.map(algo => [algo, revenueAt(algo, 0) * (algo === bot.algorithm ? 1 : switchFactor)]));
+    const cameFrom: Record<string, string>[] = [];
+    for (let t = 1; t < steps; t++) {
+      const next: Record<string, number> = {};
+      const from: Record<string, string> = {};
+      algorithms.forEach(algo => {
+        let bestPrev = algo;
+        let bestValue = best[algo] + revenueAt(algo, t);
+        algorithms.forEach(prev => {
+          if (prev === algo) return;
+          const value = best[prev] + revenueAt(algo, t) * switchFactor;
+          if (value > bestValue) {
+            bestValue = value;
+            bestPrev = prev;
+          }
+        });
+        next[algo] = bestValue;
+        from[algo] = bestPrev;
+      });
+      cameFrom.push(from);
+      best = next;
+    }
+    const path: string[] = [algorithms.reduce((a, b) => best[b] > best[a] ? b : a)];
+    for (let t = steps - 2; t >= 0; t--) path.unshift(cameFrom[t][path[0]]);
+    const optimal = this.plan(path, bot.algorithm, series, revenueAt, switchFactor);
+
+    const gain = (plan: SwitchingPlan) => plan.revenue - stay.revenue;
+    const gainPct = (plan: SwitchingPlan) => stay.revenue > 0 ? (gain(plan) / stay.revenue) * 100 : 0;
+    return {
+      seriesLabel: series.label,
+      horizonMs: steps * series.stepMs,
+      stay,
+      target,
+      optimal,
+      optimalGain: gain(optimal),
+      optimalGainPct: gainPct(optimal),
+      targetGain: target ? gain(target) : null,
+      targetGainPct: target ? gainPct(target) : null
+    };
+  }
+
+  /**
+   * Prices a per-step algorithm path starting from `initialAlgo`.
+   */
+  private static plan(path: string[], initialAlgo: string, series: RevenueSeries, revenueAt: (algo: string, t: number) => number, switchFactor: number): SwitchingPlan {
+    const schedule: ScheduleSegment[] = [];
+    let revenue = 0;
+    let switchingLoss = 0;
+    let switches = 0;
+    path.forEach((algo, t) => {
+      const full = revenueAt(algo, t);
+      const switched = algo !== (t === 0 ? initialAlgo : path[t - 1]);
+      const earned = switched ? full * switchFactor : full;
+      if (switched) {
+        switches++;
+        switchingLoss += full - earned;
+      }
+      revenue += earned;
+
+      const start = series.timestamps[t];
+      const last = schedule[schedule.length - 1];
+      if (last && last.algorithm === algo) {
+        last.end = start + series.stepMs;
+        last.revenue += earned;
+      } else {
+        schedule.push({ algorithm: algo, start, end: start + series.stepMs, revenue: earned });
+      }
+    });
+    return { schedule, revenue, switches, switchingLoss };
+  }
+}
@@ -0,0 +1,195 @@
+
+import { MiningBot } from "../types";
+import { CatalogService } from "./catalog";
+
+const SETTINGS_STORAGE_KEY = 'cloudmine_power_settings';
+const HOURS_PER_DAY = 24;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Rate key used for bots with no region, or a region without its own rate. */
+export const DEFAULT_RATE_KEY = 'default';
+
+// Draw assumed for bots provisioned before the tier catalog recorded power
+const UNTIERED_WATTS_PER_MHS = 3;
+
+/**
+ * A time-of-use window in the region's local hours; `endHour` is exclusive
+ * and may wrap past midnight (e.g. 22 -> 6).
+ */
+export interface TimeOfUseWindow {
+  startHour: number;
+  endHour: number;
+  pricePerKwh: number;
+}
+
+export interface RegionPowerRate {
+  /** $/kWh outside any time-of-use window. */
+  basePricePerKwh: number;
+  windows: TimeOfUseWindow[];
+}
+
+export interface PowerSettings {
+  rates: Record<string, RegionPowerRate>;
+  /** Share of gross revenue kept by the mining pool. */
+  poolFeePct: number;
+  /** Share of gross revenue kept by the platform. */
+  platformFeePct: number;
+}
+
+export const DEFAULT_POWER_SETTINGS: PowerSettings = {
+  rates: {
+    [DEFAULT_RATE_KEY]: { basePricePerKwh: 0.12, windows: [] },
+    'us-east': { basePricePerKwh: 0.11, windows: [{ startHour: 16, endHour: 21, pricePerKwh: 0.19 }] },
+    'us-west': { basePricePerKwh: 0.14, windows: [{ startHour: 16, endHour: 21, pricePerKwh: 0.28 }] },
+    'eu-central': { basePricePerKwh: 0.22, windows: [{ startHour: 8, endHour: 20, pricePerKwh: 0.3 }] },
+    'ap-southeast': { basePricePerKwh: 0.1, windows: [] }
+  },
+  poolFeePct: 1,
+  platformFeePct: 2
+};
+
+/**
+ * One bot's daily economics. Revenue figures are USD per day.
+ */
+export interface ProfitBreakdown {
+  gross: number;
+  poolFee: number;
+  platformFee: number;
+  powerCost: number;
+  net: number;
+  watts: number;
+  kwhPerDay: number;
+  /** Time-weighted $/kWh across the day. */
+  avgPricePerKwh: number;
+}
+
+export interface InvestmentReturn {
+  cost: number;
+  /** Net return per year on the purchase price, in percent. */
+  annualRoiPct: number | null;
+  /** When cumulative net profit covers the purchase price, if it ever does. */
+  breakEvenAt: number | null;
+}
+
+const inWindow = (hour: number, w: TimeOfUseWindow) =>
+  w.startHour <= w.endHour ? hour >= w.startHour && hour < w.endHour : hour >= w.startHour || hour < w.endHour;
+
+/**
+ * Net profitability: gross mining yield less pool and platform fees and
+ * the electricity each bot draws at its region's time-of-use rates.
+ */
+export class ProfitabilityService {
+  private static settings: PowerSettings | null = null;
+
+  static getSettings(): PowerSettings {
+    if (!this.settings) {
+      try {
+        const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : null;
+        this.settings = parsed
+          ? { ...DEFAULT_POWER_SETTINGS, ...parsed, rates: { ...DEFAULT_POWER_SETTINGS.rates, ...parsed.rates } }
+          : DEFAULT_POWER_SETTINGS;
+      } catch (e) {
+        console.error("Failed to load power settings:", e);
+        this.settings = DEFAULT_POWER_SETTINGS;
+      }
+    }
+    return this.settings!;
+  }
+
+  static saveSettings(settings: PowerSettings) {
+    this.settings = settings;
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    window.dispatchEvent(new CustomEvent('power-settings-changed', { detail: settings }));
+  }
+
+  static rateFor(region: string | undefined, settings = this.getSettings()): RegionPowerRate {
+    return (region && settings.rates[region]) || settings.rates[DEFAULT_RATE_KEY] || DEFAULT_POWER_SETTINGS.rates[DEFAULT_RATE_KEY];
+  }
+
+  /**
+   * $/kWh at a local hour; the first matching window wins.
+   */
+  static priceAt(rate: RegionPowerRate, hour: number): number {
+    return rate.windows.find(w => inWindow(hour, w))?.pricePerKwh ?? rate.basePricePerKwh;
+  }
+
+  /**
+   * Average over the 24 local hours, so a daily figure needs no timezone.
+   */
+  static averagePrice(rate: RegionPowerRate): number {
+    let total = 0;
+    for (let hour = 0; hour < HOURS_PER_DAY; hour++) total += this.priceAt(rate, hour);
+    return total / HOURS_PER_DAY;
+  }
+
+  /**
+   * Current draw: the bot's own override, else its tier's rated power scaled
+   * by how hard it is running against the tier's rated hashrate. Bots that
+   * are not hashing draw nothing.
+   */
+  static wattsFor(bot: MiningBot): number {
+    if (bot.status !== 'active') return 0;
+    if (bot.powerWatts !== undefined) return bot.powerWatts;
+    const tier = CatalogService.tierFor(bot);
+    if (!tier) return bot.hashrate * UNTIERED_WATTS_PER_MHS;
+    const rated = tier.hashrate || 1;
+    return tier.powerWatts * (bot.hashrate / rated);
+  }
+
+  /**
+   * Daily economics for `gross` revenue (defaults to the bot's 24h run-rate).
+   */
+  static breakdown(bot: MiningBot, gross = bot.profit24h, settings = this.getSettings()): ProfitBreakdown {
+    const watts = this.wattsFor(bot);
+    const kwhPerDay = (watts * HOURS_PER_DAY) / 1000;
+    const avgPricePerKwh = this.averagePrice(this.rateFor(bot.region, settings));
+    const poolFee = gross * (settings.poolFeePct / 100);
+    const platformFee = gross * (settings.platformFeePct / 100);
+    const powerCost = kwhPerDay * avgPricePerKwh;
+    return { gross, poolFee, platformFee, powerCost, net: gross - poolFee - platformFee - powerCost, watts, kwhPerDay, avgPricePerKwh };
+  }
+
+  /**
+   * ROI and break-even against what was paid for the bot, assuming today's
+   * net run-rate holds. Untiered bots have no purchase price to recover.
+   */
+  static investment(bot: MiningBot, net: number): InvestmentReturn {
+    const cost = bot.purchasePrice ?? 0;
+    if (cost <= 0) return { cost, annualRoiPct: null, breakEvenAt: null };
+    return {
+      cost,
+      annualRoiPct: ((net * 365) / cost) * 100,
+      breakEvenAt: net > 0 ? (bot.purchasedAt ?? Date.now()) + (cost / net) * MS_PER_DAY : null
+    };
+  }
+
+  /**
+   * Fleet totals. ROI and break-even cover only bots that have a purchase
+   * price, so seeded and pre-catalog bots add revenue but not returns.
+   */
+  static fleet(bots: MiningBot[], settings = this.getSettings()): ProfitBreakdown & InvestmentReturn {
+    const rows = bots.map(bot => this.breakdown(bot, bot.profit24h, settings));
+    const sum = (key: keyof ProfitBreakdown) => rows.reduce((acc, r) => acc + r[key], 0);
+    const kwhPerDay = sum('kwhPerDay');
+    const net = sum('net');
+    const purchased = bots.map((bot, i) => ({ bot, row: rows[i] })).filter(({ bot }) => (bot.purchasePrice ?? 0) > 0);
+    const cost = purchased.reduce((acc, { bot }) => acc + bot.purchasePrice!, 0);
+    const purchasedNet = purchased.reduce((acc, { row }) => acc + row.net, 0);
+    // Fleet break-even counts from the earliest purchase
+    const firstPurchase = Math.min(...purchased.map(({ bot }) => bot.purchasedAt ?? Infinity));
+    return {
+      gross: sum('gross'),
+      poolFee: sum('poolFee'),
+      platformFee: sum('platformFee'),
+      powerCost: sum('powerCost'),
+      net,
+      watts: sum('watts'),
+      kwhPerDay,
+      avgPricePerKwh: kwhPerDay > 0 ? sum('powerCost') / kwhPerDay : 0,
+      cost,
+      annualRoiPct: cost > 0 ? ((purchasedNet * 365) / cost) * 100 : null,
+      breakEvenAt: cost > 0 && purchasedNet > 0 ? (Number.isFinite(firstPurchase) ? firstPurchase : Date.now()) + (cost / purchasedNet) * MS_PER_DAY : null
+    };
+  }
+}
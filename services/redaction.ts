@@ -0,0 +1,173 @@
+
+import { AddressService } from "./address";
+import { KeyStore } from "./keystore";
+import { toBase64, fromBase64 } from "./base64";
+
+const RULES_STORAGE_KEY = 'cloudmine_redaction_rules';
+const SALT_STORAGE_KEY = 'cloudmine_redaction_salt';
+const SEAL_KEY_ID = 'audit-redaction';
+
+// Strings outside this length range are never checked for wallet addresses
+const ADDRESS_MIN_LENGTH = 26;
+const ADDRESS_MAX_LENGTH = 100;
+
+export type RedactionStrategy = 'mask' | 'drop' | 'hash';
+
+export const REDACTION_STRATEGY_LABELS: Record<RedactionStrategy, string> = {
+  mask: 'Mask to prefix/suffix',
+  drop: 'Drop value',
+  hash: 'Salted hash'
+};
+
+export interface RedactionRule {
+  id: string;
+  label: string;
+  enabled: boolean;
+  /** Metadata key names, case-insensitive; `*` is a wildcard. */
+  keys: string[];
+  /** Also applies to any string value that validates as a wallet address. */
+  matchAddresses?: boolean;
+  strategy: RedactionStrategy;
+  keepPrefix?: number;
+  keepSuffix?: number;
+}
+
+/** Original values of redacted fields, AES-GCM encrypted with a local key. */
+export interface SealedValues {
+  iv: string;
+  data: string;
+}
+
+export interface RedactionResult {
+  metadata?: Record<string, any>;
+  /** Dotted paths of the fields that were rewritten. */
+  paths: string[];
+  sealed?: SealedValues;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { id: 'wallet-addresses', label: 'Wallet addresses', enabled: true, keys: ['address', 'walletAddress', 'destination', 'addr'], matchAddresses: true, strategy: 'mask', keepPrefix: 6, keepSuffix: 4 },
+  { id: 'prompts', label: 'AI prompt bodies', enabled: true, keys: ['prompt', 'currentInput'], strategy: 'drop' },
+  { id: 'card-data', label: 'Payment card data', enabled: true, keys: ['last4', 'card*', 'pan'], strategy: 'drop' },
+  { id: 'identifiers', label: 'Network and customer identifiers', enabled: true, keys: ['ip', 'email', 'handshakeId', 'customerId'], strategy: 'hash' }
+];
+
+const keyMatcher = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const looksLikeAddress = (value: string) =>
+  value.length >= ADDRESS_MIN_LENGTH && value.length <= ADDRESS_MAX_LENGTH && !/\s/.test(value) && AddressService.validate(value).valid;
+
+/**
+ * Rewrites sensitive metadata before an audit entry is persisted. The stored
+ * (and exported) entry only ever holds the redacted form; originals are
+ * sealed with a non-extractable AES-GCM key so the unredacted view can be
+ * restored locally after re-authentication.
+ */
+export class RedactionService {
+  static getRules(): RedactionRule[] {
+    try {
+      const saved = localStorage.getItem(RULES_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : DEFAULT_REDACTION_RULES;
+    } catch (e) {
+      console.error("Failed to load redaction rules:", e);
+      return DEFAULT_REDACTION_RULES;
+    }
+  }
+
+  static saveRules(rules: RedactionRule[]) {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+  }
+
+  static async apply(metadata: Record<string, any> | undefined, rules = this.getRules()): Promise<RedactionResult> {
+    if (!metadata) return { metadata, paths: [] };
+    const active = rules.filter(r => r.enabled).map(rule => ({ rule, matchers: rule.keys.map(keyMatcher) }));
+    if (active.length === 0) return { metadata, paths: [] };
+
+    const originals: Record<string, any> = {};
+
+    const ruleFor = (key: string, value: any) =>
+      active.find(({ matchers }) => matchers.some(m => m.test(key)))?.rule ??
+      (typeof value === 'string' && looksLikeAddress(value) ? active.find(({ rule }) => rule.matchAddresses)?.rule : undefined);
+
+    const walk = async (value: any, path: string[]): Promise<any> => {
+      if (value === null || typeof value !== 'object') return value;
+      const out: any = Array.isArray(value) ? [] : {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = [...path, key];
+        const rule = ruleFor(key, child);
+        if (rule && child !== null && child !== undefined) {
+          originals[childPath.join('.')] = child;
+          out[key] = await this.rewrite(child, rule);
+        } else {
+          out[key] = await walk(child, childPath);
+        }
+      }
+      return out;
+    };
+
+    const redacted = await walk(metadata, []);
+    const paths = Object.keys(originals);
+    if (paths.length === 0) return { metadata, paths };
+    return { metadata: redacted, paths, sealed: await this.seal(originals) };
+  }
+
+  /**
+   * Decrypts sealed originals and writes them back over the redacted fields.
+   */
+  static async restore(metadata: Record<string, any>, sealed: SealedValues): Promise<Record<string, any>> {
+    const originals: Record<string, any> = JSON.parse(await this.unseal(sealed));
+    const restored = JSON.parse(JSON.stringify(metadata));
+    Object.entries(originals).forEach(([path, value]) => {
+      const segments = path.split('.');
+      const parent = segments.slice(0, -1).reduce((node, segment) => node?.[segment], restored);
+      if (parent && typeof parent === 'object') parent[segments[segments.length - 1]] = value;
+    });
+    return restored;
+  }
+
+  private static async rewrite(value: any, rule: RedactionRule): Promise<string> {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    switch (rule.strategy) {
+      case 'mask': {
+        const prefix = rule.keepPrefix ?? 4;
+        const suffix = rule.keepSuffix ?? 4;
+        return text.length > prefix + suffix ? `${text.slice(0, prefix)}…${suffix > 0 ? text.slice(-suffix) : ''}` : '…';
+      }
+      case 'drop':
+        return `[dropped ${text.length} chars]`;
+      case 'hash': {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${this.getSalt()}:${text}`));
+        return `hash:${Array.from(new Uint8Array(digest).slice(0, 8), b => b.toString(16).padStart(2, '0')).join('')}`;
+      }
+    }
+  }
+
+  /**
+   * Per-browser salt so hashed identifiers stay linkable locally but cannot be
+   * reversed by dictionary lookup once exported.
+   */
+  private static getSalt(): string {
+    let salt = localStorage.getItem(SALT_STORAGE_KEY);
+    if (!salt) {
+      salt = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+      localStorage.setItem(SALT_STORAGE_KEY, salt);
+    }
+    return salt;
+  }
+
+  private static getSealKey(): Promise<CryptoKey> {
+    return KeyStore.getOrCreate(SEAL_KEY_ID, () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']));
+  }
+
+  private static async seal(values: Record<string, any>): Promise<SealedValues> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.getSealKey(), new TextEncoder().encode(JSON.stringify(values)));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  private static async unseal(sealed: SealedValues): Promise<string> {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, await this.getSealKey(), fromBase64(sealed.data));
+    return new TextDecoder().decode(plain);
+  }
+}
@@ -0,0 +1,197 @@
+
+import { AssetSymbol, LogCategory, Transaction, TransactionStatus } from "../types";
+import { LedgerService } from "./ledger";
+import { LoggerService } from "./logger";
+
+export const REQUIRED_CONFIRMATIONS: Record<AssetSymbol, number> = {
+  USD: 1,
+  BTC: 3,
+  ETH: 12,
+  SOL: 32
+};
+
+const IN_FLIGHT: TransactionStatus[] = ['requested', 'approved', 'broadcast'];
+
+export interface SettlementUpdate {
+  status: TransactionStatus;
+  confirmations?: number;
+  txHash?: string;
+  reason?: string;
+}
+
+/**
+ * Carries a requested withdrawal to the network and reports each lifecycle
+ * step. `submit` must resume from `tx.status`, so in-flight withdrawals can be
+ * handed back to the backend after a reload. Returns a cancel function.
+ */
+export interface SettlementBackend {
+  readonly name: string;
+  submit(tx: Transaction, onUpdate: (update: SettlementUpdate) => void): () => void;
+}
+
+interface SimulatorOptions {
+  approvalDelayMs: number;
+  broadcastDelayMs: number;
+  blockTimeMs: Record<AssetSymbol, number>;
+  rejectionRate: number;
+  dropRate: number;
+  reversalRate: number;
+}
+
+const DEFAULT_SIMULATOR_OPTIONS: SimulatorOptions = {
+  approvalDelayMs: 1500,
+  broadcastDelayMs: 2000,
+  blockTimeMs: { USD: 1000, BTC: 4000, ETH: 800, SOL: 250 },
+  rejectionRate: 0.03,
+  dropRate: 0.05,
+  reversalRate: 0.02
+};
+
+/**
+ * Local stand-in for a custody/broadcast service. Timings are compressed
+ * block times; failure rates are configurable for exercising refund paths.
+ */
+export class SimulatedSettlementBackend implements SettlementBackend {
+  readonly name = 'Local Settlement Simulator';
+  private readonly options: SimulatorOptions;
+
+  constructor(options: Partial<SimulatorOptions> = {}) {
+    this.options = { ...DEFAULT_SIMULATOR_OPTIONS, ...options };
+  }
+
+  submit(tx: Transaction, onUpdate: (update: SettlementUpdate) => void) {
+    const timers: number[] = [];
+    const after = (ms: number, fn: () => void) => { timers.push(window.setTimeout(fn, ms)); };
+    const { approvalDelayMs, broadcastDelayMs, blockTimeMs, rejectionRate, dropRate, reversalRate } = this.options;
+    const required = tx.requiredConfirmations ?? REQUIRED_CONFIRMATIONS[tx.asset];
+
+    const confirm = (confirmations: number, txHash: string) => {
+      after(blockTimeMs[tx.asset], () => {
+        if (confirmations === 0 && Math.random() < dropRate) {
+          onUpdate({ status: 'failed', reason: 'Transaction dropped from mempool' });
+          return;
+        }
+        const next = confirmations + 1;
+        if (next < required) {
+          onUpdate({ status: 'broadcast', confirmations: next, txHash });
+          confirm(next, txHash);
+          return;
+        }
+        onUpdate({ status: 'settled', confirmations: next, txHash });
+        if (Math.random() < reversalRate) {
+          after(blockTimeMs[tx.asset] * 2, () => onUpdate({ status: 'reversed', reason: 'Chain reorganisation orphaned the payout block' }));
+        }
+      });
+    };
+
+    const broadcast = () => after(broadcastDelayMs, () => {
+      const txHash = `0x${Array.from({ length: 32 }, () => Math.floor(Math.random() * 256).toString(16).padStart(2, '0')).join('')}`;
+      onUpdate({ status: 'broadcast', confirmations: 0, txHash });
+      confirm(0, txHash);
+    });
+
+    if (tx.status === 'requested') {
+      after(approvalDelayMs, () => {
+        if (Math.random() < rejectionRate) {
+          onUpdate({ status: 'failed', reason: 'Rejected by compliance screening' });
+          return;
+        }
+        onUpdate({ status: 'approved' });
+        broadcast();
+      });
+    } else if (tx.status === 'approved') {
+      broadcast();
+    } else if (tx.status === 'broadcast' && tx.txHash) {
+      confirm(tx.confirmations ?? 0, tx.txHash);
+    }
+
+    return () => timers.forEach(t => clearTimeout(t));
+  }
+}
+
+export class SettlementService {
+  private static backend: SettlementBackend = new SimulatedSettlementBackend();
+  private static active = new Map<string, () => void>();
+
+  static setBackend(backend: SettlementBackend) {
+    this.active.forEach(cancel => cancel());
+    this.active.clear();
+    this.backend = backend;
+  }
+
+  static getBackendName() {
+    return this.backend.name;
+  }
+
+  /**
+   * Reserves the funds in the ledger and hands the withdrawal to the backend.
+   */
+  static async submitWithdrawal(tx: Transaction) {
+    const requested: Transaction = {
+      ...tx,
+      status: 'requested',
+      confirmations: 0,
+      requiredConfirmations: REQUIRED_CONFIRMATIONS[tx.asset],
+      statusHistory: [{ status: 'requested', at: Date.now() }]
+    };
+    await LedgerService.recordWithdrawalRequest(requested);
+    LoggerService.log(LogCategory.FINANCIAL, "Withdrawal requested", { txId: tx.id, asset: tx.asset, amount: tx.amount, usdValue: tx.usdValue, unpriced: tx.usdValue === undefined, backend: this.backend.name });
+    this.track(requested);
+  }
+
+  /**
+   * Re-attaches withdrawals that were still in flight when the page closed.
+   */
+  static resume(transactions: Transaction[]) {
+    transactions
+      .filter(tx => tx.kind === 'withdrawal' && IN_FLIGHT.includes(tx.status) && !this.active.has(tx.id))
+      .forEach(tx => this.track(tx));
+  }
+
+  private static track(initial: Transaction) {
+    let current = initial;
+    // Updates are applied one at a time so ledger postings never interleave
+    let queue = Promise.resolve();
+
+    const cancel = this.backend.submit(initial, (update) => {
+      queue = queue.then(async () => {
+        current = await this.apply(current, update);
+        if (!IN_FLIGHT.includes(current.status) && current.status !== 'settled') this.active.delete(current.id);
+      }).catch(err => {
+        console.error("Failed to apply settlement update:", err);
+        LoggerService.log(LogCategory.FINANCIAL, "Settlement update could not be posted", { txId: current.id, status: update.status, error: String(err) });
+      });
+    });
+    this.active.set(initial.id, cancel);
+  }
+
+  private static async apply(tx: Transaction, update: SettlementUpdate): Promise<Transaction> {
+    const next: Transaction = {
+      ...tx,
+      status: update.status,
+      confirmations: update.confirmations ?? tx.confirmations,
+      txHash: update.txHash ?? tx.txHash,
+      failureReason: update.reason ?? tx.failureReason,
+      statusHistory: tx.status === update.status
+        ? tx.statusHistory
+        : [...(tx.statusHistory || []), { status: update.status, at: Date.now() }]
+    };
+
+    if (update.status === 'settled') {
+      await LedgerService.recordWithdrawalSettlement(next);
+      LoggerService.log(LogCategory.FINANCIAL, "Withdrawal settled", { txId: tx.id, txHash: next.txHash, confirmations: next.confirmations });
+    } else if (update.status === 'failed') {
+      await LedgerService.recordWithdrawalRefund(next);
+      LoggerService.log(LogCategory.FINANCIAL, "Withdrawal failed and refunded", { txId: tx.id, reason: update.reason, amount: tx.amount, asset: tx.asset });
+    } else if (update.status === 'reversed') {
+      await LedgerService.recordWithdrawalReversal(next);
+      LoggerService.log(LogCategory.FINANCIAL, "Settled withdrawal reversed and refunded", { txId: tx.id, reason: update.reason, txHash: tx.txHash });
+    } else {
+      await LedgerService.updateTransaction(next);
+      if (tx.status !== update.status) {
+        LoggerService.log(LogCategory.FINANCIAL, `Withdrawal ${update.status}`, { txId: tx.id, txHash: next.txHash });
+      }
+    }
+    return next;
+  }
+}
@@ -0,0 +1,260 @@
+
+import { MiningBot, TelemetryReading } from "../types";
+
+const SOURCE_STORAGE_KEY = 'cloudmine_telemetry_source';
+
+// One hour of samples at the bridge's default 5s poll interval
+const SERIES_LIMIT = 720;
+
+// A bot counts as live while its rig has reported within this window
+export const TELEMETRY_STALE_MS = 30000;
+
+export interface TelemetrySourceConfig {
+  enabled: boolean;
+  url: string;
+}
+
+export const DEFAULT_TELEMETRY_SOURCE: TelemetrySourceConfig = {
+  enabled: false,
+  url: 'ws://localhost:8788'
+};
+
+// cgminer reports MH/s; BFGMiner, bmminer and friends use other prefixes
+const HASHRATE_FIELDS: [string, number][] = [
+  ['MHS', 1],
+  ['GHS', 1e3],
+  ['THS', 1e6],
+  ['KHS', 1e-3]
+];
+
+// Device states cgminer/BFGMiner use for boards that stopped hashing. 'Initialising'
+// is the normal boot state, so a restarting rig is not a fault.
+const FAULTED_DEVICE_STATES = ['Dead', 'Sick', 'NoStart'];
+
+type Row = Record<string, any>;
+
+const finite = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const readHashrate = (row: Row): number | undefined => {
+  for (const [prefix, scale] of HASHRATE_FIELDS) {
+    // Prefer the short rolling average over the since-boot average
+    const value = finite(row[`${prefix} 5s`]) ?? finite(row[`${prefix} av`]);
+    if (value !== undefined) return value * scale;
+  }
+  return undefined;
+};
+
+const sum = (rows: Row[], field: string) => {
+  const values = rows.map(r => finite(r[field])).filter((v): v is number => v !== undefined);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) : undefined;
+};
+
+/**
+ * Share acceptance ratio, the closest thing a rig reports to efficiency.
+ */
+const shareRatio = (accepted?: number, rejected?: number, hardwareErrors?: number) => {
+  const total = (accepted ?? 0) + (rejected ?? 0) + (hardwareErrors ?? 0);
+  return total > 0 ? (accepted ?? 0) / total : undefined;
+};
+
+/**
+ * Normalises a cgminer/BFGMiner API response. Accepts a single `summary` or
+ * `devs` reply, or the joined `summary+devs` form `{ summary: [...], devs: [...] }`.
+ */
+const fromMinerApi = (response: Row, botId: string, timestamp: number, source?: string): TelemetryReading => {
+  const summary: Row | undefined = response.summary?.[0] ?? (response.SUMMARY ? response : undefined);
+  const devs: Row | undefined = response.devs?.[0] ?? (response.DEVS ? response : undefined);
+  const row: Row | undefined = summary?.SUMMARY?.[0];
+  const devices: Row[] = devs?.DEVS ?? [];
+
+  const hashrate = (row && readHashrate(row)) ?? devices.reduce((acc, d) => acc + (readHashrate(d) ?? 0), 0);
+  const temps = [finite(row?.Temperature), ...devices.map(d => finite(d.Temperature))].filter((t): t is number => t !== undefined && t > 0);
+  const accepted = finite(row?.Accepted) ?? sum(devices, 'Accepted');
+  const rejected = finite(row?.Rejected) ?? sum(devices, 'Rejected');
+  const hardwareErrors = finite(row?.['Hardware Errors']) ?? sum(devices, 'Hardware Errors');
+
+  const failedStatus = [summary, devs, response].map(r => r?.STATUS?.[0]).find(s => s && (s.STATUS === 'E' || s.STATUS === 'F'));
+  const failedDevice = devices.find(d => FAULTED_DEVICE_STATES.includes(d.Status));
+  const fault = failedStatus
+    ? String(failedStatus.Msg ?? 'API error')
+    : failedDevice ? `${failedDevice.Name ?? 'Device'} ${failedDevice.ID ?? failedDevice.ASC ?? failedDevice.GPU ?? ''} ${failedDevice.Status}`.replace(/\s+/g, ' ') : undefined;
+
+  if (!row && devices.length === 0 && !failedStatus) throw new Error("Miner response has no SUMMARY or DEVS section");
+
+  return {
+    botId,
+    timestamp,
+    hashrate,
+    // Hottest board is what throttles the rig
+    temp: temps.length > 0 ? Math.max(...temps) : undefined,
+    efficiency: shareRatio(accepted, rejected, hardwareErrors),
+    accepted,
+    rejected,
+    hardwareErrors,
+    fault,
+    source
+  };
+};
+
+/**
+ * Turns one bridge message into a reading. Messages carry a `botId` plus
+ * either normalised fields (`hashrate`, `temp`, ...) or a raw miner API
+ * response; see `scripts/telemetry-bridge.mjs`.
+ */
+export const parseTelemetryMessage = (message: Row): TelemetryReading => {
+  const botId = message.botId ?? message.bot_id;
+  if (botId === undefined || botId === null || botId === '') throw new Error("Reading has no botId");
+  const timestamp = finite(message.timestamp) ?? Date.now();
+  const source = message.source !== undefined ? String(message.source) : undefined;
+
+  const response = message.cgminer ?? message;
+  if (response.STATUS || response.summary || response.devs) {
+    return fromMinerApi(response, String(botId), timestamp, source);
+  }
+
+  const hashrate = finite(message.hashrate);
+  if (hashrate === undefined) throw new Error(`Reading for bot ${botId} has no hashrate`);
+  const accepted = finite(message.accepted);
+  const rejected = finite(message.rejected);
+  const hardwareErrors = finite(message.hardwareErrors);
+  return {
+    botId: String(botId),
+    timestamp,
+    hashrate,
+    temp: finite(message.temp),
+    efficiency: finite(message.efficiency) ?? shareRatio(accepted, rejected, hardwareErrors),
+    accepted,
+    rejected,
+    hardwareErrors,
+    fault: message.fault ? String(message.fault) : undefined,
+    source
+  };
+};
+
+/**
+ * Streams rig readings from the local telemetry bridge, reconnecting with
+ * the same backoff as the market feed.
+ */
+export class TelemetryFeed {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private retries = 0;
+  private stopped = false;
+
+  constructor(private readonly url: string) {}
+
+  start(onReading: (reading: TelemetryReading) => void, onError?: (err: Error | null) => void) {
+    this.stopped = false;
+    const connect = () => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(this.url);
+      } catch (e) {
+        // A malformed URL will not fix itself, so report it without retrying
+        onError?.(new Error(`Cannot connect to telemetry bridge ${this.url}: ${(e as Error).message}`));
+        return;
+      }
+      this.socket = socket;
+      socket.onopen = () => {
+        this.retries = 0;
+        onError?.(null);
+      };
+      socket.onmessage = (event) => {
+        let payload: unknown;
+        try {
+          payload = JSON.parse(String(event.data));
+        } catch (e) {
+          onError?.(new Error(`Malformed telemetry message: ${(e as Error).message}`));
+          return;
+        }
+        const messages: Row[] = Array.isArray(payload) ? payload : [payload as Row];
+        messages
+          .filter(m => m && (m.type === undefined || m.type === 'telemetry'))
+          .forEach(m => {
+            try {
+              onReading(parseTelemetryMessage(m));
+            } catch (e) {
+              onError?.(new Error(`Rejected telemetry reading: ${(e as Error).message}`));
+            }
+          });
+      };
+      socket.onclose = () => {
+        if (this.stopped) return;
+        const delay = Math.min(30000, 1000 * 2 ** this.retries++);
+        onError?.(new Error(`Telemetry bridge disconnected, retrying in ${delay / 1000}s`));
+        this.reconnectTimer = window.setTimeout(connect, delay);
+      };
+    };
+    connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+/**
+ * Maps rig readings onto fleet bots by id and keeps a short in-memory
+ * time-series per bot.
+ */
+export class TelemetryService {
+  private static series = new Map<string, TelemetryReading[]>();
+
+  static record(reading: TelemetryReading) {
+    const samples = this.series.get(reading.botId) ?? [];
+    samples.push(reading);
+    if (samples.length > SERIES_LIMIT) samples.splice(0, samples.length - SERIES_LIMIT);
+    this.series.set(reading.botId, samples);
+    window.dispatchEvent(new CustomEvent('telemetry-recorded', { detail: reading }));
+  }
+
+  static getSeries(botId: string): TelemetryReading[] {
+    return this.series.get(botId) ?? [];
+  }
+
+  /**
+   * Overwrites a bot's measured fields with the reading. A rig fault puts an
+   * active bot into the error state; clearing it stays a manual action.
+   */
+  static apply(bots: MiningBot[], reading: TelemetryReading): MiningBot[] {
+    if (!bots.some(b => b.id === reading.botId)) return bots;
+    return bots.map(bot => {
+      if (bot.id !== reading.botId) return bot;
+      const next: MiningBot = {
+        ...bot,
+        hashrate: parseFloat(reading.hashrate.toFixed(2)),
+        temp: reading.temp !== undefined ? Math.round(reading.temp) : bot.temp,
+        efficiency: reading.efficiency !== undefined ? parseFloat(reading.efficiency.toFixed(4)) : bot.efficiency,
+        lastTelemetryAt: reading.timestamp
+      };
+      if (reading.fault && bot.status === 'active') {
+        next.status = 'error';
+        next.lastAction = `Rig fault: ${reading.fault}`;
+      }
+      return next;
+    });
+  }
+
+  static isLive(bot: MiningBot, now = Date.now()): boolean {
+    return bot.lastTelemetryAt !== undefined && now - bot.lastTelemetryAt < TELEMETRY_STALE_MS;
+  }
+
+  static loadSource(): TelemetrySourceConfig {
+    try {
+      const saved = localStorage.getItem(SOURCE_STORAGE_KEY);
+      return saved ? { ...DEFAULT_TELEMETRY_SOURCE, ...JSON.parse(saved) } : DEFAULT_TELEMETRY_SOURCE;
+    } catch {
+      return DEFAULT_TELEMETRY_SOURCE;
+    }
+  }
+
+  static saveSource(config: TelemetrySourceConfig) {
+    localStorage.setItem(SOURCE_STORAGE_KEY, JSON.stringify(config));
+  }
+}
@@ -0,0 +1,176 @@
+
+import { LoggerService } from "./logger";
+import { LogCategory } from "../types";
+
+const STORAGE_KEY = 'cloudmine_totp';
+const ISSUER = 'CloudMine AI';
+const ACCOUNT = 'operator';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+/** Accept codes from this many steps either side of now to tolerate clock drift. */
+export const TOTP_DRIFT_STEPS = 1;
+
+interface TotpEnrollment {
+  secret: string;
+  enrolledAt: number;
+  /** Last accepted time step; a code can only be used once. */
+  lastUsedStep: number;
+}
+
+export interface TotpVerification {
+  ok: boolean;
+  reason?: string;
+}
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+};
+
+const base32Decode = (text: string) => {
+  const clean = text.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+};
+
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 30s step, 6 digits),
+ * compatible with standard authenticator apps.
+ */
+export class TotpService {
+  static generateSecret(): string {
+    return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+  }
+
+  static getOtpAuthUri(secret: string): string {
+    const label = encodeURIComponent(`${ISSUER}:${ACCOUNT}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * RFC 4226 HOTP value for a single counter.
+   */
+  static async generateCode(secret: string, step: number): Promise<string> {
+    const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const counter = new DataView(new ArrayBuffer(8));
+    counter.setUint32(0, Math.floor(step / 0x100000000));
+    counter.setUint32(4, step >>> 0);
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+  }
+
+  static currentStep(now = Date.now()): number {
+    return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  }
+
+  /**
+   * Returns the matching time step within the drift window, or null.
+   */
+  static async matchStep(secret: string, code: string, now = Date.now()): Promise<number | null> {
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+    const step = this.currentStep(now);
+    for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+      if (await this.generateCode(secret, step + drift) === code) return step + drift;
+    }
+    return null;
+  }
+
+  static isEnrolled(): boolean {
+    return this.load() !== null;
+  }
+
+  static getEnrolledAt(): number | null {
+    return this.load()?.enrolledAt ?? null;
+  }
+
+  /**
+   * Stores a freshly generated secret once the operator proves their
+   * authenticator produces matching codes.
+   */
+  static async enroll(secret: string, code: string): Promise<TotpVerification> {
+    const step = await this.matchStep(secret, code);
+    if (step === null) return { ok: false, reason: 'Code does not match the new secret. Check the device clock and try again.' };
+    this.save({ secret, enrolledAt: Date.now(), lastUsedStep: step });
+    LoggerService.log(LogCategory.SECURITY, "TOTP authenticator enrolled");
+    return { ok: true };
+  }
+
+  /**
+   * Checks a code for a protected action and records it so it cannot be replayed.
+   */
+  static async verify(code: string, action: string): Promise<TotpVerification> {
+    const enrollment = this.load();
+    if (!enrollment) return { ok: false, reason: 'Two-factor authentication is not enrolled. Set it up in Settings first.' };
+
+    const step = await this.matchStep(enrollment.secret, code);
+    if (step === null) {
+      LoggerService.log(LogCategory.SECURITY, "TOTP challenge failed", { action });
+      return { ok: false, reason: 'Invalid or expired code.' };
+    }
+    if (step <= enrollment.lastUsedStep) {
+      LoggerService.log(LogCategory.SECURITY, "TOTP code replay rejected", { action });
+      return { ok: false, reason: 'This code has already been used. Wait for the next one.' };
+    }
+
+    this.save({ ...enrollment, lastUsedStep: step });
+    LoggerService.log(LogCategory.SECURITY, "TOTP challenge passed", { action });
+    return { ok: true };
+  }
+
+  static async disable(code: string): Promise<TotpVerification> {
+    const result = await this.verify(code, 'disable-2fa');
+    if (!result.ok) return result;
+    localStorage.removeItem(STORAGE_KEY);
+    LoggerService.log(LogCategory.SECURITY, "TOTP authenticator removed");
+    return result;
+  }
+
+  private static load(): TotpEnrollment | null {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      console.error("Failed to read 2FA enrollment:", e);
+      return null;
+    }
+  }
+
+  private static save(enrollment: TotpEnrollment) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(enrollment));
+  }
+}
@@ -0,0 +1,103 @@
+
+import { LogCategory, WhitelistedAddress } from "../types";
+import { LoggerService } from "./logger";
+
+const STORAGE_KEY = 'cloudmine_whitelist';
+const QUARANTINE_STORAGE_KEY = 'cloudmine_whitelist_quarantine';
+
+export const QUARANTINE_MIN_HOURS = 24;
+export const QUARANTINE_MAX_HOURS = 48;
+const MS_PER_HOUR = 60 * 60 * 1000;
+const EXPIRY_CHECK_MS = 30 * 1000;
+
+const DEFAULT_WHITELIST: WhitelistedAddress[] = [
+  { id: '1', label: 'Primary Cold Storage', address: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh', type: 'BTC', addedAt: Date.now() - 1000000 },
+  { id: '2', label: 'MetaMask Vault', address: '0x71C7656EC7ab88b098defB751B7401B5f6d8976F', type: 'ETH', addedAt: Date.now() - 500000 },
+];
+
+export class WhitelistService {
+  static load(): WhitelistedAddress[] {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : DEFAULT_WHITELIST;
+    } catch (e) {
+      console.error("Failed to load whitelist:", e);
+      return DEFAULT_WHITELIST;
+    }
+  }
+
+  static save(entries: WhitelistedAddress[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  }
+
+  /**
+   * Cooling-off period applied to new destinations, clamped to 24–48h.
+   */
+  static getQuarantineHours(): number {
+    const saved = Number(localStorage.getItem(QUARANTINE_STORAGE_KEY));
+    return saved ? Math.min(QUARANTINE_MAX_HOURS, Math.max(QUARANTINE_MIN_HOURS, saved)) : QUARANTINE_MIN_HOURS;
+  }
+
+  static setQuarantineHours(hours: number) {
+    const clamped = Math.min(QUARANTINE_MAX_HOURS, Math.max(QUARANTINE_MIN_HOURS, Math.round(hours)));
+    localStorage.setItem(QUARANTINE_STORAGE_KEY, String(clamped));
+    LoggerService.log(LogCategory.SECURITY, "Whitelist quarantine period changed", { hours: clamped });
+  }
+
+  /**
+   * Builds a new entry whose lock is fixed at creation, so shortening the
+   * setting later never releases a pending address early.
+   */
+  static createEntry(fields: Pick<WhitelistedAddress, 'label' | 'address' | 'type'>, now = Date.now()): WhitelistedAddress {
+    return {
+      ...fields,
+      id: Math.random().toString(36).substr(2, 9),
+      addedAt: now,
+      unlocksAt: now + this.getQuarantineHours() * MS_PER_HOUR
+    };
+  }
+
+  /** Entries saved before quarantine existed have no lock. */
+  static isLocked(entry: WhitelistedAddress, now = Date.now()): boolean {
+    return entry.unlocksAt !== undefined && now < entry.unlocksAt;
+  }
+
+  static formatRemaining(entry: WhitelistedAddress, now = Date.now()): string {
+    const remaining = Math.max(0, (entry.unlocksAt ?? now) - now);
+    const hours = Math.floor(remaining / MS_PER_HOUR);
+    const minutes = Math.floor((remaining % MS_PER_HOUR) / 60000);
+    const seconds = Math.floor((remaining % 60000) / 1000);
+    return `${hours}h ${String(minutes).padStart(2, '0')}m ${String(seconds).padStart(2, '0')}s`;
+  }
+
+  /**
+   * Logs every stored lock that has expired since the last check, exactly
+   * once: the entries are marked in storage before anything is logged. Open
+   * views pick up the marks from the `whitelist-expired` event (detail: ids).
+   */
+  static recordExpiries(now = Date.now()): string[] {
+    const entries = this.load();
+    const expired = entries.filter(e => e.unlocksAt !== undefined && !e.unlockLogged && now >= e.unlocksAt);
+    if (expired.length === 0) return [];
+    this.save(entries.map(e => expired.includes(e) ? { ...e, unlockLogged: true } : e));
+    expired.forEach(e => LoggerService.log(LogCategory.SECURITY, "Whitelist quarantine expired", { label: e.label, address: e.address, addedAt: e.addedAt, unlocksAt: e.unlocksAt }));
+    const ids = expired.map(e => e.id);
+    window.dispatchEvent(new CustomEvent('whitelist-expired', { detail: ids }));
+    return ids;
+  }
+
+  /**
+   * Records expiries on a timer for as long as the app runs, whichever view
+   * is open. Returns a function that stops the timer.
+   */
+  static watchExpiries(intervalMs = EXPIRY_CHECK_MS): () => void {
+    this.recordExpiries();
+    const timer = setInterval(() => this.recordExpiries(), intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  /** Applies marks made by `recordExpiries` to an in-memory copy of the list. */
+  static applyExpiries(entries: WhitelistedAddress[], ids: string[]): WhitelistedAddress[] {
+    return entries.map(e => ids.includes(e.id) && !e.unlockLogged ? { ...e, unlockLogged: true } : e);
+  }
+}
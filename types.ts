@@ -27,6 +27,65 @@ export interface AuditLog {
   category: LogCategory;
   action: string;
   metadata?: Record<string, any>;
+  /** Position in the hash chain, starting at 0. */
+  seq?: number;
+  /** Hash of the preceding entry (all zeros for the first). */
+  prevHash?: string;
+  /** SHA-256 over this entry's content and `prevHash`. */
+  hash?: string;
+  /** Chain head hash of the export bundle this entry was imported from. */
+  importedFrom?: string;
+  /** Metadata paths rewritten by the redaction pipeline before storage. */
+  redactions?: string[];
+}
+
+export type AssetSymbol = 'USD' | 'BTC' | 'ETH' | 'SOL';
+
+export type TransactionKind = 'deposit' | 'purchase' | 'withdrawal' | 'sweep' | 'conversion' | 'resale' | 'opening';
+
+// Withdrawals move requested -> approved -> broadcast -> settled, or end as
+// failed / reversed. Internal postings are 'confirmed' immediately.
+export type TransactionStatus = 'requested' | 'approved' | 'broadcast' | 'settled' | 'confirmed' | 'pending' | 'failed' | 'reversed';
+
+export interface Transaction {
+  id: string;
+  timestamp: number;
+  kind: TransactionKind;
+  asset: AssetSymbol; // unit of amount and netAmount
+  amount: number;
+  netAmount: number;
+  usdValue?: number; // USD valuation at the time of the transaction
+  address: string;
+  status: TransactionStatus;
+  confirmations?: number;
+  requiredConfirmations?: number;
+  txHash?: string;
+  failureReason?: string;
+  statusHistory?: { status: TransactionStatus; at: number }[];
+}
+
+export enum LedgerAccount {
+  WALLET = 'WALLET',
+  BOT_FLEET = 'BOT_FLEET',
+  DEPOSITS = 'DEPOSITS',
+  WITHDRAWALS = 'WITHDRAWALS',
+  PENDING_WITHDRAWALS = 'PENDING_WITHDRAWALS',
+  FEES = 'FEES',
+  MINING_REVENUE = 'MINING_REVENUE',
+  FX_CONVERSION = 'FX_CONVERSION',
+  DEPRECIATION = 'DEPRECIATION',
+  OPENING_EQUITY = 'OPENING_EQUITY'
+}
+
+export interface LedgerEntry {
+  id: string;
+  txId: string;
+  timestamp: number;
+  account: LedgerAccount;
+  asset: AssetSymbol;
+  debit: number;
+  credit: number;
+  memo: string;
 }
 
 export interface MiningBot {
@@ -41,6 +100,69 @@ export interface MiningBot {
   algorithm: string;
   isAutoPilot?: boolean;
   lastAction?: string;
+  lastTelemetryAt?: number; // Last reading from the rig itself, if it reports
+  throttledFrom?: number; // Hashrate before autopilot thermal throttling began
+  group?: string; // User-defined fleet, e.g. one per client
+  region?: string; // One of BOT_REGIONS ids
+  tags?: string[];
+  tierId?: string; // Marketplace tier the bot was provisioned from
+  purchasedAt?: number;
+  purchasePrice?: number;
+  powerWatts?: number; // Measured or configured draw; overrides the tier rating
+}
+
+export type BotEventType = 'status' | 'algorithm' | 'tuning' | 'autopilot' | 'diagnostics' | 'provisioning';
+
+/**
+ * Something that happened to a bot, as shown in the Dashboard's bot feed.
+ */
+export interface BotEvent {
+  id: string;
+  timestamp: number;
+  type: BotEventType;
+  botId?: string; // Absent for fleet-wide events
+  botName: string;
+  message: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * One normalised sample reported by a physical rig.
+ */
+export interface TelemetryReading {
+  botId: string;
+  timestamp: number;
+  hashrate: number; // in MH/s
+  temp?: number; // in Celsius
+  efficiency?: number; // 0-1, accepted share ratio
+  accepted?: number;
+  rejected?: number;
+  hardwareErrors?: number;
+  /** The rig reported an error status. */
+  fault?: string;
+  source?: string;
+}
+
+export interface MarketCandle {
+  symbol: string;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface WhitelistedAddress {
+  id: string;
+  label: string;
+  address: string;
+  type: string;
+  addedAt: number;
+  /** End of the cooling-off period; withdrawals to the address are blocked until then. */
+  unlocksAt?: number;
+  /** Set once the quarantine expiry has been written to the audit log. */
+  unlockLogged?: boolean;
 }
 
 export interface ChatMessage {